@@ -0,0 +1,115 @@
+/**
+ * Forgot Password Page
+ * Requests a reset link by email. The answer is the same whether or not
+ * the account exists, so the page can't be used to look up admins.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { AlertCircle, ArrowLeft, CheckCircle2, Loader2 } from 'lucide-react';
+import { useForgotPassword } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export default function ForgotPasswordPage() {
+  const t = useTranslations('auth.forgot');
+  const locale = useLocale();
+  const errorMessage = useErrorMessage();
+  const forgotPassword = useForgotPassword();
+  const [email, setEmail] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    forgotPassword.mutate({ email: email.trim() });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div className="flex justify-center">
+          <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary">
+            <span className="text-lg font-bold text-white">ME</span>
+          </div>
+        </div>
+
+        <Card className="border-0 shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-center text-2xl">{t('title', { default: 'Reset your password' })}</CardTitle>
+            <CardDescription className="text-center">
+              {t('description', { default: "Enter your account email and we'll send you a link to choose a new password." })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {forgotPassword.isSuccess ? (
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-700">
+                  {t('sent', {
+                    email: email.trim(),
+                    default: `If an account exists for ${email.trim()}, a reset link is on its way. Check your inbox.`,
+                  })}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {forgotPassword.error && (
+                  <Alert variant="destructive" className="border-red-200 bg-red-50">
+                    <AlertCircle className="h-4 w-4 text-red-600" />
+                    <AlertDescription className="text-red-700">
+                      {errorMessage(describeError(forgotPassword.error))}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <label htmlFor="email" className="text-sm font-medium text-gray-700">
+                    {t('email', { default: 'Email' })}
+                  </label>
+                  <Input
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    placeholder="admin@example.com"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      forgotPassword.reset();
+                    }}
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={!email.trim() || forgotPassword.isPending}>
+                  {forgotPassword.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {t('sending', { default: 'Sending...' })}
+                    </>
+                  ) : (
+                    t('submit', { default: 'Send reset link' })
+                  )}
+                </Button>
+              </form>
+            )}
+
+            <Link
+              href={`/${locale}/login`}
+              className="flex items-center justify-center text-sm font-medium text-primary hover:text-primary/80"
+            >
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              {t('back', { default: 'Back to sign in' })}
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
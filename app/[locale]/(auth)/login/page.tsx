@@ -1,10 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useLocale } from 'next-intl';
 import { useAuth } from '@/hooks/use-auth';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { isPasskeySupported } from '@/lib/webauthn';
+import { authSync } from '@/lib/auth-sync';
+import { getActiveBackend } from '@/lib/backends';
+import { BackendSwitcher } from '@/components/layout/backend-switcher';
+import { MfaChallengeForm } from '@/components/security/mfa-challenge-form';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -24,13 +31,16 @@ import {
   BarChart3,
   AlertCircle,
   CheckCircle2,
+  Fingerprint,
 } from 'lucide-react';
 
 export default function LoginPage() {
   const t = useTranslations();
   const router = useRouter();
   const locale = useLocale();
-  const { login, isLoading, error: authError, clearError } = useAuth();
+  const { login, loginWithPasskey, isLoading, error: authError, clearError, mfaChallenge } = useAuth();
+  const errorMessage = useErrorMessage();
+  const fieldErrors = authError?.fields ?? {};
 
   // Form state
   const [usernameOrEmail, setUsernameOrEmail] = useState('');
@@ -38,9 +48,38 @@ export default function LoginPage() {
   const [remember, setRemember] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [passkeySupported, setPasskeySupported] = useState(false);
+
+  // Only known in the browser; checked after mount to keep hydration stable
+  useEffect(() => {
+    setPasskeySupported(isPasskeySupported());
+  }, []);
 
   const canSubmit = usernameOrEmail && password && !isLoading;
 
+  // Back to the page that sent us here when there is one (same-origin paths only)
+  const redirectTarget = useCallback(() => {
+    const redirect = new URLSearchParams(window.location.search).get('redirect');
+    return redirect && /^\/(?![/\\])/.test(redirect) ? redirect : `/${locale}/dashboard`;
+  }, [locale]);
+
+  // Signed in from another tab: follow it
+  useEffect(() => {
+    return authSync.subscribe((event) => {
+      if (event.type === 'login' && event.backendId === getActiveBackend().id) {
+        router.replace(redirectTarget());
+      }
+    });
+  }, [router, redirectTarget]);
+
+  const handleSuccess = () => {
+    setSuccess(true);
+    // Redirect after successful login
+    setTimeout(() => {
+      router.push(redirectTarget());
+    }, 1000);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     clearError();
@@ -51,13 +90,21 @@ export default function LoginPage() {
     const result = await login(usernameOrEmail, password, remember);
     
     if (result.success) {
-      setSuccess(true);
-      // Redirect after successful login
-      setTimeout(() => {
-        router.push(`/${locale}/dashboard`);
-      }, 1000);
+      handleSuccess();
+    }
+    // Error is now handled by the auth store; an MFA challenge switches the
+    // card to the code step
+  };
+
+  const handlePasskeyLogin = async () => {
+    clearError();
+    setSuccess(false);
+
+    // A typed username narrows the prompt to that account's passkeys
+    const result = await loginWithPasskey(usernameOrEmail.trim() || undefined, remember);
+    if (result.success) {
+      handleSuccess();
     }
-    // Error is now handled by the auth store
   };
 
   return (
@@ -74,159 +121,199 @@ export default function LoginPage() {
             {t('app.name')}
           </h2>
           <p className="mt-2 text-sm text-gray-600">{t('app.description')}</p>
+          {/* Which exchange backend this sign-in is for */}
+          <div className="mt-4 flex justify-center">
+            <BackendSwitcher />
+          </div>
         </div>
 
         {/* Login Form */}
         <Card className="border-0 shadow-lg">
           <CardHeader className="space-y-1">
             <CardTitle className="text-center text-2xl">
-              {t('auth.login')}
+              {mfaChallenge
+                ? t('auth.mfa.title', { default: 'Two-factor authentication' })
+                : t('auth.login')}
             </CardTitle>
             <CardDescription className="text-center">
-              Enter your credentials to access the admin panel
+              {mfaChallenge
+                ? t('auth.mfa.subtitle', { default: 'Confirm it is you to finish signing in' })
+                : 'Enter your credentials to access the admin panel'}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Success Alert */}
-              {success && (
-                <Alert className="border-green-200 bg-green-50">
-                  <CheckCircle2 className="h-4 w-4 text-green-600" />
-                  <AlertDescription className="text-green-700">
-                    Login successful! Redirecting to dashboard...
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              {/* Error Alert */}
-              {authError && (
-                <Alert
-                  variant="destructive"
-                  className="border-red-200 bg-red-50"
-                >
-                  <AlertCircle className="h-4 w-4 text-red-600" />
-                  <AlertDescription className="text-red-700">
-                    {authError.message}
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              {/* Username or Email Field */}
-              <div className="space-y-2">
-                <label
-                  htmlFor="usernameOrEmail"
-                  className="text-sm font-medium text-gray-700"
-                >
-                  {t('auth.email')}
-                </label>
-                <Input
-                  id="usernameOrEmail"
-                  name="usernameOrEmail"
-                  type="text"
-                  autoComplete="username"
-                  required
-                  placeholder="admin@example.com/username"
-                  value={usernameOrEmail}
-                  onChange={(e) => {
-                    setUsernameOrEmail(e.target.value);
-                    clearError();
-                    setSuccess(false);
-                  }}
-                  className={`${
-                    usernameOrEmail === ''
-                      ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
-                      : ''
-                  }`}
-                />
-                {usernameOrEmail === '' && (
-                  <p className="text-sm text-red-600">
-                    {t('validation.emailOrUsername')}
-                  </p>
+            {mfaChallenge ? (
+              <MfaChallengeForm onSuccess={handleSuccess} />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Success Alert */}
+                {success && (
+                  <Alert className="border-green-200 bg-green-50">
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    <AlertDescription className="text-green-700">
+                      Login successful! Redirecting to dashboard...
+                    </AlertDescription>
+                  </Alert>
                 )}
-              </div>
-
-              {/* Password Field */}
-              <div className="space-y-2">
-                <label
-                  htmlFor="password"
-                  className="text-sm font-medium text-gray-700"
-                >
-                  {t('auth.password')}
-                </label>
-                <div className="relative">
+
+                {/* Error Alert */}
+                {authError && (
+                  <Alert
+                    variant="destructive"
+                    className="border-red-200 bg-red-50"
+                  >
+                    <AlertCircle className="h-4 w-4 text-red-600" />
+                    <AlertDescription className="text-red-700">
+                      {errorMessage(authError)}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Username or Email Field */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="usernameOrEmail"
+                    className="text-sm font-medium text-gray-700"
+                  >
+                    {t('auth.email')}
+                  </label>
                   <Input
-                    id="password"
-                    name="password"
-                    type={showPassword ? 'text' : 'password'}
-                    autoComplete="current-password"
+                    id="usernameOrEmail"
+                    name="usernameOrEmail"
+                    type="text"
+                    autoComplete="username"
                     required
-                    placeholder="Enter your password"
-                    value={password}
+                    placeholder="admin@example.com/username"
+                    value={usernameOrEmail}
                     onChange={(e) => {
-                      setPassword(e.target.value);
+                      setUsernameOrEmail(e.target.value);
                       clearError();
                       setSuccess(false);
                     }}
-                    className="pr-10"
+                    className={`${
+                      usernameOrEmail === ''
+                        ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                        : ''
+                    }`}
                   />
-                  <button
-                    type="button"
-                    className="absolute inset-y-0 right-0 flex items-center pr-3"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    {showPassword ? (
-                      <EyeOff className="h-4 w-4 text-gray-400" />
-                    ) : (
-                      <Eye className="h-4 w-4 text-gray-400" />
-                    )}
-                  </button>
+                  {usernameOrEmail === '' && (
+                    <p className="text-sm text-red-600">
+                      {t('validation.emailOrUsername')}
+                    </p>
+                  )}
+                  {fieldErrors.usernameOrEmail && (
+                    <p className="text-sm text-red-600">
+                      {fieldErrors.usernameOrEmail}
+                    </p>
+                  )}
                 </div>
-              </div>
-
-              {/* Remember Me & Forgot Password */}
-              <div className="flex items-center justify-between">
-                <div className="flex items-center">
-                  <input
-                    id="remember"
-                    name="remember"
-                    type="checkbox"
-                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                    checked={remember}
-                    onChange={(e) => setRemember(e.target.checked)}
-                  />
+
+                {/* Password Field */}
+                <div className="space-y-2">
                   <label
-                    htmlFor="remember"
-                    className="ml-2 block text-sm text-gray-900"
+                    htmlFor="password"
+                    className="text-sm font-medium text-gray-700"
                   >
-                    {t('auth.remember')}
+                    {t('auth.password')}
                   </label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      name="password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="current-password"
+                      required
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => {
+                        setPassword(e.target.value);
+                        clearError();
+                        setSuccess(false);
+                      }}
+                      className="pr-10"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 flex items-center pr-3"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4 text-gray-400" />
+                      ) : (
+                        <Eye className="h-4 w-4 text-gray-400" />
+                      )}
+                    </button>
+                  </div>
+                  {fieldErrors.password && (
+                    <p className="text-sm text-red-600">{fieldErrors.password}</p>
+                  )}
                 </div>
 
-                <div className="text-sm">
-                  <a
-                    href="#"
-                    className="font-medium text-primary hover:text-primary/80"
-                    onClick={(e) => e.preventDefault()}
-                  >
-                    {t('auth.forgotPassword')}
-                  </a>
+                {/* Remember Me & Forgot Password */}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <input
+                      id="remember"
+                      name="remember"
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      checked={remember}
+                      onChange={(e) => setRemember(e.target.checked)}
+                    />
+                    <label
+                      htmlFor="remember"
+                      className="ml-2 block text-sm text-gray-900"
+                    >
+                      {t('auth.remember')}
+                    </label>
+                  </div>
+
+                  <div className="text-sm">
+                    <Link
+                      href={`/${locale}/forgot-password`}
+                      className="font-medium text-primary hover:text-primary/80"
+                    >
+                      {t('auth.forgotPassword')}
+                    </Link>
+                  </div>
                 </div>
-              </div>
-
-              {/* Submit Button */}
-              <div>
-                <Button type="submit" className="w-full" disabled={!canSubmit}>
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      {t('common.loading')}
-                    </>
-                  ) : (
-                    t('auth.loginButton')
-                  )}
-                </Button>
-              </div>
-            </form>
+
+                {/* Submit Button */}
+                <div>
+                  <Button type="submit" className="w-full" disabled={!canSubmit}>
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        {t('common.loading')}
+                      </>
+                    ) : (
+                      t('auth.loginButton')
+                    )}
+                  </Button>
+                </div>
+
+                {/* Passkey sign-in, no password needed */}
+                {passkeySupported && (
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-3 text-xs uppercase text-gray-400">
+                      <span className="h-px flex-1 bg-gray-200" />
+                      {t('auth.passkey.or', { default: 'or' })}
+                      <span className="h-px flex-1 bg-gray-200" />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      disabled={isLoading}
+                      onClick={handlePasskeyLogin}
+                    >
+                      <Fingerprint className="mr-2 h-4 w-4" />
+                      {t('auth.passkey.signIn', { default: 'Sign in with a passkey' })}
+                    </Button>
+                  </div>
+                )}
+              </form>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,208 @@
+/**
+ * Reset Password Page
+ * Opened from the emailed link (?token=...). The new password is checked
+ * against the backend's password policy as it is typed; an invalid, used
+ * or expired link leads back to requesting a new one.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { AlertCircle, CheckCircle2, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { usePasswordPolicy, useResetPassword } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError } from '@/lib/api';
+import { meetsPasswordPolicy } from '@/lib/password';
+import { PasswordStrengthMeter } from '@/components/security/password-strength-meter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// The link itself is unusable; retrying with another password won't help
+const LINK_ERRORS = ['RESET_TOKEN_INVALID', 'RESET_TOKEN_USED', 'RESET_TOKEN_EXPIRED'];
+
+interface ResetPasswordPageProps {
+  searchParams: { token?: string };
+}
+
+export default function ResetPasswordPage({ searchParams }: ResetPasswordPageProps) {
+  const t = useTranslations('auth.reset');
+  const locale = useLocale();
+  const errorMessage = useErrorMessage();
+  const token = searchParams.token ?? '';
+  const { data: policy, isLoading: policyLoading } = usePasswordPolicy({ enabled: Boolean(token) });
+  const resetPassword = useResetPassword();
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+
+  const error = resetPassword.error ? describeError(resetPassword.error) : null;
+  const linkError = error && LINK_ERRORS.includes(error.code) ? error : null;
+  const mismatch = confirmPassword !== '' && confirmPassword !== password;
+  // Without the policy the backend still has the final say
+  const meetsPolicy = policy ? meetsPasswordPolicy(password, policy) : password !== '';
+  const canSubmit = meetsPolicy && password === confirmPassword && !resetPassword.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      resetPassword.mutate({ token, password });
+    }
+  };
+
+  const requestNewLink = (
+    <Button asChild variant="outline" className="w-full">
+      <Link href={`/${locale}/forgot-password`}>{t('requestNew', { default: 'Request a new link' })}</Link>
+    </Button>
+  );
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <>
+          <Alert variant="destructive" className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-700">
+              {t('missingToken', { default: 'This reset link is incomplete. Request a new one.' })}
+            </AlertDescription>
+          </Alert>
+          {requestNewLink}
+        </>
+      );
+    }
+
+    if (resetPassword.isSuccess) {
+      return (
+        <>
+          <Alert className="border-green-200 bg-green-50">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-700">
+              {t('success', { default: 'Your password has been reset. You can now sign in with it.' })}
+            </AlertDescription>
+          </Alert>
+          <Button asChild className="w-full">
+            <Link href={`/${locale}/login`}>{t('signIn', { default: 'Sign in' })}</Link>
+          </Button>
+        </>
+      );
+    }
+
+    if (linkError) {
+      return (
+        <>
+          <Alert variant="destructive" className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-700">{errorMessage(linkError)}</AlertDescription>
+          </Alert>
+          {requestNewLink}
+        </>
+      );
+    }
+
+    if (policyLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-600" />
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* A policy violation is shown under the password field instead */}
+        {error && !error.fields.password && (
+          <Alert variant="destructive" className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-700">{errorMessage(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* New Password Field */}
+        <div className="space-y-2">
+          <label htmlFor="password" className="text-sm font-medium text-gray-700">
+            {t('newPassword', { default: 'New password' })}
+          </label>
+          <div className="relative">
+            <Input
+              id="password"
+              name="password"
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              required
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                resetPassword.reset();
+              }}
+              className="pr-10"
+            />
+            <button
+              type="button"
+              className="absolute inset-y-0 right-0 flex items-center pr-3"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? <EyeOff className="h-4 w-4 text-gray-400" /> : <Eye className="h-4 w-4 text-gray-400" />}
+            </button>
+          </div>
+          {error?.fields.password && <p className="text-sm text-red-600">{error.fields.password}</p>}
+          {policy && <PasswordStrengthMeter password={password} policy={policy} />}
+        </div>
+
+        {/* Confirm Password Field */}
+        <div className="space-y-2">
+          <label htmlFor="confirmPassword" className="text-sm font-medium text-gray-700">
+            {t('confirmPassword', { default: 'Confirm new password' })}
+          </label>
+          <Input
+            id="confirmPassword"
+            name="confirmPassword"
+            type={showPassword ? 'text' : 'password'}
+            autoComplete="new-password"
+            required
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className={mismatch ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {mismatch && <p className="text-sm text-red-600">{t('mismatch', { default: "Passwords don't match" })}</p>}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={!canSubmit}>
+          {resetPassword.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t('submitting', { default: 'Resetting...' })}
+            </>
+          ) : (
+            t('submit', { default: 'Reset password' })
+          )}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 px-4 py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div className="flex justify-center">
+          <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary">
+            <span className="text-lg font-bold text-white">ME</span>
+          </div>
+        </div>
+
+        <Card className="border-0 shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-center text-2xl">{t('title', { default: 'Choose a new password' })}</CardTitle>
+            <CardDescription className="text-center">
+              {t('description', { default: 'Pick a password that meets the rules below.' })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">{renderContent()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
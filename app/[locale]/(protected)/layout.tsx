@@ -7,9 +7,14 @@
 
 import { useEffect } from 'react';
 import { useAuth } from '@/hooks/use-auth';
-import { useRouter } from 'next/navigation';
+import { useOutboxSync } from '@/hooks/use-outbox';
+import { usePathname, useRouter } from 'next/navigation';
 import { useLocale } from 'next-intl';
 import { Navbar } from '@/components/layout/navbar';
+import { RequestInspector } from '@/components/support/request-inspector';
+import { RateLimitNotice } from '@/components/support/rate-limit-notice';
+import { OfflineBanner } from '@/components/support/offline-banner';
+import { IdleTimeoutDialog } from '@/components/security/idle-timeout-dialog';
 
 interface ProtectedLayoutProps {
   children: React.ReactNode;
@@ -18,8 +23,12 @@ interface ProtectedLayoutProps {
 export default function ProtectedLayout({ children }: ProtectedLayoutProps) {
   const { isAuthenticated, isLoading, initialized, initialize } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
   const locale = useLocale();
 
+  // Replay actions saved while offline once the exchange is reachable again
+  useOutboxSync();
+
   // Initialize authentication state on mount
   useEffect(() => {
     if (!initialized) {
@@ -27,12 +36,13 @@ export default function ProtectedLayout({ children }: ProtectedLayoutProps) {
     }
   }, [initialized, initialize]);
 
-  // Redirect to login if not authenticated after initialization
+  // Redirect to login if not authenticated after initialization, coming
+  // back to this page afterwards (e.g. after an idle or expired session)
   useEffect(() => {
     if (initialized && !isLoading && !isAuthenticated) {
-      router.replace(`/${locale}/login`);
+      router.replace(`/${locale}/login?redirect=${encodeURIComponent(pathname)}`);
     }
-  }, [initialized, isAuthenticated, isLoading, router, locale]);
+  }, [initialized, isAuthenticated, isLoading, router, locale, pathname]);
 
   // Show loading while initializing or checking authentication
   if (!initialized || isLoading) {
@@ -53,8 +63,12 @@ export default function ProtectedLayout({ children }: ProtectedLayoutProps) {
     <div className="min-h-screen bg-gray-50">
       <Navbar />
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <OfflineBanner className="mb-6" />
+        <RateLimitNotice className="mb-6" />
         {children}
       </main>
+      <RequestInspector />
+      <IdleTimeoutDialog />
     </div>
   );
 }
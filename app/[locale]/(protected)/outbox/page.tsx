@@ -0,0 +1,121 @@
+/**
+ * Outbox Page
+ * Actions saved while the exchange was unreachable: pending ones are sent
+ * on reconnect, failed and conflicted ones can be retried or discarded
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { useNetworkStatus, useOutbox } from '@/hooks/use-outbox';
+import type { OutboxStatus } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  sending: 'bg-blue-100 text-blue-700',
+  failed: 'bg-red-100 text-red-700',
+  conflict: 'bg-yellow-100 text-yellow-800',
+};
+
+export default function OutboxPage() {
+  const t = useTranslations('outbox');
+  const state = useNetworkStatus();
+  const { entries, pending, retry, discard, flush } = useOutbox();
+
+  const handleDiscard = (id: string) => {
+    if (window.confirm(t('confirmDiscard', { default: 'Discard this action? It will not be sent.' }))) {
+      discard(id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{t('title', { default: 'Outbox' })}</h1>
+          <p className="mt-2 text-gray-600">
+            {t('description', { default: 'Actions saved while the exchange could not be reached' })}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => flush()} disabled={state !== 'online' || pending === 0}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t('sendNow', { default: 'Send pending now' })}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('queue', { default: 'Queued actions' })}</CardTitle>
+          <CardDescription>
+            {t('order', { default: 'Pending actions are sent in the order they were made' })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">
+              {t('empty', { default: 'Nothing is waiting to be sent' })}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">{t('columns.action', { default: 'Action' })}</th>
+                  <th className="py-2 pr-4 font-medium">{t('columns.status', { default: 'Status' })}</th>
+                  <th className="py-2 pr-4 font-medium">{t('columns.queuedAt', { default: 'Queued at' })}</th>
+                  <th className="py-2 pr-4 font-medium">{t('columns.attempts', { default: 'Attempts' })}</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b last:border-0 align-top">
+                    <td className="py-3 pr-4">
+                      <div className="font-medium text-gray-900">{entry.label}</div>
+                      <div className="font-mono text-xs text-gray-500">
+                        {entry.method} {entry.endpoint}
+                      </div>
+                      {entry.error && (
+                        <div className="mt-1 text-xs text-red-600">
+                          {entry.error.code}: {entry.error.message}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span className={cn('rounded px-2 py-0.5 text-xs font-medium', STATUS_STYLES[entry.status])}>
+                        {t(`status.${entry.status}`, { default: entry.status })}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-gray-600">{entry.attempts}</td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      {(entry.status === 'failed' || entry.status === 'conflict') && (
+                        <Button variant="ghost" size="sm" onClick={() => retry(entry.id)} disabled={state !== 'online'}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {t('retry', { default: 'Retry' })}
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDiscard(entry.id)}
+                        disabled={entry.status === 'sending'}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        {t('discard', { default: 'Discard' })}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * Security Page
+ * Two-factor authentication for the signed-in admin: set it up, replace the
+ * recovery codes or turn it off; and the passkeys that sign in without a password
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { AlertCircle, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useDisableMfa, useMfaStatus, useRegenerateRecoveryCodes } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError } from '@/lib/api';
+import { MfaEnrollment } from '@/components/security/mfa-enrollment';
+import { PasskeyList } from '@/components/security/passkey-list';
+import { RecoveryCodes } from '@/components/security/recovery-codes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+type MfaAction = 'enroll' | 'regenerate' | 'disable' | null;
+
+export default function SecurityPage() {
+  const t = useTranslations('security');
+  const errorMessage = useErrorMessage();
+  const { data: status, isLoading } = useMfaStatus();
+  const regenerate = useRegenerateRecoveryCodes();
+  const disable = useDisableMfa();
+
+  const [action, setAction] = useState<MfaAction>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+
+  const mutationError = regenerate.error || disable.error;
+
+  const openAction = (next: MfaAction) => {
+    setAction(next);
+    setCode('');
+    setPassword('');
+    regenerate.reset();
+    disable.reset();
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    regenerate.mutate({ code }, { onError: () => setCode('') });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    disable.mutate({ password, code }, { onSuccess: () => openAction(null), onError: () => setCode('') });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">{t('title', { default: 'Security' })}</h1>
+        <p className="mt-2 text-gray-600">
+          {t('description', { default: 'Protect your admin account with a second sign-in step' })}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t('mfa.title', { default: 'Two-factor authentication' })}</CardTitle>
+              <CardDescription className="mt-1">
+                {t('mfa.description', {
+                  default: 'After your password, sign-in asks for a code from an authenticator app on your phone.',
+                })}
+              </CardDescription>
+            </div>
+            {status &&
+              (status.enabled ? (
+                <span className="inline-flex items-center rounded bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                  <ShieldCheck className="mr-1 h-3 w-3" />
+                  {t('mfa.on', { default: 'On' })}
+                </span>
+              ) : (
+                <span className="inline-flex items-center rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                  <ShieldOff className="mr-1 h-3 w-3" />
+                  {t('mfa.off', { default: 'Off' })}
+                </span>
+              ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !status ? (
+            <div className="flex justify-center py-8">
+              <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-600" />
+            </div>
+          ) : !status.enabled ? (
+            action === 'enroll' ? (
+              <MfaEnrollment onCancel={() => openAction(null)} onComplete={() => openAction(null)} />
+            ) : (
+              <Button onClick={() => openAction('enroll')}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                {t('mfa.setUp', { default: 'Set up two-factor authentication' })}
+              </Button>
+            )
+          ) : regenerate.data ? (
+            <RecoveryCodes codes={regenerate.data.recoveryCodes} onDone={() => openAction(null)} />
+          ) : (
+            <div className="space-y-6">
+              <dl className="grid gap-4 text-sm sm:grid-cols-2">
+                {status.enrolledAt && (
+                  <div>
+                    <dt className="text-gray-500">{t('mfa.enrolledAt', { default: 'Enabled on' })}</dt>
+                    <dd className="font-medium text-gray-900">{new Date(status.enrolledAt).toLocaleDateString()}</dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-gray-500">{t('mfa.recoveryCodesLeft', { default: 'Recovery codes left' })}</dt>
+                  <dd className={status.recoveryCodesRemaining <= 2 ? 'font-medium text-red-600' : 'font-medium text-gray-900'}>
+                    {status.recoveryCodesRemaining}
+                  </dd>
+                </div>
+              </dl>
+
+              {mutationError && (
+                <Alert variant="destructive" className="border-red-200 bg-red-50">
+                  <AlertCircle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-700">{errorMessage(describeError(mutationError))}</AlertDescription>
+                </Alert>
+              )}
+
+              {action === 'regenerate' && (
+                <form onSubmit={handleRegenerate} className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-2">
+                    <label htmlFor="regenerateCode" className="text-sm font-medium text-gray-700">
+                      {t('mfa.currentCode', { default: 'Code from your authenticator app' })}
+                    </label>
+                    <Input
+                      id="regenerateCode"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                      className="w-40 text-center font-mono tracking-widest"
+                    />
+                  </div>
+                  <Button type="submit" disabled={code.length !== 6 || regenerate.isPending}>
+                    {regenerate.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {t('mfa.regenerate', { default: 'New recovery codes' })}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => openAction(null)}>
+                    {t('mfa.cancel', { default: 'Cancel' })}
+                  </Button>
+                </form>
+              )}
+
+              {action === 'disable' && (
+                <form onSubmit={handleDisable} className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    {t('mfa.disableWarning', {
+                      default: 'Without a second factor, your password alone gives access to this admin account.',
+                    })}
+                  </p>
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-2">
+                      <label htmlFor="disablePassword" className="text-sm font-medium text-gray-700">
+                        {t('mfa.password', { default: 'Password' })}
+                      </label>
+                      <Input
+                        id="disablePassword"
+                        type="password"
+                        autoComplete="current-password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="w-56"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="disableCode" className="text-sm font-medium text-gray-700">
+                        {t('mfa.codeOrRecovery', { default: 'Authentication or recovery code' })}
+                      </label>
+                      <Input
+                        id="disableCode"
+                        autoComplete="one-time-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        className="w-56 font-mono"
+                      />
+                    </div>
+                    <Button type="submit" variant="destructive" disabled={!password || !code.trim() || disable.isPending}>
+                      {disable.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {t('mfa.disable', { default: 'Turn off' })}
+                    </Button>
+                    <Button type="button" variant="ghost" onClick={() => openAction(null)}>
+                      {t('mfa.cancel', { default: 'Cancel' })}
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {action === null && (
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={() => openAction('regenerate')}>
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    {t('mfa.regenerate', { default: 'New recovery codes' })}
+                  </Button>
+                  <Button variant="outline" onClick={() => openAction('disable')}>
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    {t('mfa.disable', { default: 'Turn off' })}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('passkeys.title', { default: 'Passkeys' })}</CardTitle>
+          <CardDescription className="mt-1">
+            {t('passkeys.description', {
+              default: 'Sign in with your fingerprint, face or device PIN instead of a password and code.',
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PasskeyList />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Sessions Page
+ * Every device the signed-in admin is signed in on; others can be signed
+ * out one by one or all at once. A revoked device is signed out at its
+ * next request.
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { AlertCircle, LogOut } from 'lucide-react';
+import { useRevokeOtherSessions, useRevokeSession, useSessions } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError, UserSession } from '@/lib/api';
+import { SessionList } from '@/components/security/session-list';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export default function SessionsPage() {
+  const t = useTranslations('sessions');
+  const errorMessage = useErrorMessage();
+  const { data: sessions, isLoading, error } = useSessions();
+  const revoke = useRevokeSession();
+  const revokeOthers = useRevokeOtherSessions();
+
+  const otherCount = sessions?.filter((session) => !session.current).length ?? 0;
+  const shownError = error || revoke.error || revokeOthers.error;
+
+  const handleRevoke = (session: UserSession) => {
+    revokeOthers.reset();
+    revoke.mutate(session.id);
+  };
+
+  const handleRevokeOthers = () => {
+    if (window.confirm(t('confirmRevokeOthers', { default: 'Sign out of every other device?' }))) {
+      revoke.reset();
+      revokeOthers.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{t('title', { default: 'Sessions' })}</h1>
+          <p className="mt-2 text-gray-600">
+            {t('description', { default: 'Devices signed in to your admin account' })}
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRevokeOthers} disabled={otherCount === 0 || revokeOthers.isPending}>
+          <LogOut className="h-4 w-4 mr-2" />
+          {t('revokeOthers', { default: 'Sign out other devices' })}
+        </Button>
+      </div>
+
+      {shownError && (
+        <Alert variant="destructive" className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-700">{errorMessage(describeError(shownError))}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('active', { default: 'Active sessions' })}</CardTitle>
+          <CardDescription>
+            {t('activeDescription', {
+              default: "Don't recognize a device? Sign it out and change your password.",
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !sessions ? (
+            <div className="flex justify-center py-8">
+              <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-600" />
+            </div>
+          ) : (
+            <SessionList
+              sessions={sessions}
+              onRevoke={handleRevoke}
+              revokingId={revoke.isPending ? revoke.variables : undefined}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
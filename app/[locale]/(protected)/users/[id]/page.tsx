@@ -0,0 +1,97 @@
+/**
+ * User Detail Page
+ * Account facts for one user and an export of their orders; holders of
+ * MANAGE_USER_ROLES also see and revoke the user's sessions
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { AlertCircle } from 'lucide-react';
+import { useUser } from '@/hooks/queries';
+import { useAuth } from '@/hooks/use-auth';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError } from '@/lib/api';
+import { Permission, hasPermission } from '@/lib/rbac';
+import { UserSessions } from '@/components/security/user-sessions';
+import { ExportControl } from '@/components/export/export-control';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface UserDetailPageProps {
+  params: { id: string };
+}
+
+export default function UserDetailPage({ params }: UserDetailPageProps) {
+  const t = useTranslations('users');
+  const errorMessage = useErrorMessage();
+  const { user: currentUser } = useAuth();
+  const { data: user, isLoading, error } = useUser(params.id);
+
+  const canManageSessions = Boolean(currentUser && hasPermission(currentUser, Permission.MANAGE_USER_ROLES));
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="border-red-200 bg-red-50">
+        <AlertCircle className="h-4 w-4 text-red-600" />
+        <AlertDescription className="text-red-700">{errorMessage(describeError(error))}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isLoading || !user) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">{user.name}</h1>
+        <p className="mt-2 text-gray-600">{user.email}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('account', { default: 'Account' })}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-4 text-sm sm:grid-cols-2">
+            <div>
+              <dt className="text-gray-500">{t('roles', { default: 'Roles' })}</dt>
+              <dd className="font-medium text-gray-900">{user.roles.join(', ')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t('status', { default: 'Status' })}</dt>
+              <dd className={user.isActive ? 'font-medium text-green-700' : 'font-medium text-red-600'}>
+                {user.isActive ? t('active', { default: 'Active' }) : t('disabled', { default: 'Disabled' })}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t('createdAt', { default: 'Created' })}</dt>
+              <dd className="font-medium text-gray-900">{new Date(user.createdAt).toLocaleDateString()}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t('lastLoginAt', { default: 'Last sign-in' })}</dt>
+              <dd className="font-medium text-gray-900">
+                {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : t('never', { default: 'Never' })}
+              </dd>
+            </div>
+          </dl>
+        </CardContent>
+      </Card>
+
+      <ExportControl
+        resource="orders"
+        filters={{ userId: user.id }}
+        title={t('exportOrders', { default: 'Export orders' })}
+      />
+
+      {canManageSessions && <UserSessions userId={user.id} userName={user.name} />}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { NextIntlClientProvider } from 'next-intl';
 import { getMessages } from 'next-intl/server';
 import { notFound } from 'next/navigation';
 import { locales } from '@/i18n';
+import { QueryProvider } from '@/components/providers/query-provider';
+import { AuthSyncProvider } from '@/components/providers/auth-sync-provider';
 import '../globals.css';
 
 export function generateStaticParams() {
@@ -26,7 +28,9 @@ export default async function LocaleLayout({
     <html lang={locale}>
       <body>
         <NextIntlClientProvider messages={messages}>
-          {children}
+          <QueryProvider>
+            <AuthSyncProvider>{children}</AuthSyncProvider>
+          </QueryProvider>
         </NextIntlClientProvider>
       </body>
     </html>
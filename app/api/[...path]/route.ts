@@ -0,0 +1,26 @@
+/**
+ * BFF catch-all proxy: /api/* -> NEXT_PUBLIC_EXCHANGE_API_BASE_URL/*
+ * More specific route handlers under app/api take precedence over this one
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/bff';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { path: string[] };
+}
+
+function handler(request: NextRequest, { params }: RouteParams): Promise<Response> {
+  return proxyRequest(request, params.path);
+}
+
+export const GET = handler;
+export const POST = handler;
+export const PUT = handler;
+export const PATCH = handler;
+export const DELETE = handler;
+export const HEAD = handler;
+export const OPTIONS = handler;
@@ -0,0 +1,57 @@
+/**
+ * BFF login: authenticates against the exchange and keeps both tokens in
+ * HttpOnly cookies; the browser only receives the user payload. Accounts
+ * with two-factor authentication get the MFA challenge instead, which is
+ * completed at /api/auth/mfa/verify.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { LoginCredentials } from '@/lib/auth';
+import type { LoginResponse } from '@/lib/api/types';
+import { applyLoginCookies } from '@/lib/auth-server';
+import { callExchange, errorResponse, mapUpstreamError, transportErrorResponse } from '@/lib/bff';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let credentials: LoginCredentials;
+  try {
+    credentials = await request.json();
+  } catch {
+    return errorResponse(400, 'INVALID_REQUEST', 'Request body must be JSON');
+  }
+
+  const { remember = false, usernameOrEmail, password } = credentials;
+
+  let upstream: Response;
+  try {
+    upstream = await callExchange(request, 'POST', '/v1/auth/login', { usernameOrEmail, password });
+  } catch (error) {
+    return transportErrorResponse(error, request, '/v1/auth/login');
+  }
+
+  if (upstream.status >= 400) {
+    return mapUpstreamError(upstream);
+  }
+
+  let envelope: { data?: LoginResponse };
+  try {
+    envelope = await upstream.json();
+  } catch {
+    return errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned an invalid response');
+  }
+
+  const data = envelope?.data;
+  if (!data || typeof data !== 'object') {
+    return errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned no login data');
+  }
+  if ('mfaRequired' in data) {
+    // No session yet; the challenge token is useless without the second factor
+    return NextResponse.json(envelope);
+  }
+
+  return (
+    applyLoginCookies(request, { ...envelope, data }, remember) ??
+    errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned no access token')
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * BFF logout: tells the exchange (best effort) and clears the session cookies
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBackend, getTokenFromRequest, clearServerAuthCookie } from '@/lib/auth-server';
+import { callExchange } from '@/lib/bff';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  if (getTokenFromRequest(request)) {
+    try {
+      await callExchange(request, 'POST', '/v1/auth/logout');
+    } catch (error) {
+      // The cookies are cleared regardless; the token expires on its own
+      console.error('Exchange logout failed:', error);
+    }
+  }
+
+  const response = NextResponse.json({
+    success: true,
+    message: 'Logged out',
+    data: null,
+    timestamp: new Date().toISOString(),
+  });
+  clearServerAuthCookie(response, getRequestBackend(request).id);
+  return response;
+}
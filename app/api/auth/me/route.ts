@@ -0,0 +1,17 @@
+/**
+ * BFF current user: the exchange's /v1/auth/me with the cookie token
+ */
+
+import { NextRequest } from 'next/server';
+import { getTokenFromRequest } from '@/lib/auth-server';
+import { errorResponse, proxyRequest } from '@/lib/bff';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!getTokenFromRequest(request)) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Not signed in');
+  }
+
+  return proxyRequest(request, ['v1', 'auth', 'me']);
+}
@@ -0,0 +1,45 @@
+/**
+ * BFF passkey sign-in: forwards the signed WebAuthn assertion and, like
+ * login, keeps the resulting tokens in HttpOnly cookies
+ */
+
+import { NextRequest } from 'next/server';
+import type { LoginData, PasskeyLoginRequest } from '@/lib/api/types';
+import { applyLoginCookies } from '@/lib/auth-server';
+import { callExchange, errorResponse, mapUpstreamError, transportErrorResponse } from '@/lib/bff';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let payload: PasskeyLoginRequest;
+  try {
+    payload = await request.json();
+  } catch {
+    return errorResponse(400, 'INVALID_REQUEST', 'Request body must be JSON');
+  }
+
+  const { remember = false, credential } = payload;
+
+  let upstream: Response;
+  try {
+    upstream = await callExchange(request, 'POST', '/v1/auth/passkeys/login', { credential });
+  } catch (error) {
+    return transportErrorResponse(error, request, '/v1/auth/passkeys/login');
+  }
+
+  if (upstream.status >= 400) {
+    return mapUpstreamError(upstream);
+  }
+
+  let envelope: { data?: LoginData };
+  try {
+    envelope = await upstream.json();
+  } catch {
+    return errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned an invalid response');
+  }
+
+  return (
+    applyLoginCookies(request, envelope, remember) ??
+    errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned no access token')
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * BFF refresh: swaps the refresh token cookie for a new access token cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { RefreshTokenData } from '@/lib/api/types';
+import {
+  getRequestBackend,
+  getRefreshTokenFromRequest,
+  isRememberedRequest,
+  setServerAuthCookie,
+  setServerRefreshCookie,
+  clearServerAuthCookie,
+} from '@/lib/auth-server';
+import { callExchange, errorResponse, mapUpstreamError, transportErrorResponse } from '@/lib/bff';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const backendId = getRequestBackend(request).id;
+  const refreshToken = getRefreshTokenFromRequest(request);
+  if (!refreshToken) {
+    return errorResponse(401, 'NO_REFRESH_TOKEN', 'No session to refresh');
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await callExchange(request, 'POST', '/v1/auth/refresh', { refreshToken });
+  } catch (error) {
+    return transportErrorResponse(error, request, '/v1/auth/refresh');
+  }
+
+  if (upstream.status >= 400) {
+    const response = await mapUpstreamError(upstream);
+    // A rejected refresh token is dead; keep it from being replayed
+    if (upstream.status === 401 || upstream.status === 403) {
+      clearServerAuthCookie(response, backendId);
+    }
+    return response;
+  }
+
+  let envelope: { data?: RefreshTokenData };
+  try {
+    envelope = await upstream.json();
+  } catch {
+    return errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned an invalid response');
+  }
+
+  const data = envelope?.data;
+  if (!data?.token) {
+    return errorResponse(502, 'UPSTREAM_ERROR', 'Exchange API returned no access token');
+  }
+  const remember = isRememberedRequest(request);
+
+  const response = NextResponse.json({ ...envelope, data: { expiresIn: data.expiresIn } });
+  setServerAuthCookie(response, data.token, remember, backendId);
+  if (data.refreshToken) {
+    setServerRefreshCookie(response, data.refreshToken, remember, backendId);
+  }
+  return response;
+}
@@ -0,0 +1,139 @@
+/**
+ * Export Control
+ * Streams a resource's rows into a file with the page's filters, with
+ * progress and cancellation; the label shows the filter summary and the
+ * admin that the server writes into the export's preamble
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { AlertCircle, Check, Download, X } from 'lucide-react';
+import { ExportFilters, useStreamingExport } from '@/hooks/use-export';
+import { useAuth } from '@/hooks/use-auth';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError, describeFilters, ExportFormat, ExportResource } from '@/lib/api';
+import { Permission, hasPermission } from '@/lib/rbac';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface ExportControlProps<R extends ExportResource> {
+  resource: R;
+  filters: ExportFilters[R];
+  columns?: string[]; // defaults to every column of the resource
+  title: string;
+}
+
+export function ExportControl<R extends ExportResource>({ resource, filters, columns, title }: ExportControlProps<R>) {
+  const t = useTranslations('export');
+  const errorMessage = useErrorMessage();
+  const { user } = useAuth();
+  const { state, start, cancel, isRunning } = useStreamingExport();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  if (!user || !hasPermission(user, Permission.EXPORT_DATA)) {
+    return null;
+  }
+
+  const filterSummary = describeFilters(filters);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription className="mt-1">
+              {t('label', {
+                filters: filterSummary === 'none' ? t('noFilters', { default: 'none' }) : filterSummary,
+                admin: user.name,
+                default: 'Filters: {filters} · Exported by {admin}',
+              })}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={format}
+              onChange={(event) => setFormat(event.target.value as ExportFormat)}
+              disabled={isRunning}
+              aria-label={t('format', { default: 'Format' })}
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+            >
+              <option value="csv">CSV</option>
+              <option value="ndjson">NDJSON</option>
+            </select>
+            {isRunning ? (
+              <Button variant="outline" onClick={cancel}>
+                <X className="h-4 w-4 mr-2" />
+                {t('cancel', { default: 'Cancel' })}
+              </Button>
+            ) : (
+              // start() opens the save dialog, so it has to run in the click handler
+              <Button onClick={() => start(resource, { format, columns, filters })}>
+                <Download className="h-4 w-4 mr-2" />
+                {t('start', { default: 'Export' })}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      {state.status !== 'idle' && (
+        <CardContent>
+          {state.status === 'running' && (
+            <div className="space-y-2">
+              <div
+                className="h-2 overflow-hidden rounded-full bg-gray-200"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={state.progress.percent}
+              >
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  // Without a total the bar stays full width and only the row count moves
+                  style={{ width: `${state.progress.percent ?? 100}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600" aria-live="polite">
+                {state.progress.totalRows !== undefined
+                  ? t('progressOf', {
+                      rows: state.progress.rows,
+                      total: state.progress.totalRows,
+                      default: '{rows} of {total} rows',
+                    })
+                  : t('progress', { rows: state.progress.rows, default: '{rows} rows' })}
+                {' · '}
+                {state.fileName}
+              </p>
+            </div>
+          )}
+
+          {state.status === 'done' && (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <Check className="h-4 w-4" />
+              {t('done', {
+                rows: state.result.rows,
+                fileName: state.result.fileName,
+                default: 'Saved {rows} rows to {fileName}',
+              })}
+            </p>
+          )}
+
+          {state.status === 'cancelled' && (
+            <p className="text-sm text-gray-600">{t('cancelled', { default: 'Export cancelled' })}</p>
+          )}
+
+          {state.status === 'error' && (
+            <Alert variant="destructive" className="border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-700">{errorMessage(describeError(state.error))}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Backend Switcher
+ * Environment badge and menu for the exchange backend being operated;
+ * the badge stays visible so production is never mistaken for staging
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Check, ChevronDown, Server } from 'lucide-react';
+import { useBackend } from '@/hooks/use-backend';
+import type { BackendConfig, BackendEnvironment } from '@/lib/backends';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const ENVIRONMENT_STYLES: Record<BackendEnvironment, string> = {
+  production: 'bg-red-600 text-white',
+  staging: 'bg-amber-400 text-amber-950',
+  sandbox: 'bg-blue-600 text-white',
+  development: 'bg-gray-200 text-gray-800',
+};
+
+interface BackendBadgeProps {
+  backend: BackendConfig;
+  className?: string;
+}
+
+export function BackendBadge({ backend, className }: BackendBadgeProps) {
+  const t = useTranslations('backend');
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs font-semibold uppercase tracking-wide',
+        ENVIRONMENT_STYLES[backend.environment],
+        className
+      )}
+      title={backend.baseUrl}
+    >
+      {t(`environments.${backend.environment}`, { default: backend.environment })}
+      {backend.name.toLowerCase() !== backend.environment && (
+        <span className="font-normal normal-case">· {backend.name}</span>
+      )}
+    </span>
+  );
+}
+
+interface BackendSwitcherProps {
+  className?: string;
+}
+
+export function BackendSwitcher({ className }: BackendSwitcherProps) {
+  const t = useTranslations('backend');
+  const { backend, backends, isMultiBackend, switchBackend } = useBackend();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (!isMultiBackend) {
+    return <BackendBadge backend={backend} className={className} />;
+  }
+
+  const handleSelect = (target: BackendConfig) => {
+    setIsOpen(false);
+    if (target.id === backend.id) return;
+    if (
+      target.environment === 'production' &&
+      !window.confirm(
+        t('confirmProduction', {
+          name: target.name,
+          default: `Switch to ${target.name}? This is a production environment.`,
+        })
+      )
+    ) {
+      return;
+    }
+    switchBackend(target.id);
+  };
+
+  return (
+    <div className={cn('relative', className)} ref={menuRef}>
+      <Button variant="ghost" size="sm" className="px-2" onClick={() => setIsOpen(!isOpen)}>
+        <BackendBadge backend={backend} />
+        <ChevronDown className="h-3 w-3 ml-1" />
+        <span className="sr-only">{t('switch', { default: 'Switch backend' })}</span>
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 bg-white rounded-md shadow-lg py-1 z-10 border">
+          <p className="px-4 py-2 text-xs font-medium uppercase text-gray-500">
+            {t('title', { default: 'Exchange backend' })}
+          </p>
+          {backends.map((item) => (
+            <button
+              key={item.id}
+              className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+              onClick={() => handleSelect(item)}
+            >
+              <Server className="h-4 w-4 text-gray-400" />
+              <span className="flex-1">
+                <span className="block font-medium text-gray-900">{item.name}</span>
+                <span className="block truncate text-xs text-gray-500">{item.baseUrl}</span>
+              </span>
+              <span className={cn('h-2 w-2 rounded-full', ENVIRONMENT_STYLES[item.environment])} />
+              {item.id === backend.id && <Check className="h-4 w-4 text-blue-600" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { useRouter } from 'next/navigation';
 import { useLocale } from 'next-intl';
 import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
+import { BackendSwitcher } from '@/components/layout/backend-switcher';
 import {
   Bell,
   Settings,
@@ -25,6 +26,7 @@ import {
   FileText,
   Globe,
   ChevronDown,
+  MonitorSmartphone,
 } from 'lucide-react';
 
 interface NavbarProps {
@@ -126,6 +128,8 @@ export function Navbar({ onMenuToggle }: NavbarProps) {
               <h1 className="text-xl font-semibold text-gray-900 hidden sm:block">
                 Mini Exchange Admin
               </h1>
+              {/* Environment badge and backend switcher */}
+              <BackendSwitcher className="ml-3" />
             </div>
 
             {/* Desktop Navigation */}
@@ -246,6 +250,16 @@ export function Navbar({ onMenuToggle }: NavbarProps) {
                     <Shield className="h-4 w-4 mr-2" />
                     {t('nav.security', { default: 'Security' })}
                   </button>
+                  <button
+                    className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    onClick={() => {
+                      router.push(`/${locale}/sessions`);
+                      setIsUserMenuOpen(false);
+                    }}
+                  >
+                    <MonitorSmartphone className="h-4 w-4 mr-2" />
+                    {t('nav.sessions', { default: 'Sessions' })}
+                  </button>
                   <div className="border-t">
                     <button
                       className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -0,0 +1,14 @@
+/**
+ * Cross-tab authentication provider
+ * Keeps every tab's session in step with the others (see useAuthSync)
+ */
+
+'use client';
+
+import { useAuthSync } from '@/hooks/use-auth-sync';
+
+export function AuthSyncProvider({ children }: { children: React.ReactNode }) {
+  useAuthSync();
+
+  return <>{children}</>;
+}
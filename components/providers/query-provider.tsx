@@ -0,0 +1,30 @@
+/**
+ * TanStack Query provider
+ * One QueryClient per browser session (and per request on the server)
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+function createQueryClient(): QueryClient {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: 30 * 1000,
+        // ApiClient already retries transient failures with backoff
+        retry: false,
+      },
+      mutations: {
+        retry: false,
+      },
+    },
+  });
+}
+
+export function QueryProvider({ children }: { children: React.ReactNode }) {
+  const [queryClient] = useState(createQueryClient);
+
+  return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+}
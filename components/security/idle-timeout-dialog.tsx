@@ -0,0 +1,93 @@
+/**
+ * Idle Timeout Dialog
+ * Warns an inactive admin shortly before the session timeout signs them
+ * out; staying signed in refreshes the access token
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Clock, Loader2 } from 'lucide-react';
+import { useSessionSettings } from '@/hooks/queries';
+import { useAuth } from '@/hooks/use-auth';
+import { useIdleTimeout } from '@/hooks/use-idle-timeout';
+import { refreshSession } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Warn this long before the timeout, or halfway for very short timeouts
+const MAX_WARNING_TIME = 60000;
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function IdleTimeoutDialog() {
+  const t = useTranslations('idle');
+  const { isAuthenticated, logout } = useAuth();
+  const [staying, setStaying] = useState(false);
+
+  // Read through the session settings every role may read, so nobody is exempt
+  const { data: settings } = useSessionSettings({ enabled: isAuthenticated });
+
+  const timeout = settings?.sessionTimeout ? settings.sessionTimeout * 60000 : null;
+  const warningTime = timeout === null ? 0 : Math.min(MAX_WARNING_TIME, timeout / 2);
+
+  // No hard reload: the protected layout sends the admin to login with a way back
+  const signOut = useCallback(() => logout({ redirect: false }), [logout]);
+
+  const { warning, remaining, reset } = useIdleTimeout({ timeout, warningTime, onTimeout: signOut });
+
+  const handleStay = async () => {
+    setStaying(true);
+    try {
+      // A rejected refresh ends the session through the expiry handler
+      if (await refreshSession()) {
+        reset();
+      }
+    } finally {
+      setStaying(false);
+    }
+  };
+
+  return (
+    <Dialog open={warning}>
+      <DialogContent
+        hideClose
+        onEscapeKeyDown={(event) => event.preventDefault()}
+        onPointerDownOutside={(event) => event.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-amber-500" />
+            {t('title', { default: 'Are you still there?' })}
+          </DialogTitle>
+          <DialogDescription>
+            {t('description', {
+              time: formatCountdown(remaining ?? 0),
+              default: `You'll be signed out for inactivity in ${formatCountdown(remaining ?? 0)}.`,
+            })}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={signOut}>
+            {t('signOut', { default: 'Sign out' })}
+          </Button>
+          <Button onClick={handleStay} disabled={staying}>
+            {staying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('stay', { default: 'Stay signed in' })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
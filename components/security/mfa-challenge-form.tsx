@@ -0,0 +1,143 @@
+/**
+ * MFA Challenge Form
+ * Second login step for accounts with two-factor authentication: a code from
+ * the authenticator app, or one of the recovery codes
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { AlertCircle, KeyRound, Loader2, Smartphone } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import type { MfaMethod } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface MfaChallengeFormProps {
+  onSuccess: () => void;
+}
+
+export function MfaChallengeForm({ onSuccess }: MfaChallengeFormProps) {
+  const t = useTranslations('auth.mfa');
+  const { verifyMfa, cancelMfa, mfaChallenge, isLoading, error, clearError } = useAuth();
+  const errorMessage = useErrorMessage();
+  const [method, setMethod] = useState<MfaMethod>('totp');
+  const [code, setCode] = useState('');
+
+  const canUseRecovery = mfaChallenge?.methods.includes('recovery_code') ?? false;
+  const canSubmit = (method === 'totp' ? /^\d{6}$/.test(code) : code.trim().length > 0) && !isLoading;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const result = await verifyMfa(code.trim(), method);
+    if (result.success) {
+      onSuccess();
+    } else {
+      setCode('');
+    }
+  };
+
+  const switchMethod = () => {
+    setMethod(method === 'totp' ? 'recovery_code' : 'totp');
+    setCode('');
+    clearError();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-sm text-gray-600">
+        {method === 'totp'
+          ? t('description', { default: 'Enter the 6-digit code from your authenticator app.' })
+          : t('recoveryDescription', { default: 'Enter one of the recovery codes you saved when setting up two-factor authentication.' })}
+      </p>
+
+      {error && (
+        <Alert variant="destructive" className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-700">{errorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="mfaCode" className="text-sm font-medium text-gray-700">
+          {method === 'totp'
+            ? t('code', { default: 'Authentication code' })
+            : t('recoveryCode', { default: 'Recovery code' })}
+        </label>
+        {method === 'totp' ? (
+          <Input
+            id="mfaCode"
+            name="mfaCode"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="[0-9]*"
+            maxLength={6}
+            placeholder="123456"
+            autoFocus
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.replace(/\D/g, ''));
+              clearError();
+            }}
+            className="text-center font-mono text-lg tracking-widest"
+          />
+        ) : (
+          <Input
+            id="mfaCode"
+            name="mfaCode"
+            autoComplete="off"
+            placeholder="xxxx-xxxx"
+            autoFocus
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              clearError();
+            }}
+            className="font-mono"
+          />
+        )}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={!canSubmit}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {t('verifying', { default: 'Verifying...' })}
+          </>
+        ) : (
+          t('verify', { default: 'Verify' })
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button type="button" className="font-medium text-gray-600 hover:text-gray-900" onClick={cancelMfa}>
+          {t('back', { default: 'Back to sign in' })}
+        </button>
+        {canUseRecovery && (
+          <button
+            type="button"
+            className="inline-flex items-center font-medium text-primary hover:text-primary/80"
+            onClick={switchMethod}
+          >
+            {method === 'totp' ? (
+              <>
+                <KeyRound className="mr-1 h-4 w-4" />
+                {t('useRecoveryCode', { default: 'Use a recovery code' })}
+              </>
+            ) : (
+              <>
+                <Smartphone className="mr-1 h-4 w-4" />
+                {t('useAuthenticator', { default: 'Use your authenticator app' })}
+              </>
+            )}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * MFA Enrollment
+ * Sets up TOTP: shows the QR code and secret of a new enrollment, confirms
+ * it with a first code and hands out the recovery codes
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useConfirmMfaEnrollment, useStartMfaEnrollment } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { TotpQrCode } from './totp-qr-code';
+import { RecoveryCodes } from './recovery-codes';
+
+interface MfaEnrollmentProps {
+  onCancel: () => void;
+  onComplete: () => void;
+}
+
+// ABCD EFGH ... is easier to type into an app than one long string
+function groupSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+export function MfaEnrollment({ onCancel, onComplete }: MfaEnrollmentProps) {
+  const t = useTranslations('security.mfa');
+  const errorMessage = useErrorMessage();
+  const start = useStartMfaEnrollment();
+  const confirm = useConfirmMfaEnrollment();
+  const [code, setCode] = useState('');
+
+  if (confirm.data) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm font-medium text-green-700">
+          {t('enabled', { default: 'Two-factor authentication is on.' })}
+        </p>
+        <RecoveryCodes codes={confirm.data.recoveryCodes} onDone={onComplete} />
+      </div>
+    );
+  }
+
+  if (!start.data) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {t('intro', {
+            default: 'You will need an authenticator app such as Google Authenticator, 1Password or Authy on your phone.',
+          })}
+        </p>
+        {start.error && (
+          <Alert variant="destructive" className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-700">{errorMessage(describeError(start.error))}</AlertDescription>
+          </Alert>
+        )}
+        <div className="flex gap-2">
+          <Button onClick={() => start.mutate()} disabled={start.isPending}>
+            {start.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('begin', { default: 'Begin setup' })}
+          </Button>
+          <Button variant="ghost" onClick={onCancel}>
+            {t('cancel', { default: 'Cancel' })}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{6}$/.test(code) || confirm.isPending) return;
+    confirm.mutate({ code }, { onError: () => setCode('') });
+  };
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-6">
+      <div className="flex flex-col gap-6 sm:flex-row">
+        <TotpQrCode value={start.data.otpauthUrl} className="shrink-0" />
+        <div className="space-y-3 text-sm text-gray-600">
+          <p>{t('scan', { default: '1. Scan the QR code with your authenticator app.' })}</p>
+          <p>{t('manual', { default: "Can't scan it? Enter this key instead:" })}</p>
+          <code className="block break-all rounded bg-gray-100 px-3 py-2 font-mono text-sm text-gray-900">
+            {groupSecret(start.data.secret)}
+          </code>
+          <p>{t('enterCode', { default: '2. Enter the 6-digit code the app shows.' })}</p>
+        </div>
+      </div>
+
+      {confirm.error && (
+        <Alert variant="destructive" className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-700">{errorMessage(describeError(confirm.error))}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-2">
+          <label htmlFor="enrollCode" className="text-sm font-medium text-gray-700">
+            {t('code', { default: 'Authentication code' })}
+          </label>
+          <Input
+            id="enrollCode"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className="w-40 text-center font-mono tracking-widest"
+          />
+        </div>
+        <Button type="submit" disabled={!/^\d{6}$/.test(code) || confirm.isPending}>
+          {confirm.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('confirm', { default: 'Turn on' })}
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          {t('cancel', { default: 'Cancel' })}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Passkey List
+ * The signed-in admin's passkeys with when they were last used; adds a new
+ * one on this device and revokes lost ones
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { AlertCircle, Fingerprint, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useDeletePasskey, usePasskeys, useRegisterPasskey } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError } from '@/lib/api';
+import { isPasskeySupported } from '@/lib/webauthn';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+export function PasskeyList() {
+  const t = useTranslations('security.passkeys');
+  const errorMessage = useErrorMessage();
+  const { data: passkeys, isLoading } = usePasskeys();
+  const register = useRegisterPasskey();
+  const remove = useDeletePasskey();
+
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+
+  const mutationError = register.error || remove.error;
+
+  const openAdd = (open: boolean) => {
+    setAdding(open);
+    setName('');
+    register.reset();
+    remove.reset();
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || register.isPending) return;
+    register.mutate(name.trim(), { onSuccess: () => openAdd(false) });
+  };
+
+  const handleRevoke = (id: string, passkeyName: string) => {
+    if (window.confirm(t('confirmRevoke', { name: passkeyName, default: `Revoke "${passkeyName}"? It will no longer sign you in.` }))) {
+      register.reset();
+      remove.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {passkeys && passkeys.length > 0 ? (
+        <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="flex items-center gap-3">
+                <Fingerprint className="h-5 w-5 shrink-0 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{passkey.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {t('createdAt', { date: formatDate(passkey.createdAt), default: `Added ${formatDate(passkey.createdAt)}` })}
+                    {' · '}
+                    {passkey.lastUsedAt
+                      ? t('lastUsedAt', { date: formatDate(passkey.lastUsedAt), default: `Last used ${formatDate(passkey.lastUsedAt)}` })
+                      : t('neverUsed', { default: 'Never used' })}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                disabled={remove.isPending && remove.variables === passkey.id}
+                onClick={() => handleRevoke(passkey.id, passkey.name)}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                {t('revoke', { default: 'Revoke' })}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">{t('empty', { default: 'You have not added a passkey yet.' })}</p>
+      )}
+
+      {mutationError && (
+        <Alert variant="destructive" className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-700">{errorMessage(describeError(mutationError))}</AlertDescription>
+        </Alert>
+      )}
+
+      {!isPasskeySupported() ? (
+        <p className="text-sm text-gray-500">
+          {t('unsupported', { default: 'This browser cannot create passkeys.' })}
+        </p>
+      ) : adding ? (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+          <div className="space-y-2">
+            <label htmlFor="passkeyName" className="text-sm font-medium text-gray-700">
+              {t('name', { default: 'Name' })}
+            </label>
+            <Input
+              id="passkeyName"
+              maxLength={64}
+              placeholder={t('namePlaceholder', { default: 'e.g. Work laptop' })}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-56"
+            />
+          </div>
+          <Button type="submit" disabled={!name.trim() || register.isPending}>
+            {register.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('create', { default: 'Create passkey' })}
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => openAdd(false)}>
+            {t('cancel', { default: 'Cancel' })}
+          </Button>
+        </form>
+      ) : (
+        <Button variant="outline" onClick={() => openAdd(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('add', { default: 'Add a passkey' })}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Password Strength Meter
+ * Live strength bar and the password policy's rules, ticked off as the
+ * new password meets them
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Check, X } from 'lucide-react';
+import type { PasswordPolicy } from '@/lib/api';
+import { checkPassword, passwordStrength } from '@/lib/password';
+import { cn } from '@/lib/utils';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+}
+
+const LEVELS = [
+  { key: 'veryWeak', label: 'Very weak', color: 'bg-red-500' },
+  { key: 'weak', label: 'Weak', color: 'bg-orange-500' },
+  { key: 'fair', label: 'Fair', color: 'bg-yellow-500' },
+  { key: 'good', label: 'Good', color: 'bg-lime-500' },
+  { key: 'strong', label: 'Strong', color: 'bg-green-600' },
+] as const;
+
+export function PasswordStrengthMeter({ password, policy }: PasswordStrengthMeterProps) {
+  const t = useTranslations('password');
+  const strength = passwordStrength(password);
+  const level = LEVELS[strength];
+  const levelLabel = t(`strength.${level.key}`, { default: level.label });
+
+  const ruleLabels = {
+    minLength: t('rules.minLength', { count: policy.minLength, default: `At least ${policy.minLength} characters` }),
+    uppercase: t('rules.uppercase', { default: 'An uppercase letter' }),
+    lowercase: t('rules.lowercase', { default: 'A lowercase letter' }),
+    numbers: t('rules.numbers', { default: 'A number' }),
+    specialChars: t('rules.specialChars', { default: 'A special character' }),
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex gap-1" aria-hidden>
+          {LEVELS.slice(1).map((item, index) => (
+            <span
+              key={item.key}
+              className={cn('h-1.5 flex-1 rounded-full', password && index < strength ? level.color : 'bg-gray-200')}
+            />
+          ))}
+        </div>
+        {password && (
+          <p className="text-xs text-gray-600" aria-live="polite">
+            {t('strength.label', { level: levelLabel, default: `Strength: ${levelLabel}` })}
+          </p>
+        )}
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {checkPassword(password, policy).map(({ rule, met }) => (
+          <li key={rule} className={cn('flex items-center gap-2', met ? 'text-green-700' : 'text-gray-500')}>
+            {met ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+            {ruleLabels[rule]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Recovery Codes
+ * Freshly issued recovery codes with copy and download; the server will not
+ * show them again
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Check, Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone?: () => void;
+}
+
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const t = useTranslations('security.recoveryCodes');
+  const [copied, setCopied] = useState(false);
+
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert className="border-yellow-200 bg-yellow-50">
+        <AlertDescription className="text-yellow-800">
+          {t('warning', {
+            default: 'Save these codes somewhere safe. Each one signs you in once if you lose your authenticator; they will not be shown again.',
+          })}
+        </AlertDescription>
+      </Alert>
+
+      <ul className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-4 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+          {copied ? t('copied', { default: 'Copied' }) : t('copy', { default: 'Copy' })}
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          {t('download', { default: 'Download' })}
+        </Button>
+        {onDone && (
+          <Button size="sm" className="ml-auto" onClick={onDone}>
+            {t('done', { default: "I've saved them" })}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Session List
+ * Signed-in devices with where and when they were used; the current device
+ * is marked and cannot be revoked from here (signing out ends it)
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Loader2, Monitor, Smartphone } from 'lucide-react';
+import type { UserSession } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+
+interface SessionListProps {
+  sessions: UserSession[];
+  onRevoke: (session: UserSession) => void;
+  revokingId?: string;
+}
+
+function isMobile(session: UserSession): boolean {
+  return /iPhone|iPad|Android/.test(session.userAgent);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+export function SessionList({ sessions, onRevoke, revokingId }: SessionListProps) {
+  const t = useTranslations('sessions');
+
+  if (sessions.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">{t('empty', { default: 'No active sessions' })}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+      {sessions.map((session) => {
+        const Icon = isMobile(session) ? Smartphone : Monitor;
+
+        return (
+          <li key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="flex min-w-0 items-center gap-3">
+              <Icon className="h-5 w-5 shrink-0 text-gray-400" />
+              <div className="min-w-0">
+                <p className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                  <span className="truncate" title={session.userAgent}>
+                    {session.device}
+                  </span>
+                  {session.current && (
+                    <span className="rounded bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                      {t('current', { default: 'This device' })}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.ipAddress}
+                  {' · '}
+                  {session.location || t('unknownLocation', { default: 'Unknown location' })}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {t('createdAt', { date: formatDate(session.createdAt), default: `Signed in ${formatDate(session.createdAt)}` })}
+                  {' · '}
+                  {t('lastSeenAt', { date: formatDate(session.lastSeenAt), default: `Last seen ${formatDate(session.lastSeenAt)}` })}
+                </p>
+              </div>
+            </div>
+            {!session.current && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="shrink-0 text-red-600 hover:bg-red-50 hover:text-red-700"
+                disabled={revokingId === session.id}
+                onClick={() => onRevoke(session)}
+              >
+                {revokingId === session.id && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                {t('revoke', { default: 'Sign out' })}
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
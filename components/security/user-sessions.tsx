@@ -0,0 +1,84 @@
+/**
+ * User Sessions
+ * Another admin's signed-in devices, for holders of MANAGE_USER_ROLES;
+ * used on the user detail page to sign out a lost or compromised device
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { AlertCircle, LogOut } from 'lucide-react';
+import { useRevokeUserSession, useRevokeUserSessions, useUserSessions } from '@/hooks/queries';
+import { useErrorMessage } from '@/hooks/use-error-message';
+import { describeError, UserSession } from '@/lib/api';
+import { SessionList } from './session-list';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface UserSessionsProps {
+  userId: string;
+  userName: string;
+}
+
+export function UserSessions({ userId, userName }: UserSessionsProps) {
+  const t = useTranslations('sessions');
+  const errorMessage = useErrorMessage();
+  const { data: sessions, isLoading, error } = useUserSessions(userId);
+  const revoke = useRevokeUserSession();
+  const revokeAll = useRevokeUserSessions();
+
+  const revocable = sessions?.filter((session) => !session.current).length ?? 0;
+  const shownError = error || revoke.error || revokeAll.error;
+
+  const handleRevoke = (session: UserSession) => {
+    revokeAll.reset();
+    revoke.mutate({ userId, sessionId: session.id });
+  };
+
+  const handleRevokeAll = () => {
+    if (window.confirm(t('confirmRevokeAll', { name: userName, default: `Sign ${userName} out of every device?` }))) {
+      revoke.reset();
+      revokeAll.mutate(userId);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>{t('title', { default: 'Sessions' })}</CardTitle>
+            <CardDescription className="mt-1">
+              {t('userDescription', { default: 'Devices this admin is signed in on' })}
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleRevokeAll} disabled={revocable === 0 || revokeAll.isPending}>
+            <LogOut className="h-4 w-4 mr-2" />
+            {t('revokeAll', { default: 'Sign out everywhere' })}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shownError && (
+          <Alert variant="destructive" className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-700">{errorMessage(describeError(shownError))}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading || !sessions ? (
+          <div className="flex justify-center py-8">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-600" />
+          </div>
+        ) : (
+          <SessionList
+            sessions={sessions}
+            onRevoke={handleRevoke}
+            revokingId={revoke.isPending ? revoke.variables?.sessionId : undefined}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
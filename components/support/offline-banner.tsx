@@ -0,0 +1,53 @@
+/**
+ * Offline Banner
+ * Tells the user when the exchange cannot be reached and how many actions
+ * wait in the outbox; hidden while online with an empty outbox
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useNetworkStatus, useOutbox } from '@/hooks/use-outbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface OfflineBannerProps {
+  className?: string;
+}
+
+export function OfflineBanner({ className }: OfflineBannerProps) {
+  const t = useTranslations('offline');
+  const locale = useLocale();
+  const state = useNetworkStatus();
+  const { pending, failed, conflicted } = useOutbox();
+
+  const needsAttention = failed + conflicted;
+  if (state === 'online' && pending === 0 && needsAttention === 0) {
+    return null;
+  }
+
+  const message =
+    state === 'offline'
+      ? t('offline', { default: 'You are offline. Changes are saved and sent when you reconnect.' })
+      : state === 'unreachable'
+        ? t('unreachable', { default: 'The exchange cannot be reached. Changes are saved and sent once it is back.' })
+        : pending > 0
+          ? t('syncing', { count: pending, default: 'Sending {count} saved changes…' })
+          : t('attention', { count: needsAttention, default: '{count} saved changes could not be applied.' });
+
+  return (
+    <Alert variant={state === 'online' && needsAttention === 0 ? 'default' : 'warning'} className={className}>
+      {state === 'online' ? <RefreshCw className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          {message}
+          {state !== 'online' && pending > 0 && ` ${t('queued', { count: pending, default: '{count} queued.' })}`}
+        </span>
+        <Link href={`/${locale}/outbox`} className="font-medium underline underline-offset-4">
+          {t('viewOutbox', { default: 'View outbox' })}
+        </Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
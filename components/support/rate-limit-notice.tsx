@@ -0,0 +1,36 @@
+/**
+ * Rate Limit Notice
+ * Tells the user requests are paused by the server's rate limit and when
+ * they resume; hidden while the quota is available
+ */
+
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Clock } from 'lucide-react';
+import { useRateLimit } from '@/hooks/use-rate-limit';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface RateLimitNoticeProps {
+  endpoint?: string; // follow one endpoint's bucket instead of any limited bucket
+  className?: string;
+}
+
+export function RateLimitNotice({ endpoint, className }: RateLimitNoticeProps) {
+  const t = useTranslations('rateLimit');
+  const { isLimited, retryIn, waiting } = useRateLimit(endpoint);
+
+  if (!isLimited) {
+    return null;
+  }
+
+  return (
+    <Alert variant="warning" className={className}>
+      <Clock className="h-4 w-4" />
+      <AlertDescription>
+        {t('resuming', { seconds: retryIn, default: 'Rate limited, resuming in {seconds}s' })}
+        {waiting > 0 && ` · ${t('queued', { count: waiting, default: '{count} queued' })}`}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Request Inspector Panel
+ * Lists recent API calls with their correlation ids so support can match a
+ * reported failure to backend logs; requires the view_logs permission
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { Bug, Copy, Check, Trash2, X } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, Permission } from '@/lib/rbac';
+import { requestInspector, buildBugReport, RequestRecord } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+export function RequestInspector() {
+  const t = useTranslations('inspector');
+  const locale = useLocale();
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [records, setRecords] = useState<RequestRecord[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const canInspect = Boolean(user && hasPermission(user, Permission.VIEW_LOGS));
+
+  useEffect(() => {
+    if (!canInspect || !isOpen) return;
+
+    setRecords(requestInspector.list());
+    return requestInspector.subscribe(setRecords);
+  }, [canInspect, isOpen]);
+
+  if (!canInspect || !user) {
+    return null;
+  }
+
+  const handleCopy = async () => {
+    const report = buildBugReport(records, { userId: user.id, roles: user.roles, locale });
+
+    try {
+      await navigator.clipboard.writeText(report);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy bug report error:', error);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="fixed bottom-4 right-4 z-50 shadow-md"
+        onClick={() => setIsOpen(true)}
+      >
+        <Bug className="h-4 w-4 mr-2" />
+        {t('open', { default: 'Requests' })}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex max-h-[70vh] w-[min(56rem,calc(100vw-2rem))] flex-col rounded-lg border bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">{t('title', { default: 'Recent requests' })}</h2>
+          <p className="text-xs text-gray-500">
+            {t('description', { default: 'Quote the request id when reporting a problem' })}
+          </p>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={handleCopy} disabled={records.length === 0}>
+            {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+            {copied ? t('copied', { default: 'Copied' }) : t('copyReport', { default: 'Copy bug report' })}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => requestInspector.clear()}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">{t('clear', { default: 'Clear' })}</span>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">{t('close', { default: 'Close' })}</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-auto">
+        {records.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">
+            {t('empty', { default: 'No requests recorded yet' })}
+          </p>
+        ) : (
+          <table className="w-full text-left text-xs">
+            <thead className="sticky top-0 bg-gray-50 text-gray-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">{t('columns.time', { default: 'Time' })}</th>
+                <th className="px-3 py-2 font-medium">{t('columns.request', { default: 'Request' })}</th>
+                <th className="px-3 py-2 font-medium">{t('columns.status', { default: 'Status' })}</th>
+                <th className="px-3 py-2 font-medium text-right">{t('columns.duration', { default: 'ms' })}</th>
+                <th className="px-3 py-2 font-medium">{t('columns.requestId', { default: 'Request id' })}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {records.map((record) => (
+                <tr key={record.requestId} className={cn(record.status === 'error' && 'bg-red-50')}>
+                  <td className="whitespace-nowrap px-3 py-1.5 text-gray-500">
+                    {new Date(record.startedAt).toLocaleTimeString(locale)}
+                  </td>
+                  <td className="px-3 py-1.5 font-mono">
+                    <span className="font-semibold">{record.method}</span> {record.endpoint}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-1.5">
+                    {record.httpStatus ?? '—'}
+                    {record.errorCode && <span className="ml-1 text-red-600">{record.errorCode}</span>}
+                    {record.replayed && (
+                      <span
+                        className="ml-1 rounded bg-amber-100 px-1 text-amber-800"
+                        title={t('replayedHint', { default: 'Already applied; the server answered from its idempotency cache' })}
+                      >
+                        {t('replayed', { default: 'replayed' })}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{record.durationMs}</td>
+                  <td className="select-all px-3 py-1.5 font-mono text-gray-600">
+                    {record.upstreamRequestId || record.requestId}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * Query hooks for API.auth
+ * Login and logout go through the auth store, which owns the session;
+ * these wrappers add the cache handling around it
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API } from '@/lib/api';
+import type {
+  ChangePasswordRequest,
+  DisableMfaRequest,
+  ForgotPasswordRequest,
+  MfaCodeRequest,
+  MfaStatus,
+  Passkey,
+  PasswordPolicy,
+  RefreshTokenRequest,
+  ResetPasswordRequest,
+  SessionSettings,
+  TokenVerification,
+  User,
+  UserSession,
+} from '@/lib/api';
+import { useAuthStore } from '@/hooks/use-auth';
+import { createPasskeyCredential } from '@/lib/webauthn';
+import { queryKeys } from './keys';
+import { unwrap, QueryConfig } from './utils';
+
+export function useCurrentUser(options?: QueryConfig<User>) {
+  return useQuery({
+    queryKey: queryKeys.auth.me(),
+    queryFn: async () => unwrap(await API.auth.getCurrentUser()),
+    ...options,
+  });
+}
+
+export function useVerifyToken(options?: QueryConfig<TokenVerification>) {
+  return useQuery({
+    queryKey: queryKeys.auth.verify(),
+    queryFn: async () => unwrap(await API.auth.verifyToken()),
+    ...options,
+  });
+}
+
+/**
+ * Log in through the auth store; cached data of a previous session is dropped
+ */
+export function useLogin() {
+  const queryClient = useQueryClient();
+  const login = useAuthStore((state) => state.login);
+
+  return useMutation({
+    mutationFn: async ({
+      usernameOrEmail,
+      password,
+      remember,
+    }: {
+      usernameOrEmail: string;
+      password: string;
+      remember?: boolean;
+    }) => {
+      const result = await login(usernameOrEmail, password, remember);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result;
+    },
+    onSuccess: () => queryClient.clear(),
+  });
+}
+
+/**
+ * Log out through the auth store and forget everything cached for the user
+ */
+export function useLogout() {
+  const queryClient = useQueryClient();
+  const logout = useAuthStore((state) => state.logout);
+
+  return useMutation({
+    mutationFn: () => logout(),
+    onSettled: () => queryClient.clear(),
+  });
+}
+
+export function useRefreshToken() {
+  return useMutation({
+    mutationFn: async (data: RefreshTokenRequest) => unwrap(await API.auth.refreshToken(data)),
+  });
+}
+
+export function useChangePassword() {
+  return useMutation({
+    mutationFn: async (data: ChangePasswordRequest) => unwrap(await API.auth.changePassword(data)),
+  });
+}
+
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: async (data: ForgotPasswordRequest) => unwrap(await API.auth.forgotPassword(data)),
+  });
+}
+
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: async (data: ResetPasswordRequest) => unwrap(await API.auth.resetPassword(data)),
+  });
+}
+
+export function usePasswordPolicy(options?: QueryConfig<PasswordPolicy>) {
+  return useQuery({
+    queryKey: queryKeys.auth.passwordPolicy(),
+    queryFn: async () => unwrap(await API.auth.getPasswordPolicy()),
+    // Changes only when an admin edits the system settings
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+export function useMfaStatus(options?: QueryConfig<MfaStatus>) {
+  return useQuery({
+    queryKey: queryKeys.auth.mfa(),
+    queryFn: async () => unwrap(await API.auth.getMfaStatus()),
+    ...options,
+  });
+}
+
+export function useStartMfaEnrollment() {
+  return useMutation({
+    mutationFn: async () => unwrap(await API.auth.startMfaEnrollment()),
+  });
+}
+
+/**
+ * Confirm enrollment; the recovery codes in the result are shown only once
+ */
+export function useConfirmMfaEnrollment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: MfaCodeRequest) => unwrap(await API.auth.confirmMfaEnrollment(data)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.mfa() }),
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: MfaCodeRequest) => unwrap(await API.auth.regenerateRecoveryCodes(data)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.mfa() }),
+  });
+}
+
+export function useDisableMfa() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: DisableMfaRequest) => unwrap(await API.auth.disableMfa(data)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.mfa() }),
+  });
+}
+
+export function usePasskeys(options?: QueryConfig<Passkey[]>) {
+  return useQuery({
+    queryKey: queryKeys.auth.passkeys(),
+    queryFn: async () => unwrap(await API.auth.getPasskeys()),
+    ...options,
+  });
+}
+
+/**
+ * Register a passkey: fetch the options, let the authenticator create the
+ * credential and store it under the given name
+ */
+export function useRegisterPasskey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const options = unwrap(await API.auth.getPasskeyRegistrationOptions());
+      const credential = await createPasskeyCredential(options);
+      return unwrap(await API.auth.registerPasskey({ name, credential }));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.passkeys() }),
+  });
+}
+
+export function useDeletePasskey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await API.auth.deletePasskey(id)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.passkeys() }),
+  });
+}
+
+export function useSessionSettings(options?: QueryConfig<SessionSettings>) {
+  return useQuery({
+    queryKey: queryKeys.auth.sessionSettings(),
+    queryFn: async () => unwrap(await API.auth.getSessionSettings()),
+    ...options,
+  });
+}
+
+export function useSessions(options?: QueryConfig<UserSession[]>) {
+  return useQuery({
+    queryKey: queryKeys.auth.sessions(),
+    queryFn: async () => unwrap(await API.auth.getSessions()),
+    ...options,
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await API.auth.revokeSession(id)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() }),
+  });
+}
+
+export function useRevokeOtherSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => unwrap(await API.auth.revokeOtherSessions()),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() }),
+  });
+}
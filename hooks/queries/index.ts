@@ -0,0 +1,13 @@
+/**
+ * TanStack Query hooks for every API service
+ */
+
+export { queryKeys } from './keys';
+export { unwrap, unwrapMutation, useOperationKey, cursorPageOptions, flattenPages, mapCachedItems } from './utils';
+export type { QueryConfig, CachedList, MutationResult } from './utils';
+
+export * from './auth';
+export * from './users';
+export * from './orders';
+export * from './markets';
+export * from './system';
@@ -0,0 +1,80 @@
+/**
+ * Query key factory
+ * Keys are hierarchical so that invalidating a prefix (e.g. orders.lists())
+ * refreshes every matching query regardless of its parameters
+ */
+
+import type {
+  AuditLogFilters,
+  CursorQueryParams,
+  KlineParams,
+  OrderFilters,
+  QueryParams,
+  UserFilters,
+} from '@/lib/api';
+
+export const queryKeys = {
+  auth: {
+    all: ['auth'] as const,
+    me: () => [...queryKeys.auth.all, 'me'] as const,
+    verify: () => [...queryKeys.auth.all, 'verify'] as const,
+    mfa: () => [...queryKeys.auth.all, 'mfa'] as const,
+    passkeys: () => [...queryKeys.auth.all, 'passkeys'] as const,
+    sessions: () => [...queryKeys.auth.all, 'sessions'] as const,
+    sessionSettings: () => [...queryKeys.auth.all, 'sessionSettings'] as const,
+    passwordPolicy: () => [...queryKeys.auth.all, 'passwordPolicy'] as const,
+  },
+
+  users: {
+    all: ['users'] as const,
+    lists: () => [...queryKeys.users.all, 'list'] as const,
+    list: (params?: UserFilters & QueryParams) => [...queryKeys.users.lists(), params ?? {}] as const,
+    details: () => [...queryKeys.users.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.users.details(), id] as const,
+    stats: () => [...queryKeys.users.all, 'stats'] as const,
+    sessions: (id: string) => [...queryKeys.users.detail(id), 'sessions'] as const,
+  },
+
+  orders: {
+    all: ['orders'] as const,
+    lists: () => [...queryKeys.orders.all, 'list'] as const,
+    list: (params?: OrderFilters & QueryParams) => [...queryKeys.orders.lists(), params ?? {}] as const,
+    infinite: (params?: OrderFilters & CursorQueryParams) =>
+      [...queryKeys.orders.lists(), 'infinite', params ?? {}] as const,
+    history: (params?: QueryParams) => [...queryKeys.orders.lists(), 'history', params ?? {}] as const,
+    infiniteHistory: (params?: CursorQueryParams) =>
+      [...queryKeys.orders.lists(), 'history', 'infinite', params ?? {}] as const,
+    byUser: (userId: string, params?: QueryParams) =>
+      [...queryKeys.orders.lists(), 'user', userId, params ?? {}] as const,
+    details: () => [...queryKeys.orders.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.orders.details(), id] as const,
+    stats: () => [...queryKeys.orders.all, 'stats'] as const,
+  },
+
+  markets: {
+    all: ['markets'] as const,
+    symbols: () => [...queryKeys.markets.all, 'symbols'] as const,
+    symbol: (symbol: string) => [...queryKeys.markets.symbols(), symbol] as const,
+    tickers: () => [...queryKeys.markets.all, 'tickers'] as const,
+    ticker: (symbol: string) => [...queryKeys.markets.tickers(), symbol] as const,
+    orderBook: (symbol: string, limit?: number) =>
+      [...queryKeys.markets.all, 'orderbook', symbol, limit ?? null] as const,
+    trades: (symbol: string, limit?: number) => [...queryKeys.markets.all, 'trades', symbol, limit ?? null] as const,
+    klines: (params: KlineParams) => [...queryKeys.markets.all, 'klines', params] as const,
+    stats24h: () => [...queryKeys.markets.all, '24hr-stats'] as const,
+    hotSymbols: (limit?: number) => [...queryKeys.markets.all, 'hot-symbols', limit ?? null] as const,
+  },
+
+  system: {
+    all: ['system'] as const,
+    settings: () => [...queryKeys.system.all, 'settings'] as const,
+    status: () => [...queryKeys.system.all, 'status'] as const,
+    stats: () => [...queryKeys.system.all, 'stats'] as const,
+    auditLogLists: () => [...queryKeys.system.all, 'audit-logs'] as const,
+    auditLogs: (params?: AuditLogFilters & QueryParams) => [...queryKeys.system.auditLogLists(), params ?? {}] as const,
+    infiniteAuditLogs: (params?: AuditLogFilters & CursorQueryParams) =>
+      [...queryKeys.system.auditLogLists(), 'infinite', params ?? {}] as const,
+    maintenance: () => [...queryKeys.system.all, 'maintenance'] as const,
+    backups: () => [...queryKeys.system.all, 'backups'] as const,
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * Query hooks for API.markets
+ * Live market data polls by default; pass refetchInterval: false to stop
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { API } from '@/lib/api';
+import type {
+  HotSymbol,
+  Kline,
+  KlineParams,
+  MarketStats24h,
+  OrderBook,
+  Symbol as MarketSymbol,
+  Ticker,
+  Trade,
+} from '@/lib/api';
+import { queryKeys } from './keys';
+import { unwrap, QueryConfig } from './utils';
+
+// Polling intervals for data that changes continuously
+const LIVE_INTERVAL = 5000;
+const BOOK_INTERVAL = 2000;
+
+export function useSymbols(options?: QueryConfig<MarketSymbol[]>) {
+  return useQuery({
+    queryKey: queryKeys.markets.symbols(),
+    queryFn: async () => unwrap(await API.markets.getSymbols()),
+    staleTime: 5 * 60 * 1000, // symbol definitions rarely change
+    ...options,
+  });
+}
+
+export function useSymbol(symbol: string, options?: QueryConfig<MarketSymbol>) {
+  return useQuery({
+    queryKey: queryKeys.markets.symbol(symbol),
+    queryFn: async () => unwrap(await API.markets.getSymbol(symbol)),
+    enabled: Boolean(symbol),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+export function useTickers(options?: QueryConfig<Ticker[]>) {
+  return useQuery({
+    queryKey: queryKeys.markets.tickers(),
+    queryFn: async () => unwrap(await API.markets.getTickers()),
+    refetchInterval: LIVE_INTERVAL,
+    ...options,
+  });
+}
+
+export function useTicker(symbol: string, options?: QueryConfig<Ticker>) {
+  return useQuery({
+    queryKey: queryKeys.markets.ticker(symbol),
+    queryFn: async () => unwrap(await API.markets.getTicker(symbol)),
+    enabled: Boolean(symbol),
+    refetchInterval: LIVE_INTERVAL,
+    ...options,
+  });
+}
+
+export function useOrderBook(symbol: string, limit?: number, options?: QueryConfig<OrderBook>) {
+  return useQuery({
+    queryKey: queryKeys.markets.orderBook(symbol, limit),
+    queryFn: async () => unwrap(await API.markets.getOrderBook(symbol, limit)),
+    enabled: Boolean(symbol),
+    refetchInterval: BOOK_INTERVAL,
+    ...options,
+  });
+}
+
+export function useTrades(symbol: string, limit?: number, options?: QueryConfig<Trade[]>) {
+  return useQuery({
+    queryKey: queryKeys.markets.trades(symbol, limit),
+    queryFn: async () => unwrap(await API.markets.getTrades(symbol, limit)),
+    enabled: Boolean(symbol),
+    refetchInterval: LIVE_INTERVAL,
+    ...options,
+  });
+}
+
+export function useKlines(params: KlineParams, options?: QueryConfig<Kline[]>) {
+  return useQuery({
+    queryKey: queryKeys.markets.klines(params),
+    queryFn: async () => unwrap(await API.markets.getKlines(params)),
+    enabled: Boolean(params.symbol),
+    placeholderData: (previous) => previous, // keep the chart while switching intervals
+    ...options,
+  });
+}
+
+export function useMarketStats24h(options?: QueryConfig<MarketStats24h>) {
+  return useQuery({
+    queryKey: queryKeys.markets.stats24h(),
+    queryFn: async () => unwrap(await API.markets.get24hrStats()),
+    refetchInterval: LIVE_INTERVAL * 6,
+    ...options,
+  });
+}
+
+export function useHotSymbols(limit?: number, options?: QueryConfig<HotSymbol[]>) {
+  return useQuery({
+    queryKey: queryKeys.markets.hotSymbols(limit),
+    queryFn: async () => unwrap(await API.markets.getHotSymbols(limit)),
+    refetchInterval: LIVE_INTERVAL * 6,
+    ...options,
+  });
+}
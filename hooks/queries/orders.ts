@@ -0,0 +1,190 @@
+/**
+ * Query hooks for API.orders
+ */
+
+'use client';
+
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { API } from '@/lib/api';
+import type {
+  CreateOrderRequest,
+  CursorQueryParams,
+  Order,
+  OrderFilters,
+  OrderStats,
+  PaginatedData,
+  QueryParams,
+  UpdateOrderRequest,
+} from '@/lib/api';
+import { queryKeys } from './keys';
+import {
+  unwrap,
+  unwrapMutation,
+  useOperationKey,
+  cursorPageOptions,
+  mapCachedItems,
+  CachedList,
+  QueryConfig,
+} from './utils';
+
+export function useOrders(params?: OrderFilters & QueryParams, options?: QueryConfig<PaginatedData<Order>>) {
+  return useQuery({
+    queryKey: queryKeys.orders.list(params),
+    queryFn: async () => unwrap(await API.orders.getOrders(params)),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+/**
+ * Orders as an infinite list; use flattenPages(data) for the rows
+ */
+export function useInfiniteOrders(params?: Omit<OrderFilters & CursorQueryParams, 'cursor'>) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.orders.infinite(params),
+    queryFn: async ({ pageParam }) => unwrap(await API.orders.getOrdersByCursor({ ...params, cursor: pageParam })),
+    ...cursorPageOptions,
+  });
+}
+
+export function useOrder(id: string, options?: QueryConfig<Order>) {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(id),
+    queryFn: async () => unwrap(await API.orders.getOrder(id)),
+    enabled: Boolean(id),
+    ...options,
+  });
+}
+
+export function useOrderHistory(params?: QueryParams, options?: QueryConfig<PaginatedData<Order>>) {
+  return useQuery({
+    queryKey: queryKeys.orders.history(params),
+    queryFn: async () => unwrap(await API.orders.getOrderHistory(params)),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+export function useInfiniteOrderHistory(params?: Omit<CursorQueryParams, 'cursor'>) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.orders.infiniteHistory(params),
+    queryFn: async ({ pageParam }) =>
+      unwrap(await API.orders.getOrderHistoryByCursor({ ...params, cursor: pageParam })),
+    ...cursorPageOptions,
+  });
+}
+
+export function useUserOrders(userId: string, params?: QueryParams, options?: QueryConfig<PaginatedData<Order>>) {
+  return useQuery({
+    queryKey: queryKeys.orders.byUser(userId, params),
+    queryFn: async () => unwrap(await API.orders.getUserOrders(userId, params)),
+    enabled: Boolean(userId),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+export function useOrderStats(options?: QueryConfig<OrderStats>) {
+  return useQuery({
+    queryKey: queryKeys.orders.stats(),
+    queryFn: async () => unwrap(await API.orders.getOrderStats()),
+    ...options,
+  });
+}
+
+// Every order mutation can move an order between lists and change the counters
+function invalidateOrderCollections(queryClient: QueryClient) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.stats() }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.system.stats() }),
+  ]);
+}
+
+/**
+ * Mark orders as cancelled in every cached list and detail; returns a
+ * snapshot for rollback
+ */
+async function cancelInCache(queryClient: QueryClient, ids: string[]) {
+  await queryClient.cancelQueries({ queryKey: queryKeys.orders.all });
+
+  const lists = queryClient.getQueriesData<CachedList<Order>>({ queryKey: queryKeys.orders.lists() });
+  const details = ids.map((id) => [id, queryClient.getQueryData<Order>(queryKeys.orders.detail(id))] as const);
+
+  // Only pending orders can be cancelled; leave anything else untouched
+  const cancel = (order: Order): Order =>
+    ids.includes(order.id) && order.status === 'pending' ? { ...order, status: 'cancelled' } : order;
+
+  queryClient.setQueriesData<CachedList<Order>>({ queryKey: queryKeys.orders.lists() }, (data) =>
+    mapCachedItems(data, cancel)
+  );
+  details.forEach(([id, order]) => {
+    if (order) queryClient.setQueryData(queryKeys.orders.detail(id), cancel(order));
+  });
+
+  return { lists, details };
+}
+
+function restoreCache(queryClient: QueryClient, snapshot?: Awaited<ReturnType<typeof cancelInCache>>) {
+  snapshot?.lists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+  snapshot?.details.forEach(([id, order]) => queryClient.setQueryData(queryKeys.orders.detail(id), order));
+}
+
+export function useCreateOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateOrderRequest) => unwrap(await API.orders.createOrder(data)),
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.detail(order.id), order);
+      return invalidateOrderCollections(queryClient);
+    },
+  });
+}
+
+export function useUpdateOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateOrderRequest }) =>
+      unwrap(await API.orders.updateOrder(id, data)),
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.detail(order.id), order);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+    },
+  });
+}
+
+export function useCancelOrder() {
+  const queryClient = useQueryClient();
+  const { keyFor, release } = useOperationKey<string>();
+
+  return useMutation({
+    mutationFn: async (id: string) =>
+      unwrapMutation(await API.orders.cancelOrder(id, { idempotencyKey: keyFor(id) })),
+    onMutate: (id) => cancelInCache(queryClient, [id]),
+    onSuccess: (_, id) => release(id),
+    onError: (_error, _id, snapshot) => restoreCache(queryClient, snapshot),
+    onSettled: () => invalidateOrderCollections(queryClient),
+  });
+}
+
+export function useBatchCancelOrders() {
+  const queryClient = useQueryClient();
+  const { keyFor, release } = useOperationKey<string[]>();
+
+  return useMutation({
+    mutationFn: async (orderIds: string[]) =>
+      unwrapMutation(await API.orders.batchCancelOrders(orderIds, { idempotencyKey: keyFor(orderIds) })),
+    onMutate: (orderIds) => cancelInCache(queryClient, orderIds),
+    onSuccess: (_, orderIds) => release(orderIds),
+    onError: (_error, _orderIds, snapshot) => restoreCache(queryClient, snapshot),
+    onSettled: () => invalidateOrderCollections(queryClient),
+  });
+}
+
+export function useExportOrders() {
+  return useMutation({
+    mutationFn: async (params?: OrderFilters) => unwrap(await API.orders.exportOrders(params)),
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * Query hooks for API.system
+ */
+
+'use client';
+
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { API } from '@/lib/api';
+import type {
+  AuditLog,
+  AuditLogFilters,
+  Backup,
+  CursorQueryParams,
+  MaintenanceRequest,
+  MaintenanceStatus,
+  PaginatedData,
+  QueryParams,
+  SystemSettings,
+  SystemStats,
+  SystemStatus,
+  UpdateSystemSettingsRequest,
+} from '@/lib/api';
+import { queryKeys } from './keys';
+import { unwrap, unwrapMutation, useOperationKey, cursorPageOptions, QueryConfig } from './utils';
+
+export function useSystemSettings(options?: QueryConfig<SystemSettings>) {
+  return useQuery({
+    queryKey: queryKeys.system.settings(),
+    queryFn: async () => unwrap(await API.system.getSettings()),
+    ...options,
+  });
+}
+
+export function useSystemStatus(options?: QueryConfig<SystemStatus[]>) {
+  return useQuery({
+    queryKey: queryKeys.system.status(),
+    queryFn: async () => unwrap(await API.system.getStatus()),
+    refetchInterval: 30000,
+    ...options,
+  });
+}
+
+export function useSystemStats(options?: QueryConfig<SystemStats>) {
+  return useQuery({
+    queryKey: queryKeys.system.stats(),
+    queryFn: async () => unwrap(await API.system.getStats()),
+    ...options,
+  });
+}
+
+export function useAuditLogs(params?: AuditLogFilters & QueryParams, options?: QueryConfig<PaginatedData<AuditLog>>) {
+  return useQuery({
+    queryKey: queryKeys.system.auditLogs(params),
+    queryFn: async () => unwrap(await API.system.getAuditLogs(params)),
+    placeholderData: (previous) => previous,
+    ...options,
+  });
+}
+
+export function useInfiniteAuditLogs(params?: Omit<AuditLogFilters & CursorQueryParams, 'cursor'>) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.system.infiniteAuditLogs(params),
+    queryFn: async ({ pageParam }) =>
+      unwrap(await API.system.getAuditLogsByCursor({ ...params, cursor: pageParam })),
+    ...cursorPageOptions,
+  });
+}
+
+export function useMaintenanceStatus(options?: QueryConfig<MaintenanceStatus>) {
+  return useQuery({
+    queryKey: queryKeys.system.maintenance(),
+    queryFn: async () => unwrap(await API.system.getMaintenanceStatus()),
+    ...options,
+  });
+}
+
+export function useBackups(options?: QueryConfig<Backup[]>) {
+  return useQuery({
+    queryKey: queryKeys.system.backups(),
+    queryFn: async () => unwrap(await API.system.getBackups()),
+    ...options,
+  });
+}
+
+/**
+ * Settings are merged into the cache right away and rolled back on failure;
+ * the server's answer replaces the optimistic copy
+ */
+export function useUpdateSystemSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateSystemSettingsRequest) => unwrap(await API.system.updateSettings(data)),
+    onMutate: async (data) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.system.settings() });
+
+      const previous = queryClient.getQueryData<SystemSettings>(queryKeys.system.settings());
+      if (previous) {
+        queryClient.setQueryData<SystemSettings>(queryKeys.system.settings(), {
+          ...previous,
+          ...data,
+          passwordPolicy: { ...previous.passwordPolicy, ...data.passwordPolicy },
+        });
+      }
+
+      return { previous };
+    },
+    onError: (_error, _data, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.system.settings(), context.previous);
+      }
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.system.settings(), settings);
+      // The idle timeout reads its own copy of sessionTimeout
+      queryClient.setQueryData(queryKeys.auth.sessionSettings(), { sessionTimeout: settings.sessionTimeout });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.system.maintenance() }),
+  });
+}
+
+export function useCleanupAuditLogs() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (olderThanDays: number) => unwrap(await API.system.cleanupAuditLogs(olderThanDays)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.system.auditLogLists() }),
+  });
+}
+
+export function useSetMaintenanceMode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: MaintenanceRequest) => unwrap(await API.system.setMaintenanceMode(data)),
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.system.maintenance() }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.system.settings() }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.system.status() }),
+      ]),
+  });
+}
+
+export function useCreateBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => unwrap(await API.system.createBackup()),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.system.backups() }),
+  });
+}
+
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+  const { keyFor, release } = useOperationKey<string>();
+
+  return useMutation({
+    mutationFn: async (backupId: string) =>
+      unwrapMutation(await API.system.restoreBackup(backupId, { idempotencyKey: keyFor(backupId) })),
+    onSuccess: (_, backupId) => {
+      release(backupId);
+      // A restore can change anything, so drop every cached query
+      return queryClient.invalidateQueries();
+    },
+  });
+}
+
+export function useClearCache() {
+  return useMutation({
+    mutationFn: async () => unwrap(await API.system.clearCache()),
+  });
+}
+
+export function useRestartService() {
+  const queryClient = useQueryClient();
+  const { keyFor, release } = useOperationKey<string>();
+
+  return useMutation({
+    mutationFn: async (serviceName: string) =>
+      unwrapMutation(await API.system.restartService(serviceName, { idempotencyKey: keyFor(serviceName) })),
+    onSuccess: (_, serviceName) => {
+      release(serviceName);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.system.status() });
+    },
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * Query hooks for API.users
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { API, ApiError, QUEUED_OFFLINE } from '@/lib/api';
+import type {
+  CreateUserRequest,
+  KycDocument,
+  KycDocumentType,
+  PaginatedData,
+  QueryParams,
+  UpdateUserRequest,
+  UploadOptions,
+  User,
+  UserFilters,
+  UserImportResult,
+  UserStats,
+  UserSession,
+} from '@/lib/api';
+import { queryKeys } from './keys';
+import { unwrap, unwrapMutation, useOperationKey, mapCachedItems, CachedList, QueryConfig } from './utils';
+
+export function useUsers(params?: UserFilters & QueryParams, options?: QueryConfig<PaginatedData<User>>) {
+  return useQuery({
+    queryKey: queryKeys.users.list(params),
+    queryFn: async () => unwrap(await API.users.getUsers(params)),
+    placeholderData: (previous) => previous, // keep the table filled while paging
+    ...options,
+  });
+}
+
+export function useUser(id: string, options?: QueryConfig<User>) {
+  return useQuery({
+    queryKey: queryKeys.users.detail(id),
+    queryFn: async () => unwrap(await API.users.getUser(id)),
+    enabled: Boolean(id),
+    ...options,
+  });
+}
+
+/**
+ * Sessions of another admin; needs MANAGE_USER_ROLES
+ */
+export function useUserSessions(userId: string, options?: QueryConfig<UserSession[]>) {
+  return useQuery({
+    queryKey: queryKeys.users.sessions(userId),
+    queryFn: async () => unwrap(await API.users.getUserSessions(userId)),
+    enabled: Boolean(userId),
+    ...options,
+  });
+}
+
+export function useUserStats(options?: QueryConfig<UserStats>) {
+  return useQuery({
+    queryKey: queryKeys.users.stats(),
+    queryFn: async () => unwrap(await API.users.getUserStats()),
+    ...options,
+  });
+}
+
+// Lists and stats change with almost any user mutation
+function invalidateUserCollections(queryClient: QueryClient) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.users.lists() }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.users.stats() }),
+  ]);
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateUserRequest) => unwrap(await API.users.createUser(data)),
+    onSuccess: (user) => {
+      queryClient.setQueryData(queryKeys.users.detail(user.id), user);
+      return invalidateUserCollections(queryClient);
+    },
+  });
+}
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateUserRequest }) =>
+      unwrap(await API.users.updateUser(id, data, { outbox: { label: `Update user ${id}` } })),
+    onSuccess: (user) => {
+      queryClient.setQueryData(queryKeys.users.detail(user.id), user);
+      return invalidateUserCollections(queryClient);
+    },
+  });
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await API.users.deleteUser(id)),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.users.detail(id) });
+      return invalidateUserCollections(queryClient);
+    },
+  });
+}
+
+export function useBatchDeleteUsers() {
+  const queryClient = useQueryClient();
+  const { keyFor, release } = useOperationKey<string[]>();
+
+  return useMutation({
+    mutationFn: async (userIds: string[]) =>
+      unwrapMutation(await API.users.batchDeleteUsers(userIds, { idempotencyKey: keyFor(userIds) })),
+    onSuccess: (_, userIds) => {
+      release(userIds);
+      userIds.forEach((id) => queryClient.removeQueries({ queryKey: queryKeys.users.detail(id) }));
+      return invalidateUserCollections(queryClient);
+    },
+  });
+}
+
+export function useResetUserPassword() {
+  return useMutation({
+    mutationFn: async ({ id, newPassword }: { id: string; newPassword: string }) =>
+      unwrap(await API.users.resetUserPassword(id, newPassword)),
+  });
+}
+
+/**
+ * Flip isActive in every cached copy right away; a failed request restores
+ * the snapshot. Safe because the server applies exactly this change.
+ */
+export function useToggleUserStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      unwrap(
+        await API.users.toggleUserStatus(id, isActive, {
+          outbox: { label: `${isActive ? 'Enable' : 'Disable'} user ${id}` },
+        })
+      ),
+    onMutate: async ({ id, isActive }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.users.all });
+
+      const lists = queryClient.getQueriesData<CachedList<User>>({ queryKey: queryKeys.users.lists() });
+      const detail = queryClient.getQueryData<User>(queryKeys.users.detail(id));
+
+      queryClient.setQueriesData<CachedList<User>>({ queryKey: queryKeys.users.lists() }, (data) =>
+        mapCachedItems(data, (user) => (user.id === id ? { ...user, isActive } : user))
+      );
+      if (detail) {
+        queryClient.setQueryData<User>(queryKeys.users.detail(id), { ...detail, isActive });
+      }
+
+      return { lists, detail };
+    },
+    onError: (error, { id }, context) => {
+      // Queued in the outbox: keep showing the new status until it is replayed
+      if (error instanceof ApiError && error.code === QUEUED_OFFLINE) return;
+
+      context?.lists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      if (context?.detail) {
+        queryClient.setQueryData(queryKeys.users.detail(id), context.detail);
+      }
+    },
+    onSettled: () => invalidateUserCollections(queryClient),
+  });
+}
+
+export function useRevokeUserSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, sessionId }: { userId: string; sessionId: string }) =>
+      unwrap(await API.users.revokeUserSession(userId, sessionId)),
+    onSuccess: (_, { userId }) => queryClient.invalidateQueries({ queryKey: queryKeys.users.sessions(userId) }),
+  });
+}
+
+export function useRevokeUserSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: string) => unwrap(await API.users.revokeUserSessions(userId)),
+    onSuccess: (_, userId) => queryClient.invalidateQueries({ queryKey: queryKeys.users.sessions(userId) }),
+  });
+}
+
+/**
+ * Pass options.onProgress for a progress bar and options.signal to let the
+ * user cancel; re-importing the same file after a failure resumes it
+ */
+export function useImportUsers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ file, options }: { file: File; options?: UploadOptions<UserImportResult> }) =>
+      unwrap(await API.users.importUsers(file, options)),
+    onSuccess: () => invalidateUserCollections(queryClient),
+  });
+}
+
+export function useUploadKycDocument() {
+  return useMutation({
+    mutationFn: async ({
+      userId,
+      files,
+      documentType,
+      options,
+    }: {
+      userId: string;
+      files: File | File[];
+      documentType: KycDocumentType;
+      options?: UploadOptions<KycDocument[]>;
+    }) => unwrap(await API.users.uploadKycDocument(userId, files, documentType, options)),
+  });
+}
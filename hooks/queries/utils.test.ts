@@ -0,0 +1,96 @@
+import type { InfiniteData } from '@tanstack/react-query';
+import { ApiError } from '@/lib/api';
+import type { CursorPage, PaginatedData } from '@/lib/api';
+import { cursorPageOptions, flattenPages, mapCachedItems, unwrap } from './utils';
+
+interface Row {
+  id: string;
+  status: string;
+}
+
+const page = (ids: string[], nextCursor: string | null): CursorPage<Row> => ({
+  items: ids.map((id) => ({ id, status: 'active' })),
+  nextCursor,
+  limit: 2,
+});
+
+const infinite: InfiniteData<CursorPage<Row>> = {
+  pages: [page(['a', 'b'], 'c1'), page(['c'], null)],
+  pageParams: [undefined, 'c1'],
+};
+
+describe('cursorPageOptions', () => {
+  it('asks for the next page with the last cursor and stops at null', () => {
+    expect(cursorPageOptions.initialPageParam).toBeUndefined();
+    expect(cursorPageOptions.getNextPageParam(infinite.pages[0])).toBe('c1');
+    expect(cursorPageOptions.getNextPageParam(infinite.pages[1])).toBeUndefined();
+  });
+});
+
+describe('flattenPages', () => {
+  it('joins the rows of every page in order', () => {
+    expect(flattenPages(infinite).map((row) => row.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('returns no rows before the first page arrives', () => {
+    expect(flattenPages<Row>(undefined)).toEqual([]);
+  });
+});
+
+describe('mapCachedItems', () => {
+  const disable = (row: Row) => (row.id === 'b' ? { ...row, status: 'disabled' } : row);
+
+  it('updates rows across the pages of an infinite query', () => {
+    const updated = mapCachedItems(infinite, disable) as InfiniteData<CursorPage<Row>>;
+
+    expect(flattenPages(updated).map((row) => row.status)).toEqual(['active', 'disabled', 'active']);
+    expect(updated.pageParams).toBe(infinite.pageParams);
+  });
+
+  it('updates rows of an offset page', () => {
+    const offset: PaginatedData<Row> = {
+      items: page(['a', 'b'], null).items,
+      total: 2,
+      page: 1,
+      limit: 20,
+      totalPages: 1,
+    };
+
+    const updated = mapCachedItems(offset, disable) as PaginatedData<Row>;
+
+    expect(updated.items[1].status).toBe('disabled');
+    expect(updated.total).toBe(2);
+  });
+
+  it('leaves an empty cache alone', () => {
+    expect(mapCachedItems<Row>(undefined, disable)).toBeUndefined();
+  });
+});
+
+describe('unwrap', () => {
+  it('returns the body of a successful response', () => {
+    expect(unwrap({ status: 'success', body: { id: 'a' } })).toEqual({ id: 'a' });
+  });
+
+  it('throws the error envelope as an ApiError with the HTTP status', () => {
+    const details = { password: 'Too short' };
+    let thrown: unknown;
+    try {
+      unwrap({
+        status: 'error',
+        error: { code: 'PASSWORD_POLICY_VIOLATION', message: 'Weak password', details },
+        meta: { httpStatus: 422 },
+      });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(ApiError);
+    expect(thrown).toMatchObject({
+      status: 422,
+      code: 'PASSWORD_POLICY_VIOLATION',
+      message: 'Weak password',
+      details,
+    });
+  });
+});
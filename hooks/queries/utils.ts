@@ -0,0 +1,99 @@
+/**
+ * Shared helpers for the query hooks
+ */
+
+import { useCallback, useRef } from 'react';
+import type { InfiniteData, QueryKey, UseQueryOptions } from '@tanstack/react-query';
+import { ApiError, ApiResponse, createIdempotencyKey } from '@/lib/api';
+import type { CursorPage, PaginatedData } from '@/lib/api';
+
+/**
+ * Turn an ApiResponse into its body, throwing the error envelope as an
+ * ApiError so that TanStack Query puts the query into its error state
+ */
+export function unwrap<T>(response: ApiResponse<T>): T {
+  if (response.status === 'error') {
+    const error = response.error;
+    // Keep the HTTP status: describeError() falls back on it and reads field errors from 400/422
+    throw new ApiError(
+      response.meta?.httpStatus ?? 0,
+      error?.code || 'API_ERROR',
+      error?.message || 'Request failed',
+      error?.details
+    );
+  }
+
+  return response.body as T;
+}
+
+// Result of a mutation that should not run twice
+export interface MutationResult<T> {
+  body: T;
+  replayed: boolean; // the server had already applied it and answered from its cache
+}
+
+/**
+ * unwrap() for idempotency-keyed mutations, keeping the replayed flag
+ * so the UI can tell "done now" from "was already done"
+ */
+export function unwrapMutation<T>(response: ApiResponse<T>): MutationResult<T> {
+  return { body: unwrap(response), replayed: Boolean(response.meta?.replayed) };
+}
+
+/**
+ * One idempotency key per logical operation. Calls with the same variables
+ * share a key until one succeeds, so a double click or a resubmit after a
+ * network error is applied once on the server.
+ */
+export function useOperationKey<V>() {
+  const keys = useRef(new Map<string, string>());
+
+  const keyFor = useCallback((variables: V): string => {
+    const id = JSON.stringify(variables ?? null);
+    let key = keys.current.get(id);
+    if (!key) {
+      key = createIdempotencyKey();
+      keys.current.set(id, key);
+    }
+    return key;
+  }, []);
+
+  const release = useCallback((variables: V) => {
+    keys.current.delete(JSON.stringify(variables ?? null));
+  }, []);
+
+  return { keyFor, release };
+}
+
+// Extra options a query hook accepts; key and fetcher are owned by the hook
+export type QueryConfig<T> = Omit<UseQueryOptions<T, ApiError, T, QueryKey>, 'queryKey' | 'queryFn'>;
+
+/**
+ * Page-param wiring for useInfiniteQuery over a CursorPage endpoint
+ */
+export const cursorPageOptions = {
+  initialPageParam: undefined as string | undefined,
+  getNextPageParam: <T>(lastPage: CursorPage<T>): string | undefined => lastPage.nextCursor ?? undefined,
+};
+
+/**
+ * All rows loaded so far by an infinite query, in order
+ */
+export function flattenPages<T>(data?: InfiniteData<CursorPage<T>>): T[] {
+  return data ? data.pages.reduce<T[]>((rows, page) => rows.concat(page.items), []) : [];
+}
+
+// A cached list: an offset page, or every page of an infinite query
+export type CachedList<T> = PaginatedData<T> | InfiniteData<CursorPage<T>>;
+
+/**
+ * Apply an update to every row of a cached list, whichever shape it has
+ */
+export function mapCachedItems<T>(data: CachedList<T> | undefined, update: (item: T) => T): CachedList<T> | undefined {
+  if (!data) return data;
+
+  if ('pages' in data) {
+    return { ...data, pages: data.pages.map((page) => ({ ...page, items: page.items.map(update) })) };
+  }
+  return { ...data, items: data.items.map(update) };
+}
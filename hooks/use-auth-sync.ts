@@ -0,0 +1,136 @@
+/**
+ * Cross-tab authentication hook
+ * Applies sign-in, sign-out, token refresh and user changes made in other
+ * tabs to this one, and runs the scheduled token refresh in the leader tab
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/hooks/use-auth';
+import { refreshSession } from '@/lib/api';
+import {
+  getClientAuthToken,
+  getClientRefreshToken,
+  getTokenRefreshTime,
+  removeClientAuthToken,
+  setClientAuthToken,
+  setClientRefreshToken,
+} from '@/lib/auth';
+import { authSync, AuthSyncEvent, SyncedTokens } from '@/lib/auth-sync';
+import { getActiveBackend } from '@/lib/backends';
+import { env } from '@/lib/env';
+
+// Seconds before the 75% mark at which each tab's requests refresh on their
+// own, so followers find the leader's new token instead of racing it
+const SCHEDULE_LEAD = 60;
+
+function storeTokens(tokens: SyncedTokens, backendId: string): void {
+  setClientAuthToken(tokens.accessToken, tokens.remember, backendId);
+  if (tokens.refreshToken) {
+    setClientRefreshToken(tokens.refreshToken, tokens.remember, backendId);
+  }
+}
+
+/**
+ * Bring this tab in line with another tab's event. Applied with setState so
+ * nothing is published back. onAccountChange drops data of the previous user.
+ */
+function applyEvent(event: AuthSyncEvent, onAccountChange: () => void): void {
+  const isActive = event.backendId === getActiveBackend().id;
+  const { user } = useAuthStore.getState();
+
+  switch (event.type) {
+    case 'login':
+      if (event.tokens) {
+        storeTokens(event.tokens, event.backendId);
+      }
+      if (!isActive) return;
+      if (user?.id !== event.user.id) {
+        onAccountChange();
+      }
+      useAuthStore.setState({
+        user: event.user,
+        isAuthenticated: true,
+        initialized: true,
+        isLoading: false,
+        error: null,
+        mfaChallenge: null,
+      });
+      return;
+
+    case 'logout':
+      removeClientAuthToken(event.backendId);
+      if (!isActive) return;
+      onAccountChange();
+      if (event.expired) {
+        useAuthStore.getState().clearSession();
+      } else {
+        useAuthStore.setState({ user: null, isAuthenticated: false, isLoading: false, error: null });
+      }
+      return;
+
+    case 'refresh':
+      // Only tabs holding this session take the new tokens
+      if (getClientRefreshToken(event.backendId) || getClientAuthToken(event.backendId)) {
+        storeTokens(event.tokens, event.backendId);
+      }
+      return;
+
+    case 'user':
+      if (isActive && user?.id === event.user.id) {
+        useAuthStore.setState({ user: event.user });
+      }
+      return;
+  }
+}
+
+export function useAuthSync(): void {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    authSync.start();
+    setIsLeader(authSync.isLeader);
+
+    const unsubscribeLeadership = authSync.subscribeLeadership(setIsLeader);
+    const unsubscribe = authSync.subscribe((event) => applyEvent(event, () => queryClient.clear()));
+    return () => {
+      unsubscribe();
+      unsubscribeLeadership();
+    };
+  }, [queryClient]);
+
+  // Only the leader refreshes on a schedule and shares the result. Direct
+  // mode only: the BFF's token is HttpOnly and refreshed on 401.
+  useEffect(() => {
+    if (!isLeader || !isAuthenticated || env.NEXT_PUBLIC_AUTH_MODE !== 'DIRECT') return;
+
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const schedule = () => {
+      const token = getClientAuthToken();
+      if (!token || cancelled) return;
+
+      const delay = Math.max(0, getTokenRefreshTime(token) - SCHEDULE_LEAD) * 1000;
+      timer = window.setTimeout(async () => {
+        // A request may have refreshed the token in the meantime
+        const current = getClientAuthToken();
+        if (current && getTokenRefreshTime(current) > SCHEDULE_LEAD) {
+          schedule();
+        } else if (await refreshSession()) {
+          schedule();
+        }
+      }, delay);
+    };
+
+    schedule();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isLeader, isAuthenticated]);
+}
@@ -11,27 +11,84 @@ import { persist } from 'zustand/middleware';
 import { User, UserRole } from '@/lib/rbac';
 import {
   getCurrentUser,
+  getClientAuthToken,
   logout as authLogout,
+  LogoutOptions,
   isAuthenticated,
   isTokenExpired,
   setClientAuthToken,
+  setClientRefreshToken,
   removeClientAuthToken,
 } from '@/lib/auth';
-import { API } from '@/lib/api';
-
-// Authentication error types
-export interface AuthError {
-  code: string;
-  message: string;
-  details?: any;
+import { env } from '@/lib/env';
+import { getActiveBackend } from '@/lib/backends';
+import { authSync } from '@/lib/auth-sync';
+import {
+  API,
+  describeError,
+  setSessionExpiredHandler,
+  CatalogedError,
+  LoginData,
+  MfaChallenge,
+  MfaMethod,
+} from '@/lib/api';
+import { getPasskeyCredential } from '@/lib/webauthn';
+
+function isBffMode(): boolean {
+  return env.NEXT_PUBLIC_AUTH_MODE === 'BFF';
 }
 
+// Authentication errors are described by the API error catalog
+export type AuthError = CatalogedError;
+
 // Authentication result types
 export interface LoginResult {
   success: boolean;
+  mfaRequired?: boolean; // password accepted, the second factor is still missing
   error?: AuthError;
 }
 
+// MFA challenge of a login in progress
+export interface PendingMfa extends MfaChallenge {
+  remember: boolean;
+}
+
+/**
+ * Keep the tokens of a new session (client-side for Direct mode; the BFF
+ * sets cookies instead), build the user from the login payload and sign in
+ * the other tabs too
+ */
+function startSession(loginData: LoginData, remember: boolean): User {
+  if (loginData.accessToken) {
+    setClientAuthToken(loginData.accessToken, remember);
+  }
+  if (loginData.refreshToken) {
+    setClientRefreshToken(loginData.refreshToken, remember);
+  }
+
+  const user: User = {
+    id: loginData.userId.toString(),
+    name: `${loginData.firstName} ${loginData.lastName}`,
+    email: loginData.email,
+    roles: loginData.roles as any[], // Convert to UserRole enum if needed
+    isActive: loginData.status === 'ACTIVE',
+    lastLoginAt: new Date(loginData.lastLoginAt),
+    createdAt: new Date(), // We don't have this from API
+  };
+
+  authSync.publish({
+    type: 'login',
+    backendId: getActiveBackend().id,
+    user,
+    tokens:
+      !isBffMode() && loginData.accessToken
+        ? { accessToken: loginData.accessToken, refreshToken: loginData.refreshToken, remember }
+        : undefined,
+  });
+
+  return user;
+}
+
 // Authentication state interface
 interface AuthState {
   // State
@@ -40,6 +97,7 @@ interface AuthState {
   isAuthenticated: boolean;
   error: AuthError | null;
   initialized: boolean;
+  mfaChallenge: PendingMfa | null;
 
   // Actions
   login: (
@@ -47,7 +105,11 @@ interface AuthState {
     password: string,
     remember?: boolean
   ) => Promise<LoginResult>;
-  logout: () => Promise<void>;
+  verifyMfa: (code: string, method?: MfaMethod) => Promise<LoginResult>;
+  cancelMfa: () => void;
+  loginWithPasskey: (usernameOrEmail?: string, remember?: boolean) => Promise<LoginResult>;
+  logout: (options?: LogoutOptions) => Promise<void>;
+  clearSession: () => void;
   refreshUser: () => Promise<void>;
   initialize: () => Promise<void>;
   clearError: () => void;
@@ -65,6 +127,7 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       error: null,
       initialized: false,
+      mfaChallenge: null,
 
       // Login action with better error handling
       login: async (
@@ -72,77 +135,141 @@ export const useAuthStore = create<AuthState>()(
         password: string,
         remember = false
       ): Promise<LoginResult> => {
-        set({ isLoading: true, error: null });
+        set({ isLoading: true, error: null, mfaChallenge: null });
 
         try {
-          const response = await API.auth.login({ usernameOrEmail, password });
+          const response = await API.auth.login({ usernameOrEmail, password, remember });
 
           if (response.status === 'error') {
-            const error: AuthError = {
-              code: response.error?.code || 'LOGIN_FAILED',
-              message: response.error?.message || 'Login failed',
-              details: response.error?.details,
-            };
+            const error = describeError(response, 'LOGIN_FAILED');
             set({ isLoading: false, error });
             return { success: false, error };
           }
 
           if (!response.body) {
-            const error: AuthError = {
-              code: 'NO_DATA',
-              message: 'No data received from login',
-            };
+            const error = describeError({ code: 'NO_DATA', message: 'No data received from login' });
             set({ isLoading: false, error });
             return { success: false, error };
           }
 
-          const loginData = response.body;
+          // Two-factor accounts continue with verifyMfa()
+          if ('mfaRequired' in response.body) {
+            set({ isLoading: false, mfaChallenge: { ...response.body, remember } });
+            return { success: false, mfaRequired: true };
+          }
+
+          // Update state
+          set({
+            user: startSession(response.body, remember),
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+          });
+
+          return { success: true };
+        } catch (error) {
+          const authError = describeError(error, 'NETWORK_ERROR');
+          set({ isLoading: false, error: authError });
+          return { success: false, error: authError };
+        }
+      },
+
+      // Second login step: a TOTP code or one of the recovery codes
+      verifyMfa: async (code: string, method: MfaMethod = 'totp'): Promise<LoginResult> => {
+        const challenge = get().mfaChallenge;
+        if (!challenge) {
+          const error = describeError({ code: 'MFA_TOKEN_INVALID', message: 'Please sign in again' });
+          set({ error });
+          return { success: false, error };
+        }
 
-          // Create user object from login response
-          const user: User = {
-            id: loginData.userId.toString(),
-            name: `${loginData.firstName} ${loginData.lastName}`,
-            email: loginData.email,
-            roles: loginData.roles as any[], // Convert to UserRole enum if needed
-            isActive: loginData.status === 'ACTIVE',
-            lastLoginAt: new Date(loginData.lastLoginAt),
-            createdAt: new Date(), // We don't have this from API
-          };
+        set({ isLoading: true, error: null });
 
-          // Store token (client-side for Direct mode)
-          setClientAuthToken(loginData.accessToken, remember);
+        try {
+          const response = await API.auth.verifyMfa({
+            mfaToken: challenge.mfaToken,
+            ...(method === 'totp' ? { code } : { recoveryCode: code }),
+            remember: challenge.remember,
+          });
+
+          if (response.status === 'error' || !response.body) {
+            const error = describeError(response, 'LOGIN_FAILED');
+            // An expired or exhausted challenge cannot be retried; start over
+            const expired = error.code === 'MFA_TOKEN_INVALID';
+            set({ isLoading: false, error, mfaChallenge: expired ? null : challenge });
+            return { success: false, error };
+          }
 
-          // Update state
           set({
-            user,
+            user: startSession(response.body, challenge.remember),
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            mfaChallenge: null,
           });
 
           return { success: true };
         } catch (error) {
-          const authError: AuthError = {
-            code: 'NETWORK_ERROR',
-            message: error instanceof Error ? error.message : 'Network error occurred',
-          };
+          const authError = describeError(error, 'NETWORK_ERROR');
+          set({ isLoading: false, error: authError });
+          return { success: false, error: authError };
+        }
+      },
+
+      // Abandon the second step and go back to the password form
+      cancelMfa: () => {
+        set({ mfaChallenge: null, error: null });
+      },
+
+      // Passkey sign-in; the passkey's user verification stands in for TOTP
+      loginWithPasskey: async (usernameOrEmail?: string, remember = false): Promise<LoginResult> => {
+        set({ isLoading: true, error: null, mfaChallenge: null });
+
+        try {
+          const options = await API.auth.getPasskeyLoginOptions(usernameOrEmail ? { usernameOrEmail } : {});
+          if (options.status === 'error' || !options.body) {
+            const error = describeError(options, 'LOGIN_FAILED');
+            set({ isLoading: false, error });
+            return { success: false, error };
+          }
+
+          const credential = await getPasskeyCredential(options.body);
+          const response = await API.auth.loginWithPasskey({ credential, remember });
+
+          if (response.status === 'error' || !response.body) {
+            const error = describeError(response, 'LOGIN_FAILED');
+            set({ isLoading: false, error });
+            return { success: false, error };
+          }
+
+          set({
+            user: startSession(response.body, remember),
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+          });
+
+          return { success: true };
+        } catch (error) {
+          const authError = describeError(error, 'NETWORK_ERROR');
           set({ isLoading: false, error: authError });
           return { success: false, error: authError };
         }
       },
 
       // Improved logout action
-      logout: async () => {
+      logout: async (options?: LogoutOptions) => {
         set({ isLoading: true, error: null });
 
         try {
           // Call logout API (don't wait for response)
-          authLogout().catch(console.error);
+          authLogout(options).catch(console.error);
         } catch (error) {
           console.error('Logout API error:', error);
         } finally {
-          // Always clear state and tokens
+          // Always clear state and tokens, in every tab
           removeClientAuthToken();
+          authSync.publish({ type: 'logout', backendId: getActiveBackend().id, expired: false });
           set({
             user: null,
             isAuthenticated: false,
@@ -152,6 +279,21 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
+      // Clear the local session without calling the logout API
+      // (used when the token can no longer be refreshed)
+      clearSession: () => {
+        removeClientAuthToken();
+        set({
+          user: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: describeError({
+            code: 'SESSION_EXPIRED',
+            message: 'Your session has expired, please sign in again',
+          }),
+        });
+      },
+
       // Enhanced user refresh with better error handling
       refreshUser: async () => {
         const { initialized } = get();
@@ -160,12 +302,10 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true, error: null });
 
         try {
-          // Check for stored token
-          const stored =
-            localStorage.getItem('access_token') ||
-            sessionStorage.getItem('access_token');
+          // Check for stored token (Direct mode); in BFF mode only the server can tell
+          const stored = getClientAuthToken();
 
-          if (!stored || isTokenExpired(stored)) {
+          if (!isBffMode() && (!stored || isTokenExpired(stored))) {
             set({
               user: null,
               isAuthenticated: false,
@@ -195,6 +335,9 @@ export const useAuthStore = create<AuthState>()(
               isAuthenticated: true,
               isLoading: false,
             });
+            if (response.body) {
+              authSync.publish({ type: 'user', backendId: getActiveBackend().id, user: response.body });
+            }
           }
         } catch (error) {
           console.error('Error refreshing user:', error);
@@ -204,10 +347,10 @@ export const useAuthStore = create<AuthState>()(
             user: null,
             isAuthenticated: false,
             isLoading: false,
-            error: {
+            error: describeError({
               code: 'REFRESH_FAILED',
               message: 'Failed to refresh user session',
-            },
+            }),
           });
         }
       },
@@ -219,11 +362,10 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         
         try {
-          const stored =
-            localStorage.getItem('access_token') ||
-            sessionStorage.getItem('access_token');
+          const stored = getClientAuthToken();
 
-          if (stored && !isTokenExpired(stored)) {
+          // In BFF mode the session lives in HttpOnly cookies, so ask the server
+          if (isBffMode() || (stored && !isTokenExpired(stored))) {
             // Try to get user info
             try {
               const response = await API.auth.getCurrentUser();
@@ -283,6 +425,9 @@ export const useAuthStore = create<AuthState>()(
           user,
           isAuthenticated: user !== null,
         });
+        if (user) {
+          authSync.publish({ type: 'user', backendId: getActiveBackend().id, user });
+        }
       },
 
       // Check authentication status
@@ -301,6 +446,9 @@ export const useAuthStore = create<AuthState>()(
   )
 );
 
+// Clear the store whenever the API client gives up on refreshing the token
+setSessionExpiredHandler(() => useAuthStore.getState().clearSession());
+
 // Enhanced custom hook for easier usage
 export function useAuth() {
   const auth = useAuthStore();
@@ -312,10 +460,15 @@ export function useAuth() {
     isAuthenticated: auth.isAuthenticated,
     error: auth.error,
     initialized: auth.initialized,
+    mfaChallenge: auth.mfaChallenge,
     
     // Actions
     login: auth.login,
+    verifyMfa: auth.verifyMfa,
+    cancelMfa: auth.cancelMfa,
+    loginWithPasskey: auth.loginWithPasskey,
     logout: auth.logout,
+    clearSession: auth.clearSession,
     refreshUser: auth.refreshUser,
     initialize: auth.initialize,
     clearError: auth.clearError,
@@ -0,0 +1,48 @@
+/**
+ * Backend selection hook
+ * Which exchange backend this browser operates, and switching to another
+ * one with its own session
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { switchBackend } from '@/lib/api';
+import { BackendConfig, backends, getActiveBackend, subscribeBackend } from '@/lib/backends';
+import { useAuthStore } from '@/hooks/use-auth';
+
+export function useBackend() {
+  const queryClient = useQueryClient();
+  // Start from the default the server renders with; the stored choice is only
+  // known in the browser and is read after mount to keep hydration stable
+  const [backend, setBackend] = useState<BackendConfig>(backends[0]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setBackend(getActiveBackend());
+    setIsLoaded(true);
+    return subscribeBackend(setBackend);
+  }, []);
+
+  const select = useCallback(
+    async (id: string) => {
+      if (id === getActiveBackend().id) return;
+
+      switchBackend(id);
+      // Nothing cached from the previous backend may show up on this one
+      queryClient.clear();
+      await useAuthStore.getState().initialize();
+    },
+    [queryClient]
+  );
+
+  return {
+    backend,
+    // false until the stored choice is read; backend is only the default until then
+    isLoaded,
+    backends,
+    isMultiBackend: backends.length > 1,
+    switchBackend: select,
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Error message hook
+ * Turns an error described by the catalog in lib/api/errors into text in the
+ * current locale, falling back to the server's message for unknown keys
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+import type { CatalogedError } from '@/lib/api';
+
+export function useErrorMessage() {
+  const t = useTranslations();
+
+  return useCallback(
+    (error: CatalogedError | null | undefined): string =>
+      error ? t(error.key, { default: error.message }) : '',
+    [t]
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Streaming export hook
+ * Streams orders, audit logs or users into a file with progress and
+ * cancellation, applying the caller's columns and filters
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  API,
+  exportFileName,
+  openExportSink,
+  saveExport,
+  ApiResponse,
+  AuditLogFilters,
+  ExportProgress,
+  ExportRequest,
+  ExportResource,
+  OrderFilters,
+  SavedExport,
+  StreamOptions,
+  UserFilters,
+} from '@/lib/api';
+
+// Filters each resource's export accepts, the same as its list
+export interface ExportFilters {
+  orders: OrderFilters;
+  'audit-logs': AuditLogFilters;
+  users: UserFilters;
+}
+
+type Streamer<F> = (request: ExportRequest<F>, options?: StreamOptions) => Promise<ApiResponse<Response>>;
+
+const STREAMERS: { [R in ExportResource]: Streamer<ExportFilters[R]> } = {
+  orders: (request, options) => API.orders.streamExport(request, options),
+  'audit-logs': (request, options) => API.system.streamAuditLogExport(request, options),
+  users: (request, options) => API.users.streamExport(request, options),
+};
+
+export type ExportState =
+  | { status: 'idle' }
+  | { status: 'running'; fileName: string; progress: ExportProgress }
+  | { status: 'done'; result: SavedExport }
+  | { status: 'cancelled' }
+  | { status: 'error'; error: { code: string; message: string } };
+
+export function useStreamingExport() {
+  const [state, setState] = useState<ExportState>({ status: 'idle' });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running export when the component goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Call straight from a click handler: the save dialog needs the user gesture
+   */
+  const start = useCallback(async <R extends ExportResource>(resource: R, request: ExportRequest<ExportFilters[R]>) => {
+    controllerRef.current?.abort();
+
+    const fileName = exportFileName(resource, request.format, request.filters);
+    const sink = await openExportSink(fileName, request.format);
+    if (!sink) return; // save dialog dismissed
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ status: 'running', fileName, progress: { rows: 0, bytes: 0 } });
+
+    try {
+      const streamer = STREAMERS[resource] as Streamer<ExportFilters[R]>;
+      const response = await streamer(request, { signal: controller.signal });
+      if (response.status === 'error' || !response.body) {
+        await sink.abort();
+        setState({ status: 'error', error: response.error ?? { code: 'EXPORT_FAILED', message: 'Export failed' } });
+        return;
+      }
+
+      const saved = await saveExport(response.body, sink, {
+        fileName,
+        signal: controller.signal,
+        onProgress: (progress) => setState({ status: 'running', fileName, progress }),
+      });
+
+      if (saved.status === 'success') {
+        setState({ status: 'done', result: saved.body! });
+      } else if (saved.error?.code === 'ABORTED') {
+        setState({ status: 'cancelled' });
+      } else {
+        setState({ status: 'error', error: saved.error! });
+      }
+    } catch (error) {
+      // ApiClient throws on transport failures, including cancellation before headers
+      await sink.abort().catch(() => undefined);
+      if (controller.signal.aborted) {
+        setState({ status: 'cancelled' });
+      } else {
+        setState({
+          status: 'error',
+          error: { code: 'EXPORT_FAILED', message: error instanceof Error ? error.message : 'Export failed' },
+        });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { state, start, cancel, isRunning: state.status === 'running' };
+}
@@ -0,0 +1,135 @@
+/**
+ * Idle timeout hook
+ * Tracks the admin's activity and reports when the session is about to be
+ * ended for inactivity. Activity is shared between tabs, so working in one
+ * tab keeps the others signed in.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useBackend } from '@/hooks/use-backend';
+import { scopedName } from '@/lib/backends';
+
+const LAST_ACTIVITY_KEY = 'last_activity';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+// Record activity at most this often; mousemove fires far more frequently
+const ACTIVITY_THROTTLE = 1000;
+
+const TICK_INTERVAL = 1000;
+
+interface IdleTimeoutOptions {
+  /** Inactivity allowed before onTimeout, in ms; null disables tracking */
+  timeout: number | null;
+  /** How long before the timeout the warning is shown, in ms */
+  warningTime: number;
+  onTimeout: () => void;
+}
+
+interface IdleTimeoutState {
+  /** True while the countdown warning should be shown */
+  warning: boolean;
+  /** Ms left until the timeout while warning, otherwise null */
+  remaining: number | null;
+  /** Mark the admin as active again, dismissing the warning */
+  reset: () => void;
+}
+
+function readSharedActivity(key: string): number {
+  try {
+    return Number(localStorage.getItem(key)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivity(key: string, at: number): void {
+  try {
+    localStorage.setItem(key, String(at));
+  } catch {
+    // Storage unavailable; this tab still tracks its own activity
+  }
+}
+
+export function useIdleTimeout({ timeout, warningTime, onTimeout }: IdleTimeoutOptions): IdleTimeoutState {
+  const { backend } = useBackend();
+  const storageKey = scopedName(LAST_ACTIVITY_KEY, backend.id);
+
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const warningRef = useRef(false);
+  const timedOut = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const markActive = useCallback(() => {
+    const now = Date.now();
+    lastActivity.current = now;
+    warningRef.current = false;
+    setRemaining(null);
+    writeSharedActivity(storageKey, now);
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (timeout === null) {
+      return;
+    }
+
+    timedOut.current = false;
+    markActive();
+
+    const check = () => {
+      if (timedOut.current) {
+        return;
+      }
+      const last = Math.max(lastActivity.current, readSharedActivity(storageKey));
+      const left = last + timeout - Date.now();
+
+      if (left <= 0) {
+        timedOut.current = true;
+        warningRef.current = false;
+        setRemaining(null);
+        onTimeoutRef.current();
+      } else if (left <= warningTime) {
+        warningRef.current = true;
+        setRemaining(left);
+      } else if (warningRef.current) {
+        // Another tab saw activity; drop the warning here too
+        warningRef.current = false;
+        setRemaining(null);
+      }
+    };
+
+    let throttledUntil = 0;
+    const handleActivity = () => {
+      // Once warned, only the dialog's explicit confirmation counts
+      if (warningRef.current || Date.now() < throttledUntil) {
+        return;
+      }
+      throttledUntil = Date.now() + ACTIVITY_THROTTLE;
+      markActive();
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        // A tab returning after the timeout must not count as activity
+        check();
+        handleActivity();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const interval = window.setInterval(check, TICK_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.clearInterval(interval);
+    };
+  }, [timeout, warningTime, storageKey, markActive]);
+
+  return { warning: remaining !== null, remaining, reset: markActive };
+}
@@ -0,0 +1,97 @@
+/**
+ * Network status and mutation outbox hooks
+ * Show whether the exchange is reachable, list queued actions and replay
+ * them once the connection is back
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { networkMonitor, outbox, NetworkState, OutboxEntry } from '@/lib/api';
+import { useAuth } from '@/hooks/use-auth';
+import { useBackend } from '@/hooks/use-backend';
+import { scopedName } from '@/lib/backends';
+
+// How often to probe with a replay while the OS is online but requests fail
+const UNREACHABLE_RETRY_INTERVAL = 15000;
+
+export function useNetworkStatus(): NetworkState {
+  const [state, setState] = useState<NetworkState>(networkMonitor.state);
+
+  useEffect(() => {
+    networkMonitor.start();
+    setState(networkMonitor.state);
+    return networkMonitor.subscribe(setState);
+  }, []);
+
+  return state;
+}
+
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => outbox.list());
+
+  useEffect(() => {
+    const unsubscribe = outbox.subscribe(setEntries);
+    outbox.load().then(setEntries, () => undefined);
+    return unsubscribe;
+  }, []);
+
+  const retry = useCallback((id: string) => outbox.retry(id), []);
+  const discard = useCallback((id: string) => outbox.discard(id), []);
+  const flush = useCallback(() => outbox.flush(), []);
+
+  return {
+    entries,
+    pending: entries.filter((entry) => entry.status === 'pending' || entry.status === 'sending').length,
+    failed: entries.filter((entry) => entry.status === 'failed').length,
+    conflicted: entries.filter((entry) => entry.status === 'conflict').length,
+    retry,
+    discard,
+    flush,
+  };
+}
+
+/**
+ * Keep the outbox bound to the signed-in user on the active backend and
+ * replay it on reconnect; mount once, in the protected layout
+ */
+export function useOutboxSync(): void {
+  const { user } = useAuth();
+  const { backend, isLoaded } = useBackend();
+  const queryClient = useQueryClient();
+  const state = useNetworkStatus();
+  // User ids are only unique per backend; until the stored backend is known
+  // there is no owner, so nothing is replayed for the default one by mistake
+  const userId = user && isLoaded ? scopedName(user.id, backend.id) : null;
+
+  useEffect(() => {
+    outbox.setOwner(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const replay = async () => {
+      try {
+        const queued = (await outbox.load()).length;
+        await outbox.flush();
+        // Replayed actions changed server data the cached queries predate
+        if (outbox.list().length < queued) {
+          await queryClient.invalidateQueries();
+        }
+      } catch (error) {
+        console.error('Outbox replay error:', error);
+      }
+    };
+
+    if (state === 'online') {
+      replay();
+      return;
+    }
+    if (state === 'unreachable') {
+      const intervalId = setInterval(replay, UNREACHABLE_RETRY_INTERVAL);
+      return () => clearInterval(intervalId);
+    }
+  }, [state, userId, queryClient]);
+}
@@ -0,0 +1,82 @@
+/**
+ * Rate-limit hook
+ * Follows the quota the server reports for an endpoint so table views and
+ * bulk tools can throttle themselves and show when requests resume
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clientFor, rateLimitBucket, RateLimiter, RateLimitState } from '@/lib/api';
+import { useBackend } from '@/hooks/use-backend';
+
+export interface RateLimitStatus {
+  bucket?: string;
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  isLimited: boolean; // requests to the bucket are being held back
+  retryIn: number; // whole seconds until requests resume, 0 when not limited
+  waiting: number; // requests queued behind the limit
+}
+
+function toStatus(
+  rateLimiter: RateLimiter,
+  bucket: string | undefined,
+  state: RateLimitState | undefined
+): RateLimitStatus {
+  const delay = bucket ? rateLimiter.delayFor(bucket) : 0;
+  return {
+    bucket,
+    limit: state?.limit,
+    remaining: state?.remaining,
+    resetAt: state?.resetAt,
+    isLimited: delay > 0,
+    retryIn: Math.ceil(delay / 1000),
+    waiting: state?.waiting ?? 0,
+  };
+}
+
+// Without an endpoint: the bucket that stays closed the longest, if any
+function currentStatus(rateLimiter: RateLimiter, bucket?: string): RateLimitStatus {
+  if (bucket) {
+    return toStatus(rateLimiter, bucket, rateLimiter.get(bucket));
+  }
+
+  const [longest] = rateLimiter
+    .entries()
+    .filter(([name]) => rateLimiter.delayFor(name) > 0)
+    .sort(([a], [b]) => rateLimiter.delayFor(b) - rateLimiter.delayFor(a));
+  return longest ? toStatus(rateLimiter, longest[0], longest[1]) : toStatus(rateLimiter, undefined, undefined);
+}
+
+/**
+ * Quota of the endpoint's bucket, e.g. useRateLimit('/v1/orders'); omit the
+ * endpoint to follow whichever bucket is currently limited
+ */
+export function useRateLimit(endpoint?: string): RateLimitStatus {
+  const bucket = endpoint ? rateLimitBucket(endpoint) : undefined;
+  // Quotas are tracked per backend, by that backend's client
+  const { backend } = useBackend();
+  const rateLimiter = clientFor(backend).rateLimiter;
+  const [status, setStatus] = useState<RateLimitStatus>(() => currentStatus(rateLimiter, bucket));
+
+  useEffect(() => {
+    setStatus(currentStatus(rateLimiter, bucket));
+    return rateLimiter.subscribe((changed) => {
+      if (!bucket || changed === bucket) {
+        setStatus(currentStatus(rateLimiter, bucket));
+      }
+    });
+  }, [rateLimiter, bucket]);
+
+  // Count down while limited; the bucket reopens without a notification
+  useEffect(() => {
+    if (!status.isLimited) return;
+
+    const intervalId = setInterval(() => setStatus(currentStatus(rateLimiter, bucket)), 1000);
+    return () => clearInterval(intervalId);
+  }, [rateLimiter, bucket, status.isLimited]);
+
+  return status;
+}
@@ -0,0 +1,10 @@
+const nextJest = require('next/jest');
+
+// Compiles TypeScript with Next's SWC setup and resolves the @/ path alias
+const createJestConfig = nextJest({ dir: './' });
+
+module.exports = createJestConfig({
+  // Unit tests cover lib/ code; a test needing a DOM opts in with @jest-environment jsdom
+  testEnvironment: 'node',
+  testMatch: ['**/*.test.ts', '**/*.test.tsx'],
+});
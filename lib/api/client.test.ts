@@ -0,0 +1,239 @@
+import { getBackend } from '@/lib/backends';
+import { ApiClient, setSessionExpiredHandler } from './client';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+
+// Runs in BFF mode (the default): tokens live in HttpOnly cookies and a
+// refresh is a bare POST to /api/auth/refresh
+
+type Route = (init: RequestInit) => Response | Promise<Response>;
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+const ok = (data: unknown) => json(200, { success: true, data });
+const unauthorized = () => json(401, { status: 'error', error: { code: 'UNAUTHORIZED', message: 'Token expired' } });
+
+/**
+ * Stub fetch with one queue of answers per "METHOD url"; the last answer repeats
+ */
+function stubFetch(routes: Record<string, Route[]>) {
+  const fetchMock = jest.fn(async (url: string, init: RequestInit = {}) => {
+    const queue = routes[`${init.method ?? 'GET'} ${url}`];
+    if (!queue) throw new Error(`Unexpected request: ${init.method} ${url}`);
+    const route = queue.length > 1 ? queue.shift()! : queue[0];
+    return route(init);
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+
+  const calls = () => fetchMock.mock.calls.map(([url, init]) => `${init?.method} ${url}`);
+  const headers = (index: number) => fetchMock.mock.calls[index][1]?.headers as Record<string, string>;
+  return { fetchMock, calls, headers };
+}
+
+describe('ApiClient', () => {
+  const originalFetch = global.fetch;
+  let client: ApiClient;
+  let onSessionExpired: jest.Mock;
+
+  beforeEach(() => {
+    client = new ApiClient(getBackend());
+    onSessionExpired = jest.fn();
+    setSessionExpiredHandler(onSessionExpired);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    setSessionExpiredHandler(null);
+  });
+
+  describe('token refresh', () => {
+    it('refreshes after a 401 and replays the request once', async () => {
+      const { calls } = stubFetch({
+        'GET /api/users/1': [unauthorized, () => ok({ id: '1' })],
+        'POST /api/auth/refresh': [() => ok({ expiresIn: 900 })],
+      });
+
+      const response = await client.get('/users/1');
+
+      expect(response).toMatchObject({ status: 'success', body: { id: '1' }, meta: { httpStatus: 200 } });
+      expect(calls()).toEqual(['GET /api/users/1', 'POST /api/auth/refresh', 'GET /api/users/1']);
+      expect(onSessionExpired).not.toHaveBeenCalled();
+    });
+
+    it('shares one refresh between concurrent requests', async () => {
+      let finishRefresh: () => void = () => undefined;
+      const refreshed = new Promise<Response>((resolve) => {
+        finishRefresh = () => resolve(ok({ expiresIn: 900 }));
+      });
+      const { calls } = stubFetch({
+        'GET /api/users/1': [unauthorized, () => ok({ id: '1' })],
+        'GET /api/orders/2': [unauthorized, () => ok({ id: '2' })],
+        'POST /api/auth/refresh': [() => refreshed],
+      });
+
+      const pending = Promise.all([client.get('/users/1'), client.get('/orders/2')]);
+      // Let both requests hit their 401 before the refresh answers
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      finishRefresh();
+      const [user, order] = await pending;
+
+      expect(user.body).toEqual({ id: '1' });
+      expect(order.body).toEqual({ id: '2' });
+      expect(calls().filter((call) => call === 'POST /api/auth/refresh')).toHaveLength(1);
+    });
+
+    it('shares the refresh between clients of the same backend', async () => {
+      const { calls } = stubFetch({ 'POST /api/auth/refresh': [() => ok({ expiresIn: 900 })] });
+      const other = new ApiClient(getBackend());
+
+      await Promise.all([client.refreshSession(), other.refreshSession()]);
+
+      expect(calls()).toEqual(['POST /api/auth/refresh']);
+    });
+
+    it('replays a mutation with the same idempotency key', async () => {
+      const { headers } = stubFetch({
+        'POST /api/orders/1/cancel': [unauthorized, () => ok({ id: '1' })],
+        'POST /api/auth/refresh': [() => ok({ expiresIn: 900 })],
+      });
+
+      await client.post('/orders/1/cancel');
+
+      expect(headers(0)[IDEMPOTENCY_KEY_HEADER]).toBeTruthy();
+      expect(headers(2)[IDEMPOTENCY_KEY_HEADER]).toBe(headers(0)[IDEMPOTENCY_KEY_HEADER]);
+    });
+
+    it('replays only once when the new token is rejected too', async () => {
+      const { calls } = stubFetch({
+        'GET /api/users/1': [unauthorized],
+        'POST /api/auth/refresh': [() => ok({ expiresIn: 900 })],
+      });
+
+      const response = await client.get('/users/1');
+
+      expect(response).toMatchObject({ status: 'error', error: { code: 'UNAUTHORIZED' }, meta: { httpStatus: 401 } });
+      expect(calls()).toEqual(['GET /api/users/1', 'POST /api/auth/refresh', 'GET /api/users/1']);
+    });
+
+    it('ends the session when the refresh is rejected', async () => {
+      const { calls } = stubFetch({
+        'GET /api/users/1': [unauthorized],
+        'POST /api/auth/refresh': [
+          () => json(401, { status: 'error', error: { code: 'INVALID_REFRESH_TOKEN', message: 'Gone' } }),
+        ],
+      });
+
+      const response = await client.get('/users/1');
+
+      expect(response.error?.code).toBe('UNAUTHORIZED');
+      expect(calls()).toEqual(['GET /api/users/1', 'POST /api/auth/refresh']);
+      expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the session when the refresh fails on the server', async () => {
+      stubFetch({
+        'GET /api/users/1': [unauthorized],
+        'POST /api/auth/refresh': [
+          () => json(503, { status: 'error', error: { code: 'UPSTREAM_UNAVAILABLE', message: 'Down' } }),
+        ],
+      });
+
+      await client.get('/users/1');
+
+      expect(onSessionExpired).not.toHaveBeenCalled();
+    });
+
+    it('does not refresh for requests that skip auth', async () => {
+      const { calls } = stubFetch({ 'POST /api/auth/login': [unauthorized] });
+
+      await client.post('/auth/login', {}, { skipAuth: true });
+
+      expect(calls()).toEqual(['POST /api/auth/login']);
+    });
+  });
+
+  describe('responses', () => {
+    it('unwraps the { data } envelope, keeping a falsy body', async () => {
+      stubFetch({ 'GET /api/flags': [() => json(200, { data: 0, message: 'ok' })] });
+
+      expect(await client.get('/flags')).toMatchObject({ status: 'success', body: 0, message: 'ok' });
+    });
+
+    it('passes the BFF error envelope through', async () => {
+      stubFetch({
+        'GET /api/users/1': [() => json(404, { status: 'error', error: { code: 'NOT_FOUND', message: 'Gone' } })],
+      });
+
+      expect((await client.get('/users/1')).error).toEqual({ code: 'NOT_FOUND', message: 'Gone' });
+    });
+
+    it('falls back to the HTTP status when the error answer has no readable fields', async () => {
+      stubFetch({ 'GET /api/markets': [() => json(500, ['unexpected'])] });
+
+      expect((await client.get('/markets')).error).toMatchObject({
+        code: 'HTTP_ERROR',
+        message: expect.stringMatching(/^HTTP 500/),
+      });
+    });
+  });
+
+  describe('retries', () => {
+    const retry = { retries: 2, baseDelay: 0 };
+
+    it('retries a read on a retryable status', async () => {
+      const { calls } = stubFetch({
+        'GET /api/markets': [() => json(503, { message: 'Busy' }), () => ok([])],
+      });
+
+      const response = await client.get('/markets', undefined, { retry });
+
+      expect(response.status).toBe('success');
+      expect(calls()).toHaveLength(2);
+    });
+
+    it('gives up after the policy runs out and returns the last answer', async () => {
+      const { calls } = stubFetch({ 'GET /api/markets': [() => json(503, { message: 'Busy' })] });
+
+      const response = await client.get('/markets', undefined, { retry });
+
+      expect(response.meta?.httpStatus).toBe(503);
+      expect(calls()).toHaveLength(3);
+    });
+
+    it('never retries a POST sent without an idempotency key', async () => {
+      const { calls } = stubFetch({ 'POST /api/orders': [() => json(503, { message: 'Busy' })] });
+
+      await client.post('/orders', {}, { retry, idempotencyKey: false });
+
+      expect(calls()).toHaveLength(1);
+    });
+
+    it('retries network errors and throws NETWORK_ERROR when they persist', async () => {
+      const { calls } = stubFetch({
+        'GET /api/markets': [
+          () => {
+            throw new TypeError('fetch failed');
+          },
+        ],
+      });
+
+      await expect(client.get('/markets', undefined, { retry })).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+      expect(calls()).toHaveLength(3);
+    });
+
+    it('sends a request turned away with 429 again once Retry-After has passed', async () => {
+      const { calls } = stubFetch({
+        'POST /api/orders': [
+          () => json(429, { code: 'RATE_LIMITED', message: 'Slow down' }, { 'Retry-After': '0' }),
+          () => ok({ id: '1' }),
+        ],
+      });
+
+      const response = await client.post('/orders', {}, { retry: false, idempotencyKey: false });
+
+      expect(response.body).toEqual({ id: '1' });
+      expect(calls()).toHaveLength(2);
+    });
+  });
+});
@@ -3,48 +3,163 @@
  * Provides unified HTTP request methods and error handling
  */
 
-import { env } from '@/lib/env';
-import { getClientAuthToken } from '@/lib/auth';
-import { ApiResponse } from './types';
+import { env, isDevelopment, isMockApi } from '@/lib/env';
+import { BACKEND_HEADER, BackendConfig, getActiveBackend } from '@/lib/backends';
+import {
+  getClientAuthToken,
+  getClientRefreshToken,
+  setClientAuthToken,
+  setClientRefreshToken,
+  removeClientAuthToken,
+  isRememberedSession,
+  isTokenExpired,
+  shouldRefreshToken,
+} from '@/lib/auth';
+import { authSync } from '@/lib/auth-sync';
+import { ApiResponse, RefreshTokenData, ResponseMeta, UploadSession } from './types';
+import {
+  RetryOption,
+  resolveRetryPolicy,
+  canRetryRequest,
+  isRetryableErrorCode,
+  getBackoffDelay,
+  waitForRetry,
+} from './retry';
+import { InterceptorChain, RequestContext } from './interceptors';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER, resolveIdempotencyKey } from './idempotency';
+import type { OutboxOptions } from './outbox';
+import { MAX_RATE_LIMIT_RETRIES, MAX_RATE_LIMIT_WAIT, RateLimiter, rateLimitBucket } from './rate-limit';
+import { QueryValues, QuerySerializer, serializeQuery } from './query';
+import {
+  DEFAULT_CHUNK_RETRIES,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_CHUNK_THRESHOLD,
+  UPLOAD_TIMEOUT,
+  UploadConstraints,
+  UploadProgressHandler,
+  createProgress,
+  getResumableUploadId,
+  rememberResumableUpload,
+  validateUpload,
+  xhrTransport,
+} from './upload';
+import { Schema, refreshTokenDataSchema, uploadSessionSchema } from './schemas';
 
 export class ApiError extends Error {
   constructor(
     public status: number,
     public code: string,
     message: string,
-    public details?: any
+    public details?: unknown
   ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
-export interface RequestOptions {
+export interface RequestOptions<T = unknown> {
   headers?: Record<string, string>;
   timeout?: number;
   skipAuth?: boolean;
   signal?: AbortSignal;
+  retry?: RetryOption;
+  // Mutating requests get a generated key unless one is given; false sends none
+  idempotencyKey?: string | false;
+  schema?: Schema<T>; // validates the response body at runtime
+  onUploadProgress?: UploadProgressHandler; // switches the transport to XMLHttpRequest
+  outbox?: OutboxOptions; // queue the mutation for replay instead of failing while offline
+}
+
+// Options the mutating service methods pass through to ApiClient
+export type MutationOptions = Pick<RequestOptions, 'idempotencyKey' | 'signal' | 'outbox'>;
+
+export interface UploadOptions<T = unknown> extends Omit<RequestOptions<T>, 'skipAuth' | 'onUploadProgress'> {
+  onProgress?: UploadProgressHandler;
+  constraints?: UploadConstraints; // checked before anything is sent
+  chunkThreshold?: number; // files above this size go up as resumable chunks
+  chunkSize?: number;
+}
+
+// Options for ApiClient.stream(); the body is never parsed, so no schema
+export type StreamOptions = Omit<RequestOptions<Response>, 'schema' | 'onUploadProgress'>;
+
+interface InternalRequestOptions<T = unknown> extends RequestOptions<T> {
+  body?: unknown;
+  stream?: boolean; // hand back the successful Response unread
+}
+
+// Bodies that go on the wire as they are instead of as JSON
+function isRawBody(body: unknown): body is FormData | Blob {
+  return (
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob)
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// A string field of a parsed answer, or undefined when it is anything else
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+type ApiErrorBody = NonNullable<ApiResponse['error']>;
+
+type RefreshResult = 'refreshed' | 'rejected' | 'failed';
+
+/**
+ * Session endpoints are served by the BFF's own route handlers in BFF mode
+ * (app/api/auth), which keep the tokens in HttpOnly cookies
+ */
+export function getSessionEndpoint(
+  action: 'login' | 'logout' | 'refresh' | 'me' | 'mfa/verify' | 'passkeys/login'
+): string {
+  return env.NEXT_PUBLIC_AUTH_MODE === 'BFF' ? `/auth/${action}` : `/v1/auth/${action}`;
+}
+
+// Refresh state is shared by every ApiClient instance of a backend so that all
+// services park behind the same in-flight refresh instead of refreshing in parallel
+const refreshPromises = new Map<string, Promise<boolean>>();
+let sessionExpiredHandler: (() => void) | null = null;
+
+/**
+ * Register the callback invoked when the active backend's session cannot be
+ * refreshed. The auth store uses this to clear itself in one place.
+ */
+export function setSessionExpiredHandler(handler: (() => void) | null): void {
+  sessionExpiredHandler = handler;
 }
 
 export class ApiClient {
+  readonly backend: BackendConfig;
   private baseUrl: string;
   private defaultTimeout: number = 10000;
-
-  constructor(baseUrl?: string) {
-    this.baseUrl = baseUrl || this.getBaseUrl();
+  readonly interceptors = new InterceptorChain();
+  readonly rateLimiter = new RateLimiter();
+  // Turns GET params into the query string; swap it for backends that expect another format
+  querySerializer: QuerySerializer = serializeQuery;
+
+  constructor(backend: BackendConfig = getActiveBackend()) {
+    this.backend = backend;
+    this.baseUrl = this.getBaseUrl();
   }
 
   private getBaseUrl(): string {
-    return env.NEXT_PUBLIC_AUTH_MODE === 'BFF' ? '/api' : env.NEXT_PUBLIC_EXCHANGE_API_BASE_URL;
+    return env.NEXT_PUBLIC_AUTH_MODE === 'BFF' ? '/api' : this.backend.baseUrl;
   }
 
-  private getDefaultHeaders(skipAuth: boolean = false): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+  // The BFF serves every backend under /api and routes by this header
+  private getBackendHeaders(): Record<string, string> {
+    return env.NEXT_PUBLIC_AUTH_MODE === 'BFF' ? { [BACKEND_HEADER]: this.backend.id } : {};
+  }
+
+  private getAuthHeaders(skipAuth: boolean = false): Record<string, string> {
+    const headers: Record<string, string> = {};
 
     if (!skipAuth && env.NEXT_PUBLIC_AUTH_MODE === 'DIRECT') {
-      const token = getClientAuthToken();
+      const token = getClientAuthToken(this.backend.id);
       if (token) {
         headers.Authorization = `Bearer ${token}`;
       }
@@ -54,10 +169,10 @@ export class ApiClient {
   }
 
   private async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
-    let data: any;
-    
+    let payload: unknown;
+
     try {
-      data = await response.json();
+      payload = await response.json();
     } catch (error) {
       return {
         status: 'error',
@@ -68,12 +183,20 @@ export class ApiClient {
       };
     }
 
+    // Fields of an object answer; arrays and scalars have none to read
+    const data = isRecord(payload) ? payload : {};
+
     if (!response.ok) {
+      // The BFF proxy already answers errors in the ApiResponse envelope
+      if (data.status === 'error' && isRecord(data.error) && typeof data.error.code === 'string') {
+        return { status: 'error', error: data.error as ApiErrorBody };
+      }
+
       return {
         status: 'error',
         error: {
-          code: data.code || 'HTTP_ERROR',
-          message: data.message || `HTTP ${response.status} ${response.statusText}`,
+          code: text(data.code) || 'HTTP_ERROR',
+          message: text(data.message) || `HTTP ${response.status} ${response.statusText}`,
           details: data.errors || data.details
         }
       };
@@ -85,157 +208,622 @@ export class ApiClient {
         status: 'error',
         error: {
           code: 'API_ERROR',
-          message: data.message || 'API request failed',
-          details: data
+          message: text(data.message) || 'API request failed',
+          details: payload
         }
       };
     }
 
+    // Unwrap the { data } envelope when present; a falsy data field is still the body.
+    // The body is checked against the request's schema, if any, in validateResponse()
+    const isEnvelope = 'data' in data;
+
     return {
       status: 'success',
-      body: data.data || data, // Use data field if available, otherwise use full response
-      message: data.message
+      body: (isEnvelope ? data.data : payload) as T,
+      message: isEnvelope ? text(data.message) : undefined
     };
   }
 
-  private async request<T>(
-    method: string,
-    endpoint: string,
-    options: RequestOptions & { body?: any } = {}
-  ): Promise<ApiResponse<T>> {
-    const { headers = {}, timeout = this.defaultTimeout, skipAuth = false, body, signal } = options;
+  /**
+   * Check a successful body against the request's schema and turn a
+   * mismatch into a VALIDATION_ERROR response
+   */
+  private validateResponse<T>(response: ApiResponse<T>, context: RequestContext): ApiResponse<T> {
+    const schema = context.options.schema;
+    if (!schema || response.status !== 'success') {
+      return response;
+    }
+
+    const result = schema.safeParse(response.body);
+    if (result.success) {
+      // The context carries this request's options, so the schema is the one for T
+      return { ...response, body: result.data as T };
+    }
 
-    const url = `${this.baseUrl}${endpoint}`;
-    const requestHeaders = {
-      ...this.getDefaultHeaders(skipAuth),
-      ...headers,
+    const issues = result.error.issues.map((issue) => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    }));
+    const [first] = issues;
+
+    if (isDevelopment) {
+      console.error(
+        `❌ Response validation failed for ${context.method} ${context.endpoint}:`,
+        issues,
+        response.body
+      );
+    }
+
+    return {
+      status: 'error',
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `Unexpected response from ${context.endpoint} at "${first.path}": ${first.message}`,
+        details: { path: first.path, issues },
+      },
+      meta: response.meta,
     };
+  }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+  /**
+   * Refresh the access token, sharing a single in-flight refresh between
+   * all concurrent callers. Resolves to true when a new token is available.
+   */
+  async refreshSession(): Promise<boolean> {
+    const backendId = this.backend.id;
+    let refreshPromise = refreshPromises.get(backendId);
+    if (!refreshPromise) {
+      refreshPromise = (async () => {
+        try {
+          const result = await this.performRefresh();
+          if (result === 'rejected') {
+            this.expireSession();
+          }
+          return result === 'refreshed';
+        } finally {
+          refreshPromises.delete(backendId);
+        }
+      })();
+      refreshPromises.set(backendId, refreshPromise);
+    }
 
+    return refreshPromise;
+  }
+
+  private async performRefresh(): Promise<RefreshResult> {
+    const isBff = env.NEXT_PUBLIC_AUTH_MODE === 'BFF';
+    const refreshToken = getClientRefreshToken(this.backend.id);
+
+    // In Direct mode there is nothing to refresh with
+    if (!isBff && !refreshToken) {
+      return 'rejected';
+    }
+
+    let response: Response;
     try {
-      const response = await fetch(url, {
-        method,
-        headers: requestHeaders,
-        body: body ? JSON.stringify(body) : undefined,
-        signal: signal || controller.signal,
+      response = await this.transport(`${this.baseUrl}${getSessionEndpoint('refresh')}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.getBackendHeaders() },
+        // In BFF mode the refresh token travels in an HttpOnly cookie
+        body: isBff ? undefined : JSON.stringify({ refreshToken }),
       });
+    } catch (error) {
+      console.error('Token refresh request failed:', error);
+      return 'failed';
+    }
 
-      clearTimeout(timeoutId);
-      return await this.handleResponse<T>(response);
+    const result = await this.handleResponse<RefreshTokenData>(response);
+    if (result.status === 'error') {
+      return response.status >= 500 ? 'failed' : 'rejected';
+    }
+
+    if (!isBff) {
+      const parsed = refreshTokenDataSchema.safeParse(result.body);
+      if (!parsed.success) {
+        return 'rejected';
+      }
+
+      const remember = isRememberedSession(this.backend.id);
+      setClientAuthToken(parsed.data.token, remember, this.backend.id);
+      if (parsed.data.refreshToken) {
+        setClientRefreshToken(parsed.data.refreshToken, remember, this.backend.id);
+      }
+      // The old refresh token is spent; other tabs must continue with this one
+      authSync.publish({
+        type: 'refresh',
+        backendId: this.backend.id,
+        tokens: { accessToken: parsed.data.token, refreshToken: parsed.data.refreshToken, remember },
+      });
+    }
+
+    return 'refreshed';
+  }
+
+  private expireSession(): void {
+    removeClientAuthToken(this.backend.id);
+    authSync.publish({ type: 'logout', backendId: this.backend.id, expired: true });
+    if (this.backend.id === getActiveBackend().id) {
+      sessionExpiredHandler?.();
+    }
+  }
+
+  /**
+   * Refresh ahead of time when the stored token is close to expiry,
+   * so the request below goes out with a valid token (Direct mode)
+   */
+  private async ensureFreshToken(): Promise<void> {
+    if (env.NEXT_PUBLIC_AUTH_MODE !== 'DIRECT') return;
+
+    const token = getClientAuthToken(this.backend.id);
+    if (!token || !shouldRefreshToken(token)) return;
+
+    const refreshed = await this.refreshSession();
+    if (!refreshed && isTokenExpired(token)) {
+      // Let the request go out anyway; the 401 path reports the failure
+      console.warn('Access token expired and could not be refreshed');
+    }
+  }
+
+  /**
+   * fetch(), or the in-process mock backend when NEXT_PUBLIC_MOCK_API is set.
+   * The mock is a separate chunk that is only loaded when the flag is on.
+   * In BFF mode requests still go through /api, whose proxy talks to the mock.
+   * Upload progress needs XMLHttpRequest; the mock reports none.
+   */
+  private async transport(url: string, init: RequestInit, onUploadProgress?: UploadProgressHandler): Promise<Response> {
+    if (isMockApi && env.NEXT_PUBLIC_AUTH_MODE === 'DIRECT') {
+      const { mockFetch } = await import('@/lib/mock');
+      return mockFetch(url, init);
+    }
+    if (onUploadProgress && typeof XMLHttpRequest !== 'undefined') {
+      return xhrTransport(url, init, onUploadProgress);
+    }
+    return fetch(url, init);
+  }
+
+  /**
+   * Send a single attempt with its own timeout and map transport failures to ApiError.
+   * The caller's signal aborts the attempt as well.
+   */
+  private async execute(
+    url: string,
+    init: RequestInit,
+    timeout: number,
+    signal?: AbortSignal,
+    onUploadProgress?: UploadProgressHandler
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await this.transport(
+        url,
+        {
+          ...init,
+          credentials: env.NEXT_PUBLIC_AUTH_MODE === 'BFF' ? 'include' : 'omit',
+          signal: controller.signal,
+        },
+        onUploadProgress
+      );
     } catch (error) {
-      clearTimeout(timeoutId);
-      
       if (error instanceof ApiError) {
         throw error;
       }
 
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
+          if (signal?.aborted) {
+            throw new ApiError(0, 'ABORTED', 'Request aborted');
+          }
           throw new ApiError(408, 'TIMEOUT', 'Request timeout');
         }
         throw new ApiError(0, 'NETWORK_ERROR', error.message);
       }
 
       throw new ApiError(0, 'UNKNOWN_ERROR', 'Unknown error occurred');
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
-  async get<T>(endpoint: string, params?: Record<string, any>, options?: RequestOptions): Promise<ApiResponse<T>> {
-    let url = endpoint;
-    
-    if (params) {
-      const searchParams = new URLSearchParams();
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          searchParams.append(key, String(value));
+  /**
+   * Hold the request back until its rate-limit bucket has quota again
+   */
+  private async acquireQuota(bucket: string, signal?: AbortSignal): Promise<void> {
+    let acquired: boolean;
+    try {
+      acquired = await this.rateLimiter.acquire(bucket, signal);
+    } catch {
+      throw new ApiError(0, 'ABORTED', 'Request aborted');
+    }
+
+    if (!acquired) {
+      const retryAfter = Math.ceil(this.rateLimiter.delayFor(bucket) / 1000);
+      throw new ApiError(429, 'RATE_LIMITED', `Rate limited, retry in ${retryAfter}s`, { bucket, retryAfter });
+    }
+  }
+
+  /**
+   * Run the attempts allowed by the retry policy and return the last response.
+   * A 429 is sent again once its bucket reopens, whatever the method: the
+   * server turned it away without acting on it.
+   */
+  private async executeWithRetry(
+    method: string,
+    url: string,
+    init: RequestInit,
+    options: InternalRequestOptions,
+    bucket: string
+  ): Promise<Response> {
+    const { timeout = this.defaultTimeout, signal, retry, idempotencyKey, onUploadProgress } = options;
+    const policy = resolveRetryPolicy(retry);
+    const retryable = canRetryRequest(method, Boolean(idempotencyKey));
+
+    for (let attempt = 0, rateLimited = 0; ; attempt++) {
+      const hasAttemptsLeft = retryable && attempt < policy.retries;
+
+      try {
+        await this.acquireQuota(bucket, signal);
+        const response = await this.execute(url, init, timeout, signal, onUploadProgress);
+        this.rateLimiter.update(bucket, response);
+
+        if (
+          response.status === 429 &&
+          rateLimited < MAX_RATE_LIMIT_RETRIES &&
+          this.rateLimiter.delayFor(bucket) <= MAX_RATE_LIMIT_WAIT
+        ) {
+          rateLimited++;
+          attempt--; // waiting out the limit does not use up the retry policy
+          continue;
         }
-      });
-      
-      const queryString = searchParams.toString();
-      if (queryString) {
-        url += (url.includes('?') ? '&' : '?') + queryString;
+        if (!hasAttemptsLeft || !policy.retryOn.includes(response.status)) {
+          return response;
+        }
+      } catch (error) {
+        if (!hasAttemptsLeft || !(error instanceof ApiError) || !isRetryableErrorCode(error.code)) {
+          throw error;
+        }
+      }
+
+      try {
+        await waitForRetry(getBackoffDelay(attempt, policy), signal);
+      } catch {
+        throw new ApiError(0, 'ABORTED', 'Request aborted');
       }
     }
-    
-    return this.request<T>('GET', url, options);
   }
 
-  async post<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+  private async request<T>(
+    method: string,
+    endpoint: string,
+    options: InternalRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    const { headers = {}, body } = options;
+    // Resolved once, so retries and the post-refresh replay reuse the same key
+    const idempotencyKey = resolveIdempotencyKey(method, options.idempotencyKey);
+
+    const initialContext: RequestContext = {
+      method,
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      headers: {
+        ...(isRawBody(body) ? {} : { 'Content-Type': 'application/json' }),
+        ...this.getBackendHeaders(),
+        ...(idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {}),
+        ...headers,
+      },
+      body,
+      options: { ...options, idempotencyKey },
+      meta: {},
+    };
+    let context = initialContext;
+
+    try {
+      const result = await this.interceptors.runRequest(initialContext);
+      context = result.context;
+
+      // A short-circuiting hook answers in place of this request, so in its type
+      const response = (result.response as ApiResponse<T> | undefined) ?? (await this.send<T>(context));
+      return await this.interceptors.runResponse<T>(response, context);
+    } catch (error) {
+      const apiError =
+        error instanceof ApiError
+          ? error
+          : new ApiError(0, 'UNKNOWN_ERROR', error instanceof Error ? error.message : 'Unknown error occurred');
+      return this.interceptors.runError<T>(apiError, context);
+    }
+  }
+
+  /**
+   * Put the request on the wire: attach auth, apply the retry policy and
+   * replay once after refreshing an expired token
+   */
+  private async send<T>(context: RequestContext): Promise<ApiResponse<T>> {
+    const { skipAuth = false } = context.options;
+
+    if (!skipAuth) {
+      await this.ensureFreshToken();
+    }
+
+    for (let isReplay = false; ; isReplay = true) {
+      // Read the token on every pass so a replay picks up the refreshed one
+      const requestHeaders = {
+        ...context.headers,
+        ...this.getAuthHeaders(skipAuth),
+      };
+
+      const response = await this.executeWithRetry(
+        context.method,
+        context.url,
+        {
+          method: context.method,
+          headers: requestHeaders,
+          body: isRawBody(context.body) ? context.body : context.body ? JSON.stringify(context.body) : undefined,
+        },
+        context.options,
+        rateLimitBucket(context.endpoint)
+      );
+
+      // Expired or revoked token: refresh once, then replay the original request
+      if (response.status === 401 && !skipAuth && !isReplay && (await this.refreshSession())) {
+        continue;
+      }
+
+      context.httpStatus = response.status;
+      context.responseHeaders = response.headers;
+
+      if ((context.options as InternalRequestOptions).stream && response.ok) {
+        return { status: 'success', body: response as unknown as T };
+      }
+
+      const result = await this.handleResponse<T>(response);
+      return this.validateResponse({ ...result, meta: this.getResponseMeta(response, context) }, context);
+    }
+  }
+
+  private getResponseMeta(response: Response, context: RequestContext): ResponseMeta {
+    const { idempotencyKey } = context.options;
+    const quota = this.rateLimiter.get(rateLimitBucket(context.endpoint));
+
+    return {
+      httpStatus: response.status,
+      ...(idempotencyKey
+        ? { idempotencyKey, replayed: response.headers.get(IDEMPOTENT_REPLAYED_HEADER) === 'true' }
+        : {}),
+      ...(quota ? { rateLimit: { limit: quota.limit, remaining: quota.remaining, resetAt: quota.resetAt } } : {}),
+    };
+  }
+
+  private withQuery(endpoint: string, params?: QueryValues): string {
+    if (!params) return endpoint;
+
+    const queryString = this.querySerializer(params);
+    return queryString ? endpoint + (endpoint.includes('?') ? '&' : '?') + queryString : endpoint;
+  }
+
+  async get<T>(endpoint: string, params?: QueryValues, options?: RequestOptions<T>): Promise<ApiResponse<T>> {
+    return this.request<T>('GET', this.withQuery(endpoint, params), options);
+  }
+
+  /**
+   * GET whose successful answer is handed back as the unread Response, for
+   * bodies too large to buffer (exports). Errors still arrive in the
+   * ApiResponse envelope. The timeout only covers the wait for headers;
+   * cancel a running stream through its reader.
+   */
+  async stream(endpoint: string, params?: QueryValues, options?: StreamOptions): Promise<ApiResponse<Response>> {
+    return this.request<Response>('GET', this.withQuery(endpoint, params), { ...options, stream: true });
+  }
+
+  async post<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<ApiResponse<T>> {
     return this.request<T>('POST', endpoint, { ...options, body });
   }
 
-  async put<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+  async put<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<ApiResponse<T>> {
     return this.request<T>('PUT', endpoint, { ...options, body });
   }
 
-  async patch<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+  async patch<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<ApiResponse<T>> {
     return this.request<T>('PATCH', endpoint, { ...options, body });
   }
 
-  async delete<T>(endpoint: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+  async delete<T>(endpoint: string, options?: RequestOptions<T>): Promise<ApiResponse<T>> {
     return this.request<T>('DELETE', endpoint, options);
   }
 
-  // upload file
+  /**
+   * Upload one or more files as multipart/form-data (field "file"). Files are
+   * validated first; with any file above chunkThreshold every file goes up
+   * as resumable chunks instead, and the endpoint receives
+   * { uploadIds, ...additionalData } as JSON.
+   */
   async upload<T>(
-    endpoint: string, 
-    file: File, 
-    additionalData?: Record<string, any>,
-    options?: Omit<RequestOptions, 'skipAuth'>
+    endpoint: string,
+    files: File | File[],
+    additionalData?: Record<string, unknown>,
+    options: UploadOptions<T> = {}
   ): Promise<ApiResponse<T>> {
+    const {
+      onProgress,
+      constraints,
+      chunkThreshold = DEFAULT_CHUNK_THRESHOLD,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+      ...requestOptions
+    } = options;
+    const list = Array.isArray(files) ? files : [files];
+
+    const invalid = validateUpload(list, constraints);
+    if (invalid) {
+      return invalid;
+    }
+
+    if (list.some((file) => file.size > chunkThreshold)) {
+      return this.uploadChunked<T>(endpoint, list, additionalData, chunkSize, options);
+    }
+
     const formData = new FormData();
-    formData.append('file', file);
-    
+    list.forEach((file) => formData.append('file', file));
+
     if (additionalData) {
       Object.entries(additionalData).forEach(([key, value]) => {
         formData.append(key, String(value));
       });
     }
 
-    const { headers = {}, timeout = this.defaultTimeout, signal } = options || {};
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const requestHeaders = {
-      ...this.getDefaultHeaders(false),
-      ...headers,
-    };
+    const total = list.reduce((sum, file) => sum + file.size, 0);
+    const response = await this.request<T>('POST', endpoint, {
+      timeout: UPLOAD_TIMEOUT,
+      ...requestOptions,
+      body: formData,
+      onUploadProgress: onProgress,
+    });
 
-    // remove Content-Type to let the browser set it automatically with the boundary
-    delete requestHeaders['Content-Type'];
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: requestHeaders,
-        body: formData,
-        signal: signal || controller.signal,
-      });
+    if (response.status === 'success') {
+      onProgress?.(createProgress(total, total));
+    }
+    return response;
+  }
 
-      clearTimeout(timeoutId);
-      return await this.handleResponse<T>(response);
-    } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof ApiError) {
-        throw error;
+  /**
+   * Send every file through an upload session, chunk by chunk. Chunks are
+   * retried on their own; a failed or cancelled upload of the same file
+   * resumes with the chunks the server is missing.
+   */
+  private async uploadChunked<T>(
+    endpoint: string,
+    files: File[],
+    additionalData: Record<string, unknown> | undefined,
+    chunkSize: number,
+    options: UploadOptions<T>
+  ): Promise<ApiResponse<T>> {
+    const { onProgress, signal, retry = DEFAULT_CHUNK_RETRIES, timeout = UPLOAD_TIMEOUT } = options;
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    const uploadIds: string[] = [];
+    let completed = 0;
+
+    for (const file of files) {
+      const opened = await this.openUploadSession(endpoint, file, chunkSize, signal);
+      if (opened.status === 'error') {
+        return opened as ApiResponse<never>;
       }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new ApiError(408, 'TIMEOUT', 'Request timeout');
+      const session = opened.body!;
+      const count = Math.max(1, Math.ceil(file.size / session.chunkSize));
+      rememberResumableUpload(endpoint, file, session.uploadId);
+
+      for (let index = 0; index < count; index++) {
+        const start = index * session.chunkSize;
+        const end = Math.min(start + session.chunkSize, file.size);
+        const chunk = { index, count };
+
+        if (!session.receivedChunks.includes(index)) {
+          const sent = await this.put<void>(
+            `/uploads/${session.uploadId}/chunks/${index}`,
+            file.slice(start, end),
+            {
+              headers: {
+                'Content-Type': 'application/octet-stream',
+                'Content-Range': `bytes ${start}-${Math.max(start, end - 1)}/${file.size}`,
+              },
+              signal,
+              retry,
+              timeout,
+              onUploadProgress: onProgress
+                ? (progress) => onProgress(createProgress(completed + progress.loaded, total, chunk))
+                : undefined,
+            }
+          );
+          if (sent.status === 'error') {
+            return sent as ApiResponse<never>;
+          }
         }
-        throw new ApiError(0, 'NETWORK_ERROR', error.message);
+
+        completed += end - start;
+        onProgress?.(createProgress(completed, total, chunk));
       }
 
-      throw new ApiError(0, 'UNKNOWN_ERROR', 'Unknown error occurred');
+      uploadIds.push(session.uploadId);
+    }
+
+    const response = await this.post<T>(endpoint, { ...additionalData, uploadIds }, {
+      schema: options.schema,
+      signal,
+      idempotencyKey: options.idempotencyKey,
+    });
+
+    if (response.status === 'success') {
+      files.forEach((file) => rememberResumableUpload(endpoint, file, null));
+    }
+    return response;
+  }
+
+  /**
+   * Resume the file's previous upload session if the server still has it,
+   * otherwise start a new one
+   */
+  private async openUploadSession(
+    endpoint: string,
+    file: File,
+    chunkSize: number,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<UploadSession>> {
+    const previousId = getResumableUploadId(endpoint, file);
+    if (previousId) {
+      const resumed = await this.get<UploadSession>(`/uploads/${previousId}`, undefined, {
+        schema: uploadSessionSchema,
+        signal,
+      });
+      if (resumed.status === 'success') {
+        return resumed;
+      }
+      rememberResumableUpload(endpoint, file, null);
     }
+
+    return this.post<UploadSession>(
+      '/uploads',
+      { fileName: file.name, size: file.size, mimeType: file.type || 'application/octet-stream', chunkSize },
+      { schema: uploadSessionSchema, signal }
+    );
   }
 }
 
-// create default API client instance
-export const apiClient = new ApiClient();
+// One client per backend, created on first use; configureClients() sets them up
+const clients = new Map<string, ApiClient>();
+const clientSetups: Array<(client: ApiClient) => void> = [];
+
+/**
+ * Run setup (interceptors, ...) for every backend's client, now and as they are created
+ */
+export function configureClients(setup: (client: ApiClient) => void): void {
+  clientSetups.push(setup);
+  clients.forEach(setup);
+}
+
+/**
+ * The client for a backend, sharing its rate limits and refresh state
+ */
+export function clientFor(backend: BackendConfig): ApiClient {
+  let client = clients.get(backend.id);
+  if (!client) {
+    client = new ApiClient(backend);
+    clients.set(backend.id, client);
+    clientSetups.forEach((setup) => setup(client!));
+  }
+  return client;
+}
+
+// The active backend's client; services call through this binding, so it
+// follows activateClient()
+export let apiClient = clientFor(getActiveBackend());
+
+/**
+ * Point apiClient at a backend's client
+ */
+export function activateClient(backend: BackendConfig): ApiClient {
+  apiClient = clientFor(backend);
+  return apiClient;
+}
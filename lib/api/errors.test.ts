@@ -0,0 +1,129 @@
+import { ApiError } from './client';
+import { describeError, extractFieldErrors, lookupError, ERROR_CATALOG, STATUS_CATALOG } from './errors';
+import en from '../../locales/en/common.json';
+import zhTW from '../../locales/zh-TW/common.json';
+
+describe('lookupError', () => {
+  it('prefers the code over the status', () => {
+    expect(lookupError('RATE_LIMITED', 500)).toBe(ERROR_CATALOG.RATE_LIMITED);
+  });
+
+  it('falls back to the status for unknown codes', () => {
+    expect(lookupError('SOMETHING_NEW', 503)).toBe(STATUS_CATALOG[503]);
+  });
+
+  it('falls back to a generic entry', () => {
+    expect(lookupError('SOMETHING_NEW', 418)).toEqual({ key: 'errors.unknown', severity: 'error', retryable: false });
+    expect(lookupError()).toEqual(lookupError('SOMETHING_NEW'));
+  });
+});
+
+describe('extractFieldErrors', () => {
+  it('reads a flat field map', () => {
+    expect(extractFieldErrors({ email: 'Invalid email', age: 3 })).toEqual({ email: 'Invalid email' });
+  });
+
+  it('reads a map under fields', () => {
+    expect(extractFieldErrors({ fields: { username: 'Taken' } })).toEqual({ username: 'Taken' });
+  });
+
+  it('reads an errors list and keeps the first message per field', () => {
+    expect(
+      extractFieldErrors({
+        errors: [
+          { field: 'password', message: 'Too short' },
+          { field: 'password', message: 'Needs a number' },
+        ],
+      })
+    ).toEqual({ password: 'Too short' });
+  });
+
+  it('joins schema issue paths with dots', () => {
+    expect(extractFieldErrors({ issues: [{ path: ['address', 'city'], message: 'Required' }] })).toEqual({
+      'address.city': 'Required',
+    });
+  });
+
+  it('returns nothing for missing or non-object details', () => {
+    expect(extractFieldErrors(undefined)).toEqual({});
+    expect(extractFieldErrors('bad request')).toEqual({});
+  });
+});
+
+describe('describeError', () => {
+  it('describes a thrown ApiError with its status', () => {
+    const error = new ApiError(504, 'TIMEOUT', 'Request timed out');
+    expect(describeError(error)).toEqual({
+      ...ERROR_CATALOG.TIMEOUT,
+      code: 'TIMEOUT',
+      status: 504,
+      message: 'Request timed out',
+      fields: {},
+      details: undefined,
+    });
+  });
+
+  it('leaves out a zero status', () => {
+    expect(describeError(new ApiError(0, 'NETWORK_ERROR', 'Offline')).status).toBeUndefined();
+  });
+
+  it('describes an error response with its HTTP status and field errors', () => {
+    const described = describeError({
+      status: 'error',
+      error: { code: 'PASSWORD_POLICY_VIOLATION', message: 'Weak', details: { password: 'Needs a number' } },
+      meta: { httpStatus: 422 },
+    });
+
+    expect(described).toMatchObject({
+      key: 'errors.codes.PASSWORD_POLICY_VIOLATION',
+      status: 422,
+      message: 'Weak',
+      fields: { password: 'Needs a number' },
+    });
+  });
+
+  it('describes a bare error body', () => {
+    expect(describeError({ code: 'ORDER_NOT_PENDING', message: 'Already filled' })).toMatchObject({
+      code: 'ORDER_NOT_PENDING',
+      severity: 'warning',
+      message: 'Already filled',
+    });
+  });
+
+  it('reads field errors only for validation codes or 400/422', () => {
+    const details = { symbol: 'Unknown symbol' };
+    expect(describeError(new ApiError(409, 'SYMBOL_NOT_TRADING', 'Halted', details)).fields).toEqual({});
+    expect(describeError(new ApiError(400, 'SOMETHING_NEW', 'Bad', details)).fields).toEqual(details);
+    expect(describeError(new ApiError(0, 'VALIDATION_FAILED', 'Bad', details)).fields).toEqual(details);
+  });
+
+  it('describes a plain Error with the fallback code', () => {
+    expect(describeError(new Error('Boom'), 'LOGIN_FAILED')).toMatchObject({
+      code: 'LOGIN_FAILED',
+      key: 'errors.codes.LOGIN_FAILED',
+      message: 'Boom',
+    });
+  });
+
+  it('describes anything else as unknown', () => {
+    expect(describeError('???')).toMatchObject({ code: 'UNKNOWN_ERROR', message: 'Unknown error occurred' });
+  });
+});
+
+describe('catalog messages', () => {
+  const keys = [...Object.values(ERROR_CATALOG), ...Object.values(STATUS_CATALOG), lookupError()].map(
+    (catalogEntry) => catalogEntry.key
+  );
+
+  const message = (messages: unknown, key: string): unknown =>
+    key.split('.').reduce<unknown>((node, part) => {
+      return node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined;
+    }, messages);
+
+  it.each([
+    ['en', en],
+    ['zh-TW', zhTW],
+  ])('has a %s translation for every key', (_locale, messages) => {
+    expect(keys.filter((key) => typeof message(messages, key) !== 'string')).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Error catalog
+ * Maps API error codes and HTTP statuses to message keys under `errors` in
+ * locales/*, with a severity and whether trying again can help, so forms
+ * show translated messages instead of the raw English `message`
+ */
+
+import { ApiError } from './client';
+import type { ApiResponse } from './types';
+
+export type ErrorSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export interface ErrorCatalogEntry {
+  key: string; // message key, relative to the root of the locale file
+  severity: ErrorSeverity;
+  retryable: boolean;
+}
+
+// Field name (dot path for nested fields) to the server's message for it
+export type FieldErrors = Record<string, string>;
+
+export interface CatalogedError extends ErrorCatalogEntry {
+  code: string;
+  status?: number;
+  message: string; // the original message, used when the key has no translation
+  fields: FieldErrors;
+  details?: unknown;
+}
+
+type ApiErrorBody = NonNullable<ApiResponse['error']>;
+
+const entry = (key: string, severity: ErrorSeverity, retryable = false): ErrorCatalogEntry => ({
+  key: `errors.${key}`,
+  severity,
+  retryable,
+});
+
+export const ERROR_CATALOG: Record<string, ErrorCatalogEntry> = {
+  // Raised by ApiClient itself
+  TIMEOUT: entry('codes.TIMEOUT', 'warning', true),
+  NETWORK_ERROR: entry('codes.NETWORK_ERROR', 'warning', true),
+  ABORTED: entry('codes.ABORTED', 'info'),
+  PARSE_ERROR: entry('codes.PARSE_ERROR', 'error'),
+  API_ERROR: entry('codes.API_ERROR', 'error'),
+  HTTP_ERROR: entry('codes.HTTP_ERROR', 'error'),
+  VALIDATION_ERROR: entry('codes.VALIDATION_ERROR', 'error'),
+  RATE_LIMITED: entry('codes.RATE_LIMITED', 'warning', true),
+  QUEUED_OFFLINE: entry('codes.QUEUED_OFFLINE', 'info'),
+  UNKNOWN_ERROR: entry('codes.UNKNOWN_ERROR', 'error', true),
+
+  // Session and sign-in
+  SESSION_EXPIRED: entry('codes.SESSION_EXPIRED', 'warning'),
+  REFRESH_FAILED: entry('codes.SESSION_EXPIRED', 'warning'),
+  INVALID_REFRESH_TOKEN: entry('codes.SESSION_EXPIRED', 'warning'),
+  SESSION_REVOKED: entry('codes.SESSION_REVOKED', 'warning'),
+  CANNOT_REVOKE_CURRENT_SESSION: entry('codes.CANNOT_REVOKE_CURRENT_SESSION', 'info'),
+  LOGIN_FAILED: entry('codes.LOGIN_FAILED', 'error'),
+  NO_DATA: entry('codes.LOGIN_FAILED', 'error'),
+  INVALID_CREDENTIALS: entry('codes.INVALID_CREDENTIALS', 'error'),
+  ACCOUNT_DISABLED: entry('codes.ACCOUNT_DISABLED', 'error'),
+  INVALID_CURRENT_PASSWORD: entry('codes.INVALID_CURRENT_PASSWORD', 'error'),
+  PASSWORD_POLICY_VIOLATION: entry('codes.PASSWORD_POLICY_VIOLATION', 'error'),
+  RESET_TOKEN_INVALID: entry('codes.RESET_TOKEN_INVALID', 'error'),
+  RESET_TOKEN_USED: entry('codes.RESET_TOKEN_USED', 'warning'),
+  RESET_TOKEN_EXPIRED: entry('codes.RESET_TOKEN_EXPIRED', 'warning'),
+  MFA_CODE_INVALID: entry('codes.MFA_CODE_INVALID', 'error'),
+  MFA_TOKEN_INVALID: entry('codes.MFA_TOKEN_INVALID', 'warning'),
+  MFA_ALREADY_ENABLED: entry('codes.MFA_ALREADY_ENABLED', 'info'),
+  MFA_NOT_ENABLED: entry('codes.MFA_NOT_ENABLED', 'info'),
+  MFA_ENROLLMENT_NOT_STARTED: entry('codes.MFA_ENROLLMENT_NOT_STARTED', 'warning'),
+  PASSKEY_CANCELLED: entry('codes.PASSKEY_CANCELLED', 'info', true),
+  PASSKEY_UNSUPPORTED: entry('codes.PASSKEY_UNSUPPORTED', 'warning'),
+  PASSKEY_FAILED: entry('codes.PASSKEY_FAILED', 'error', true),
+  PASSKEY_EXISTS: entry('codes.PASSKEY_EXISTS', 'info'),
+  PASSKEY_INVALID: entry('codes.PASSKEY_INVALID', 'error'),
+  PASSKEY_NOT_FOUND: entry('codes.PASSKEY_NOT_FOUND', 'error'),
+  PASSKEY_CHALLENGE_INVALID: entry('codes.PASSKEY_CHALLENGE_INVALID', 'warning', true),
+  UNAUTHORIZED: entry('status.401', 'warning'),
+  FORBIDDEN: entry('status.403', 'error'),
+
+  // Returned by the backend
+  VALIDATION_FAILED: entry('codes.VALIDATION_FAILED', 'error'),
+  NOT_FOUND: entry('status.404', 'error'),
+  IDEMPOTENCY_KEY_REUSED: entry('codes.IDEMPOTENCY_KEY_REUSED', 'error'),
+  USER_EXISTS: entry('codes.USER_EXISTS', 'error'),
+  CANNOT_DELETE_SELF: entry('codes.CANNOT_DELETE_SELF', 'error'),
+  ORDER_NOT_PENDING: entry('codes.ORDER_NOT_PENDING', 'warning'),
+  SYMBOL_NOT_TRADING: entry('codes.SYMBOL_NOT_TRADING', 'warning'),
+  UPLOAD_TOO_LARGE: entry('codes.UPLOAD_TOO_LARGE', 'error'),
+  UNSUPPORTED_FILE_TYPE: entry('codes.UNSUPPORTED_FILE_TYPE', 'error'),
+  EXPORT_FAILED: entry('codes.EXPORT_FAILED', 'error', true),
+  INTERNAL_ERROR: entry('status.500', 'critical', true),
+  UPSTREAM_ERROR: entry('status.502', 'critical', true),
+  UPSTREAM_UNAVAILABLE: entry('status.503', 'critical', true),
+  UPSTREAM_TIMEOUT: entry('status.504', 'warning', true),
+};
+
+// Used when the code is not in the catalog
+export const STATUS_CATALOG: Record<number, ErrorCatalogEntry> = {
+  400: entry('status.400', 'error'),
+  401: entry('status.401', 'warning'),
+  403: entry('status.403', 'error'),
+  404: entry('status.404', 'error'),
+  408: entry('status.408', 'warning', true),
+  409: entry('status.409', 'error'),
+  413: entry('status.413', 'error'),
+  422: entry('status.422', 'error'),
+  429: entry('status.429', 'warning', true),
+  500: entry('status.500', 'critical', true),
+  502: entry('status.502', 'critical', true),
+  503: entry('status.503', 'critical', true),
+  504: entry('status.504', 'warning', true),
+};
+
+const UNKNOWN_ENTRY = entry('unknown', 'error');
+
+// Only these carry per-field messages in `details`; elsewhere details are context
+const FIELD_ERROR_CODES = ['VALIDATION_FAILED', 'PASSWORD_POLICY_VIOLATION'];
+const FIELD_ERROR_STATUSES = [400, 422];
+
+/**
+ * Catalog entry for a code, falling back to the HTTP status and then to a
+ * generic message
+ */
+export function lookupError(code?: string, status?: number): ErrorCatalogEntry {
+  if (code && ERROR_CATALOG[code]) return ERROR_CATALOG[code];
+  if (status && STATUS_CATALOG[status]) return STATUS_CATALOG[status];
+  return UNKNOWN_ENTRY;
+}
+
+/**
+ * Field messages from `details`, which backends send as a flat
+ * `{ field: message }` map, under `fields`, as `errors: [{ field, message }]`,
+ * or as schema `issues: [{ path, message }]`
+ */
+export function extractFieldErrors(details: unknown): FieldErrors {
+  const fields: FieldErrors = {};
+  if (!details || typeof details !== 'object') return fields;
+
+  const record = details as Record<string, unknown>;
+  const list = Array.isArray(details) ? details : record.errors ?? record.issues;
+  if (Array.isArray(list)) {
+    list.forEach((item: unknown) => {
+      if (!isRecord(item)) return;
+      const path = item.field ?? item.path;
+      const name = Array.isArray(path) ? path.join('.') : path;
+      if (typeof name === 'string' && name && typeof item.message === 'string' && !(name in fields)) {
+        fields[name] = item.message;
+      }
+    });
+    return fields;
+  }
+
+  const map = isRecord(record.fields) ? record.fields : record;
+  Object.keys(map).forEach((name) => {
+    const message = map[name];
+    if (typeof message === 'string') {
+      fields[name] = message;
+    }
+  });
+  return fields;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isApiResponse(value: unknown): value is ApiResponse {
+  return isRecord(value) && (value.status === 'error' || value.status === 'success');
+}
+
+/**
+ * Describe any failure the API layer produces — a thrown ApiError, an error
+ * ApiResponse or its `error` body, or a plain Error — through the catalog
+ */
+export function describeError(source: unknown, fallbackCode = 'UNKNOWN_ERROR'): CatalogedError {
+  let code = fallbackCode;
+  let status: number | undefined;
+  let message = 'Unknown error occurred';
+  let details: unknown;
+
+  if (source instanceof ApiError) {
+    code = source.code;
+    status = source.status || undefined;
+    message = source.message;
+    details = source.details;
+  } else if (isApiResponse(source)) {
+    code = source.error?.code || fallbackCode;
+    status = source.meta?.httpStatus;
+    message = source.error?.message || source.message || message;
+    details = source.error?.details;
+  } else if (source instanceof Error) {
+    message = source.message || message;
+  } else if (source && typeof source === 'object' && 'code' in source) {
+    const body = source as ApiErrorBody;
+    code = body.code || fallbackCode;
+    message = body.message || message;
+    details = body.details;
+  }
+
+  return {
+    ...lookupError(code, status),
+    code,
+    status,
+    message,
+    fields:
+      FIELD_ERROR_CODES.includes(code) || (status !== undefined && FIELD_ERROR_STATUSES.includes(status))
+        ? extractFieldErrors(details)
+        : {},
+    details,
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Streaming exports
+ * Rows are streamed from the server straight into a file, so exports of
+ * millions of rows never sit in memory as one response. The server opens
+ * every export with a preamble naming the generating admin and the filters.
+ */
+
+import type { ApiResponse, Range } from './types';
+import type { QueryValues } from './query';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export type ExportResource = 'orders' | 'audit-logs' | 'users';
+
+// Columns each resource can export, in their default order
+export const EXPORT_COLUMNS: Record<ExportResource, readonly string[]> = {
+  orders: [
+    'id',
+    'userId',
+    'symbol',
+    'side',
+    'type',
+    'status',
+    'quantity',
+    'price',
+    'stopPrice',
+    'filledQuantity',
+    'averagePrice',
+    'timeInForce',
+    'createdAt',
+    'updatedAt',
+    'filledAt',
+  ],
+  'audit-logs': ['id', 'timestamp', 'userId', 'username', 'action', 'resource', 'resourceId', 'ipAddress', 'userAgent'],
+  users: ['id', 'email', 'name', 'roles', 'isActive', 'lastLoginAt', 'createdAt'],
+};
+
+// Response headers of a streaming export
+export const EXPORT_TOTAL_HEADER = 'X-Total-Count'; // rows the export will contain
+export const EXPORT_PREAMBLE_HEADER = 'X-Export-Preamble-Lines'; // lines before the first row
+
+export interface ExportRequest<F> {
+  format: ExportFormat;
+  columns?: string[]; // defaults to every column of the resource
+  filters?: F;
+}
+
+export interface ExportProgress {
+  rows: number;
+  bytes: number;
+  totalRows?: number; // known when the server sends X-Total-Count
+  percent?: number;
+}
+
+export interface SavedExport {
+  fileName: string;
+  rows: number;
+  bytes: number;
+}
+
+export interface SaveExportOptions {
+  fileName: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+// Where the streamed bytes go: a file picked by the user, or memory for a download
+export interface ExportSink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+// File System Access API (Chromium); not in the TypeScript DOM lib yet
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<{ createWritable(): Promise<WritableStream<Uint8Array>> }>;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * Query parameters for an export request: format, columns and the filters
+ */
+export function toExportParams<F extends object>(request: ExportRequest<F>): QueryValues {
+  return {
+    ...request.filters,
+    format: request.format,
+    columns: request.columns && request.columns.length > 0 ? request.columns.join(',') : undefined,
+  };
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(describeValue).join('|');
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') {
+    const { min, max } = value as Range<unknown>;
+    return `${min === undefined ? '' : describeValue(min)}..${max === undefined ? '' : describeValue(max)}`;
+  }
+  return String(value);
+}
+
+/**
+ * Human-readable summary of the active filters, e.g.
+ * "status=pending|filled, symbol=BTCUSDT, price=100..200"
+ */
+export function describeFilters(filters?: object): string {
+  const parts = Object.entries(filters || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}=${describeValue(value)}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/**
+ * File name like "orders-2025-09-01-status-pending.csv"
+ */
+export function exportFileName(resource: ExportResource, format: ExportFormat, filters?: object): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const summary = describeFilters(filters);
+  const suffix =
+    summary === 'none'
+      ? ''
+      : '-' +
+        summary
+          .replace(/[^A-Za-z0-9]+/g, '-')
+          .replace(/^-|-$/g, '')
+          .slice(0, 60);
+  return `${resource}-${date}${suffix}.${format}`;
+}
+
+function downloadSink(fileName: string, format: ExportFormat): ExportSink {
+  const parts: BlobPart[] = [];
+
+  return {
+    write: async (chunk) => {
+      parts.push(chunk as Uint8Array<ArrayBuffer>); // stream chunks are never shared buffers
+    },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: MIME_TYPES[format] }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    },
+    abort: async () => {
+      parts.length = 0;
+    },
+  };
+}
+
+/**
+ * Let the user choose the target file up front where the browser supports
+ * it, so rows go straight to disk; otherwise collect them for a download.
+ * Call this first in the click handler: the picker needs the user gesture.
+ * Resolves to null when the user dismisses the picker.
+ */
+export async function openExportSink(fileName: string, format: ExportFormat): Promise<ExportSink | null> {
+  const picker = typeof window !== 'undefined'
+    ? (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+    : undefined;
+  if (!picker) {
+    return downloadSink(fileName, format);
+  }
+
+  let handle: Awaited<ReturnType<SaveFilePicker>>;
+  try {
+    handle = await picker({
+      suggestedName: fileName,
+      types: [{ description: format.toUpperCase(), accept: { [MIME_TYPES[format]]: [`.${format}`] } }],
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') return null;
+    throw error;
+  }
+
+  const writer = (await handle.createWritable()).getWriter();
+  return {
+    write: (chunk) => writer.write(chunk),
+    close: () => writer.close(),
+    abort: () => writer.abort(),
+  };
+}
+
+/**
+ * Pipe a streamed export into the sink, reporting rows and bytes as they
+ * arrive. Aborting the signal cancels the download and discards the file.
+ */
+export async function saveExport(
+  response: Response,
+  sink: ExportSink,
+  options: SaveExportOptions
+): Promise<ApiResponse<SavedExport>> {
+  const { fileName, signal, onProgress } = options;
+  const total = Number(response.headers.get(EXPORT_TOTAL_HEADER));
+  const totalRows = Number.isFinite(total) && response.headers.has(EXPORT_TOTAL_HEADER) ? total : undefined;
+  const preambleLines = Number(response.headers.get(EXPORT_PREAMBLE_HEADER)) || 0;
+
+  if (!response.body) {
+    await sink.abort();
+    return { status: 'error', error: { code: 'EMPTY_EXPORT', message: 'Export response has no body' } };
+  }
+
+  const reader = response.body.getReader();
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let lines = 0;
+  let bytes = 0;
+  const rows = () => Math.max(0, lines - preambleLines);
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+      for (let i = 0; i < value.length; i++) {
+        if (value[i] === 0x0a) lines++;
+      }
+      bytes += value.length;
+      await sink.write(value);
+
+      onProgress?.({
+        rows: rows(),
+        bytes,
+        totalRows,
+        percent: totalRows ? Math.min(100, Math.round((rows() / totalRows) * 100)) : undefined,
+      });
+    }
+
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    await sink.close();
+    return { status: 'success', body: { fileName, rows: rows(), bytes } };
+  } catch (error) {
+    await sink.abort().catch(() => undefined);
+    if (signal?.aborted) {
+      return { status: 'error', error: { code: 'ABORTED', message: 'Export cancelled' } };
+    }
+    return {
+      status: 'error',
+      error: { code: 'EXPORT_FAILED', message: error instanceof Error ? error.message : 'Export failed' },
+    };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
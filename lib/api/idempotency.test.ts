@@ -0,0 +1,38 @@
+import { createIdempotencyKey, isMutatingMethod, resolveIdempotencyKey } from './idempotency';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('isMutatingMethod', () => {
+  it('matches the mutating methods in any case', () => {
+    expect(['POST', 'put', 'Patch', 'DELETE'].every(isMutatingMethod)).toBe(true);
+    expect(['GET', 'HEAD', 'OPTIONS'].some(isMutatingMethod)).toBe(false);
+  });
+});
+
+describe('createIdempotencyKey', () => {
+  it('returns a fresh UUID v4 every time', () => {
+    const first = createIdempotencyKey();
+    expect(first).toMatch(UUID);
+    expect(createIdempotencyKey()).not.toBe(first);
+  });
+});
+
+describe('resolveIdempotencyKey', () => {
+  it('generates a key for mutating methods', () => {
+    expect(resolveIdempotencyKey('POST')).toMatch(UUID);
+    expect(resolveIdempotencyKey('delete')).toMatch(UUID);
+  });
+
+  it('sends no key for reads', () => {
+    expect(resolveIdempotencyKey('GET')).toBeUndefined();
+  });
+
+  it("keeps the caller's key, even on a read", () => {
+    expect(resolveIdempotencyKey('POST', 'cancel-order-1')).toBe('cancel-order-1');
+    expect(resolveIdempotencyKey('GET', 'report-7')).toBe('report-7');
+  });
+
+  it('sends no key when the caller opts out', () => {
+    expect(resolveIdempotencyKey('POST', false)).toBeUndefined();
+  });
+});
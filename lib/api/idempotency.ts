@@ -0,0 +1,33 @@
+/**
+ * Idempotency keys for mutating requests
+ * The server remembers the outcome per key, so a repeated request (retry,
+ * token-refresh replay, double submit with the same key) is applied once
+ * and answered from its cache
+ */
+
+import { randomUUID } from '@/lib/utils';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set by the server when the answer was replayed from its idempotency cache
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+export function isMutatingMethod(method: string): boolean {
+  return MUTATING_METHODS.includes(method.toUpperCase());
+}
+
+export function createIdempotencyKey(): string {
+  return randomUUID();
+}
+
+/**
+ * The key a request goes out with: the caller's key, a generated one for
+ * mutating methods, or none when the caller opted out with false
+ */
+export function resolveIdempotencyKey(method: string, option?: string | false): string | undefined {
+  if (option === false) return undefined;
+  if (option) return option;
+  return isMutatingMethod(method) ? createIdempotencyKey() : undefined;
+}
@@ -3,7 +3,53 @@
  */
 
 export * from './types';
-export { ApiClient } from './client';
+export * from './schemas';
+export { ApiClient, ApiError, clientFor, setSessionExpiredHandler } from './client';
+export type { RequestOptions, MutationOptions, UploadOptions, StreamOptions } from './client';
+export type { UploadProgress, UploadProgressHandler, UploadConstraints } from './upload';
+export { createIdempotencyKey } from './idempotency';
+export { respondWith, localeInterceptor, timingInterceptor } from './interceptors';
+export {
+  REQUEST_ID_HEADER,
+  RequestInspector,
+  requestInspector,
+  requestIdInterceptor,
+  redactEndpoint,
+  buildBugReport,
+} from './inspector';
+export type { RequestRecord, BugReportContext } from './inspector';
+export { RATE_LIMIT_HEADERS, RateLimiter, rateLimitBucket, parseRetryAfter } from './rate-limit';
+export type { RateLimitState } from './rate-limit';
+export { NetworkMonitor, networkMonitor, networkInterceptor } from './network';
+export type { NetworkState } from './network';
+export { MutationOutbox, QUEUED_OFFLINE, outboxInterceptor, outboxSender } from './outbox';
+export type { OutboxEntry, OutboxOptions, OutboxStatus, OutboxStore } from './outbox';
+export { createQuerySerializer, serializeQuery, defaultQueryOptions } from './query';
+export type { ArrayFormat, ObjectFormat, QueryValues, QuerySerializer, QuerySerializerOptions } from './query';
+export { ERROR_CATALOG, STATUS_CATALOG, describeError, extractFieldErrors, lookupError } from './errors';
+export type { CatalogedError, ErrorCatalogEntry, ErrorSeverity, FieldErrors } from './errors';
+export {
+  EXPORT_COLUMNS,
+  describeFilters,
+  exportFileName,
+  openExportSink,
+  saveExport,
+} from './export';
+export type {
+  ExportFormat,
+  ExportResource,
+  ExportRequest,
+  ExportProgress,
+  ExportSink,
+  SavedExport,
+} from './export';
+export type {
+  Interceptor,
+  RequestContext,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor,
+} from './interceptors';
 
 // export all services
 export { AuthService } from './services/auth';
@@ -18,6 +64,43 @@ import { UserService } from './services/users';
 import { OrderService } from './services/orders';
 import { SystemService } from './services/system';
 import { MarketService } from './services/markets';
+import { activateClient, apiClient, clientFor, configureClients } from './client';
+import { localeInterceptor, timingInterceptor } from './interceptors';
+import { requestIdInterceptor } from './inspector';
+import { networkInterceptor } from './network';
+import { MutationOutbox, outboxInterceptor, outboxSender } from './outbox';
+import { BackendConfig, getBackend, setActiveBackend } from '@/lib/backends';
+
+// mutations queued while offline, replayed through the client of the backend they were queued for
+export const outbox = new MutationOutbox(outboxSender((backendId) => clientFor(getBackend(backendId))));
+
+// register cross-cutting interceptors on every backend's client
+configureClients((backendClient) => {
+  backendClient.interceptors.use(localeInterceptor());
+  backendClient.interceptors.use(timingInterceptor());
+  backendClient.interceptors.use(requestIdInterceptor());
+  backendClient.interceptors.use(networkInterceptor());
+  backendClient.interceptors.use(outboxInterceptor(outbox, backendClient.backend.id));
+});
+
+/**
+ * Select the backend this browser operates and send every service call to
+ * its client. Each backend keeps its own session; callers re-read the
+ * session and drop cached data afterwards (see useBackend).
+ */
+export function switchBackend(id: string): BackendConfig {
+  const backend = setActiveBackend(id);
+  activateClient(backend);
+  return backend;
+}
+
+/**
+ * Refresh the active backend's access token ahead of expiry, e.g. when the
+ * admin confirms they are still there. A rejected refresh ends the session.
+ */
+export function refreshSession(): Promise<boolean> {
+  return apiClient.refreshSession();
+}
 
 export const API = {
   auth: AuthService,
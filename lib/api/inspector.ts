@@ -0,0 +1,181 @@
+/**
+ * Request inspector for support debugging
+ * Stamps every request with an X-Request-Id, and keeps the last calls in a
+ * bounded ring buffer so an operator's "cancel failed" can be matched to
+ * backend logs. Only metadata is recorded, never headers or bodies.
+ */
+
+import { randomUUID } from '@/lib/utils';
+import { IDEMPOTENT_REPLAYED_HEADER } from './idempotency';
+import type { Interceptor, RequestContext } from './interceptors';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const DEFAULT_CAPACITY = 200;
+
+// Query parameters whose values never leave the browser in a bug report
+const SENSITIVE_PARAMS = /token|password|secret|code|key|email|signature/i;
+
+export interface RequestRecord {
+  requestId: string; // sent by us
+  upstreamRequestId?: string; // returned by the server, when it assigns its own
+  method: string;
+  endpoint: string;
+  httpStatus?: number; // missing when the request never got an answer
+  status: 'success' | 'error';
+  errorCode?: string;
+  replayed?: boolean; // answered from the server's idempotency cache, not applied again
+  durationMs: number;
+  startedAt: string;
+}
+
+type Listener = (records: RequestRecord[]) => void;
+
+/**
+ * Fixed-size ring buffer of recent requests; the oldest entry is overwritten
+ * once it is full
+ */
+export class RequestInspector {
+  private buffer: Array<RequestRecord | undefined>;
+  private next = 0;
+  private listeners = new Set<Listener>();
+
+  constructor(private capacity: number = DEFAULT_CAPACITY) {
+    this.buffer = new Array(capacity);
+  }
+
+  record(entry: RequestRecord): void {
+    this.buffer[this.next] = entry;
+    this.next = (this.next + 1) % this.capacity;
+    this.notify();
+  }
+
+  /**
+   * Recorded requests, newest first
+   */
+  list(): RequestRecord[] {
+    const records: RequestRecord[] = [];
+    for (let i = 1; i <= this.capacity; i++) {
+      const entry = this.buffer[(this.next - i + this.capacity) % this.capacity];
+      if (entry) records.push(entry);
+    }
+    return records;
+  }
+
+  clear(): void {
+    this.buffer = new Array(this.capacity);
+    this.next = 0;
+    this.notify();
+  }
+
+  /**
+   * Get notified on every change, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const records = this.list();
+    this.listeners.forEach((listener) => listener(records));
+  }
+}
+
+// Shared inspector fed by the shared client
+export const requestInspector = new RequestInspector();
+
+/**
+ * Send an X-Request-Id with every request and record the outcome in the
+ * inspector; the server's request id is exposed on response.meta.requestId
+ */
+export function requestIdInterceptor(inspector: RequestInspector = requestInspector): Interceptor {
+  const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+  // Record the finished request; returns the id support should quote
+  const capture = (context: RequestContext, status: RequestRecord['status'], errorCode?: string) => {
+    const { requestId, inspectorStartedAt, inspectorStartedIso } = context.meta;
+    if (
+      typeof requestId !== 'string' ||
+      typeof inspectorStartedAt !== 'number' ||
+      typeof inspectorStartedIso !== 'string'
+    ) {
+      return undefined;
+    }
+
+    const upstreamRequestId = context.responseHeaders?.get(REQUEST_ID_HEADER) || undefined;
+    inspector.record({
+      requestId,
+      upstreamRequestId: upstreamRequestId !== requestId ? upstreamRequestId : undefined,
+      method: context.method,
+      endpoint: context.endpoint,
+      httpStatus: context.httpStatus,
+      status,
+      errorCode,
+      replayed: context.responseHeaders?.get(IDEMPOTENT_REPLAYED_HEADER) === 'true' || undefined,
+      durationMs: Math.round(now() - inspectorStartedAt),
+      startedAt: inspectorStartedIso,
+    });
+    return upstreamRequestId || requestId;
+  };
+
+  return {
+    name: 'requestId',
+    request: (context) => {
+      const requestId = context.headers[REQUEST_ID_HEADER] || randomUUID();
+      context.headers[REQUEST_ID_HEADER] = requestId;
+      context.meta.requestId = requestId;
+      context.meta.inspectorStartedAt = now();
+      context.meta.inspectorStartedIso = new Date().toISOString();
+    },
+    response: (response, context) => {
+      const requestId = capture(context, response.status, response.error?.code);
+      if (!requestId) return;
+
+      return { ...response, meta: { ...response.meta, requestId } };
+    },
+    error: (error, context) => {
+      capture(context, 'error', error.code);
+    },
+  };
+}
+
+/**
+ * Mask sensitive query values in an endpoint
+ */
+export function redactEndpoint(endpoint: string): string {
+  const [path, query] = endpoint.split('?');
+  if (!query) return path;
+
+  const params = new URLSearchParams(query);
+  const redacted = new URLSearchParams();
+  params.forEach((value, name) => {
+    redacted.append(name, SENSITIVE_PARAMS.test(name) ? 'REDACTED' : value);
+  });
+  return `${path}?${redacted.toString()}`;
+}
+
+export interface BugReportContext {
+  userId?: string;
+  roles?: string[];
+  locale?: string;
+  note?: string;
+}
+
+/**
+ * JSON bundle for a bug report: environment, the reporting user's id and
+ * roles, and recent requests with sensitive query values masked
+ */
+export function buildBugReport(records: RequestRecord[], context: BugReportContext = {}): string {
+  const report = {
+    generatedAt: new Date().toISOString(),
+    page: typeof location !== 'undefined' ? location.pathname : undefined,
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    ...context,
+    requests: records.map((record) => ({ ...record, endpoint: redactEndpoint(record.endpoint) })),
+  };
+
+  return JSON.stringify(report, null, 2);
+}
@@ -0,0 +1,112 @@
+import { ApiError } from './client';
+import { InterceptorChain, RequestContext, isShortCircuit, respondWith, timingInterceptor } from './interceptors';
+import type { ApiResponse } from './types';
+
+const context = (): RequestContext => ({
+  method: 'GET',
+  endpoint: '/markets',
+  url: '/api/markets',
+  headers: {},
+  options: {},
+  meta: {},
+});
+
+const success: ApiResponse<string> = { status: 'success', body: 'ok' };
+
+describe('InterceptorChain', () => {
+  it('runs request hooks in registration order, each seeing the last context', async () => {
+    const chain = new InterceptorChain();
+    chain.use({ request: (ctx) => ({ ...ctx, headers: { ...ctx.headers, 'X-First': '1' } }) });
+    chain.use({
+      request: (ctx) => {
+        ctx.headers['X-Second'] = ctx.headers['X-First'] ? 'after-first' : 'alone';
+      },
+    });
+
+    const { context: result, response } = await chain.runRequest(context());
+
+    expect(result.headers).toEqual({ 'X-First': '1', 'X-Second': 'after-first' });
+    expect(response).toBeUndefined();
+  });
+
+  it('stops at a short-circuit and answers with its response', async () => {
+    const chain = new InterceptorChain();
+    const later = jest.fn();
+    chain.use({ request: () => respondWith(success) });
+    chain.use({ request: later });
+
+    const { response } = await chain.runRequest(context());
+
+    expect(response).toBe(success);
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('lets response hooks replace the response in turn', async () => {
+    const chain = new InterceptorChain();
+    chain.use({ response: (response) => ({ ...response, body: `${response.body}!` }) });
+    chain.use({ response: () => undefined });
+    chain.use({ response: (response) => ({ ...response, message: 'done' }) });
+
+    expect(await chain.runResponse(success, context())).toEqual({ status: 'success', body: 'ok!', message: 'done' });
+  });
+
+  it('recovers from an error with the first hook that returns a response', async () => {
+    const chain = new InterceptorChain();
+    const later = jest.fn();
+    chain.use({ error: () => undefined });
+    chain.use({ error: () => success });
+    chain.use({ error: later });
+
+    expect(await chain.runError(new ApiError(0, 'NETWORK_ERROR', 'Offline'), context())).toBe(success);
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('rethrows the error, or the one a hook replaced it with, when nobody recovers', async () => {
+    const chain = new InterceptorChain();
+    const seen = jest.fn();
+    chain.use({
+      error: () => {
+        throw new ApiError(0, 'ABORTED', 'Replaced');
+      },
+    });
+    chain.use({ error: seen });
+
+    await expect(chain.runError(new ApiError(0, 'NETWORK_ERROR', 'Offline'), context())).rejects.toMatchObject({
+      code: 'ABORTED',
+    });
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ code: 'ABORTED' }), expect.anything());
+  });
+
+  it('removes an interceptor with the function use() returns', async () => {
+    const chain = new InterceptorChain();
+    const hook = jest.fn();
+    const remove = chain.use({ request: hook });
+
+    remove();
+    await chain.runRequest(context());
+
+    expect(hook).not.toHaveBeenCalled();
+  });
+});
+
+describe('isShortCircuit', () => {
+  it('tells a short-circuit from a context', () => {
+    expect(isShortCircuit(respondWith(success))).toBe(true);
+    expect(isShortCircuit(context())).toBe(false);
+    expect(isShortCircuit(undefined)).toBe(false);
+  });
+});
+
+describe('timingInterceptor', () => {
+  it('adds the duration to the response meta', async () => {
+    const now = jest.spyOn(performance, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(1042.4);
+    const chain = new InterceptorChain();
+    chain.use(timingInterceptor());
+
+    const { context: ctx } = await chain.runRequest(context());
+    const response = await chain.runResponse({ ...success, meta: { httpStatus: 200 } }, ctx);
+
+    expect(response.meta).toEqual({ httpStatus: 200, durationMs: 42 });
+    now.mockRestore();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Interceptor pipeline for ApiClient
+ * Lets cross-cutting behavior (headers, timing, error handling) hook into
+ * every request without editing ApiClient itself
+ */
+
+import type { ApiResponse } from './types';
+import type { ApiError, RequestOptions } from './client';
+
+type Awaitable<T> = T | Promise<T>;
+
+// Mutable description of one logical request, shared by all of its hooks
+export interface RequestContext {
+  method: string;
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  options: RequestOptions;
+  // scratch space for interceptors, e.g. start timestamps; narrow values before use
+  meta: Record<string, unknown>;
+  // filled in once the server has answered
+  httpStatus?: number;
+  responseHeaders?: Headers;
+}
+
+const SHORT_CIRCUIT = Symbol('shortCircuit');
+
+export interface ShortCircuit<T = unknown> {
+  [SHORT_CIRCUIT]: true;
+  response: ApiResponse<T>;
+}
+
+/**
+ * Return this from a request hook to skip the network and answer directly
+ */
+export function respondWith<T>(response: ApiResponse<T>): ShortCircuit<T> {
+  return { [SHORT_CIRCUIT]: true, response };
+}
+
+export function isShortCircuit(value: unknown): value is ShortCircuit {
+  return typeof value === 'object' && value !== null && SHORT_CIRCUIT in value;
+}
+
+// Runs before the request is sent; may mutate or replace the context, or short-circuit
+export type RequestInterceptor = (
+  context: RequestContext
+) => Awaitable<RequestContext | ShortCircuit | void>;
+
+// Runs for every ApiResponse (success or error envelope); may replace it
+export type ResponseInterceptor = (
+  response: ApiResponse<unknown>,
+  context: RequestContext
+) => Awaitable<ApiResponse<unknown> | void>;
+
+// Runs when the transport throws; return a response to recover, throw to replace the error
+export type ErrorInterceptor = (
+  error: ApiError,
+  context: RequestContext
+) => Awaitable<ApiResponse<unknown> | void>;
+
+export interface Interceptor {
+  name?: string;
+  request?: RequestInterceptor;
+  response?: ResponseInterceptor;
+  error?: ErrorInterceptor;
+}
+
+/**
+ * Ordered list of interceptors; hooks run in registration order
+ */
+export class InterceptorChain {
+  private interceptors: Interceptor[] = [];
+
+  /**
+   * Register an interceptor, returns a function that removes it again
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((item) => item !== interceptor);
+    };
+  }
+
+  clear(): void {
+    this.interceptors = [];
+  }
+
+  async runRequest(context: RequestContext): Promise<{ context: RequestContext; response?: ApiResponse<unknown> }> {
+    let current = context;
+
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.request) continue;
+
+      const result = await interceptor.request(current);
+      if (isShortCircuit(result)) {
+        return { context: current, response: result.response };
+      }
+      if (result) {
+        current = result;
+      }
+    }
+
+    return { context: current };
+  }
+
+  async runResponse<T>(response: ApiResponse<T>, context: RequestContext): Promise<ApiResponse<T>> {
+    let current = response;
+
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.response) continue;
+
+      // Hooks are shared by every request and don't know its body type
+      const result = await interceptor.response(current, context);
+      if (result) {
+        current = result as ApiResponse<T>;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Give every error hook a chance to recover; rethrows when none does
+   */
+  async runError<T>(error: ApiError, context: RequestContext): Promise<ApiResponse<T>> {
+    let current = error;
+
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.error) continue;
+
+      try {
+        const result = await interceptor.error(current, context);
+        if (result) {
+          return result as ApiResponse<T>;
+        }
+      } catch (replacement) {
+        current = replacement as ApiError;
+      }
+    }
+
+    throw current;
+  }
+}
+
+// ===== Built-in interceptors =====
+
+/**
+ * Send the active next-intl locale (mirrored on <html lang>) as Accept-Language
+ */
+export function localeInterceptor(): Interceptor {
+  return {
+    name: 'locale',
+    request: (context) => {
+      if (typeof document === 'undefined') return;
+
+      const locale = document.documentElement.lang;
+      if (locale && !context.headers['Accept-Language']) {
+        context.headers['Accept-Language'] = locale;
+      }
+    },
+  };
+}
+
+/**
+ * Measure how long each request took and expose it on response.meta
+ */
+export function timingInterceptor(): Interceptor {
+  const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+  return {
+    name: 'timing',
+    request: (context) => {
+      context.meta.startedAt = now();
+    },
+    response: (response, context) => {
+      const { startedAt } = context.meta;
+      if (typeof startedAt !== 'number') return;
+
+      return {
+        ...response,
+        meta: {
+          ...response.meta,
+          durationMs: Math.round(now() - startedAt),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Online/offline detection for ApiClient
+ * Combines the browser's online flag with what requests actually see, so a
+ * VPN that drops packets while the OS still reports "online" counts too
+ */
+
+import type { Interceptor } from './interceptors';
+
+// offline: the browser has no network; unreachable: it has one, but requests fail
+export type NetworkState = 'online' | 'offline' | 'unreachable';
+
+type Listener = (state: NetworkState) => void;
+
+export class NetworkMonitor {
+  private browserOnline = true;
+  private reachable = true;
+  private listeners = new Set<Listener>();
+  private started = false;
+
+  get state(): NetworkState {
+    if (!this.browserOnline) return 'offline';
+    return this.reachable ? 'online' : 'unreachable';
+  }
+
+  get isOnline(): boolean {
+    return this.state === 'online';
+  }
+
+  /**
+   * Follow the browser's online/offline events; safe to call more than once
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    this.browserOnline = navigator.onLine;
+    window.addEventListener('online', () => this.setBrowserOnline(true));
+    window.addEventListener('offline', () => this.setBrowserOnline(false));
+  }
+
+  markReachable(): void {
+    this.setReachable(true);
+  }
+
+  markUnreachable(): void {
+    this.setReachable(false);
+  }
+
+  /**
+   * Get notified when the state changes, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setBrowserOnline(online: boolean): void {
+    // Coming back online: assume reachable until a request says otherwise
+    this.update(() => {
+      this.browserOnline = online;
+      if (online) this.reachable = true;
+    });
+  }
+
+  private setReachable(reachable: boolean): void {
+    this.update(() => {
+      this.reachable = reachable;
+    });
+  }
+
+  private update(change: () => void): void {
+    const previous = this.state;
+    change();
+    if (this.state !== previous) {
+      this.listeners.forEach((listener) => listener(this.state));
+    }
+  }
+}
+
+export const networkMonitor = new NetworkMonitor();
+
+/**
+ * Feed request outcomes into the monitor: any answer from the server means
+ * it is reachable, a network failure means it is not
+ */
+export function networkInterceptor(monitor: NetworkMonitor = networkMonitor): Interceptor {
+  return {
+    name: 'network',
+    response: (response) => {
+      if (response.meta?.httpStatus !== undefined) {
+        monitor.markReachable();
+      }
+    },
+    error: (error) => {
+      if (error.code === 'NETWORK_ERROR') {
+        monitor.markUnreachable();
+      }
+    },
+  };
+}
@@ -0,0 +1,302 @@
+import { ApiClient, ApiError } from './client';
+import { isShortCircuit, RequestContext } from './interceptors';
+import type { NetworkMonitor } from './network';
+import {
+  MutationOutbox,
+  OutboxEntry,
+  OutboxSender,
+  OutboxStore,
+  QUEUED_OFFLINE,
+  outboxInterceptor,
+  outboxSender,
+} from './outbox';
+import type { ApiResponse } from './types';
+
+// In-memory store that also lets a test seed what a previous page left behind
+function createStore(initial: OutboxEntry[] = []): OutboxStore & { entries: Map<string, OutboxEntry> } {
+  const entries = new Map(initial.map((entry) => [entry.id, entry]));
+  return {
+    entries,
+    getAll: async () => Array.from(entries.values()),
+    put: async (entry) => {
+      entries.set(entry.id, entry);
+    },
+    delete: async (id) => {
+      entries.delete(id);
+    },
+  };
+}
+
+const success: ApiResponse<unknown> = { status: 'success', body: null };
+
+function failure(httpStatus: number, code = 'API_ERROR'): ApiResponse<unknown> {
+  return { status: 'error', error: { code, message: 'Rejected' }, meta: { httpStatus } };
+}
+
+function queued(key: string, overrides: Partial<OutboxEntry> = {}) {
+  return {
+    backendId: 'default',
+    method: 'PATCH',
+    endpoint: `/users/${key}`,
+    body: { status: 'disabled' },
+    idempotencyKey: key,
+    label: `Disable ${key}`,
+    ...overrides,
+  };
+}
+
+describe('MutationOutbox', () => {
+  let send: jest.MockedFunction<OutboxSender>;
+  let store: ReturnType<typeof createStore>;
+  let outbox: MutationOutbox;
+
+  beforeEach(() => {
+    send = jest.fn<ReturnType<OutboxSender>, Parameters<OutboxSender>>().mockResolvedValue(success);
+    store = createStore();
+    outbox = new MutationOutbox(send, store);
+    outbox.setOwner('alice');
+  });
+
+  it('stores entries for the owner in the order they were queued', async () => {
+    await outbox.enqueue(queued('a'));
+    await outbox.enqueue(queued('b', { backendId: 'staging' }));
+
+    const entries = outbox.list();
+    expect(entries.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(entries[0]).toMatchObject({ ownerId: 'alice', backendId: 'default', status: 'pending', attempts: 0 });
+    expect(entries[1].backendId).toBe('staging');
+    expect(entries[1].sequence).toBeGreaterThan(entries[0].sequence);
+    expect(store.entries.size).toBe(2);
+  });
+
+  it('stores an operation queued twice once', async () => {
+    const first = await outbox.enqueue(queued('a'));
+    const second = await outbox.enqueue(queued('a', { label: 'Resubmitted' }));
+
+    expect(second).toBe(first);
+    expect(outbox.list()).toHaveLength(1);
+  });
+
+  it("lists only the signed-in user's entries", async () => {
+    await outbox.enqueue(queued('a'));
+    outbox.setOwner('bob');
+    await outbox.enqueue(queued('b'));
+
+    expect(outbox.list().map((entry) => entry.id)).toEqual(['b']);
+    outbox.setOwner('alice');
+    expect(outbox.list().map((entry) => entry.id)).toEqual(['a']);
+  });
+
+  it('replays pending entries in order and removes them once sent', async () => {
+    await outbox.enqueue(queued('a'));
+    await outbox.enqueue(queued('b'));
+
+    await outbox.flush();
+
+    expect(send.mock.calls.map(([entry]) => entry.id)).toEqual(['a', 'b']);
+    expect(send.mock.calls[0][0]).toMatchObject({ status: 'sending', attempts: 1, idempotencyKey: 'a' });
+    expect(outbox.list()).toEqual([]);
+    expect(store.entries.size).toBe(0);
+  });
+
+  it("never replays another user's entries", async () => {
+    await outbox.enqueue(queued('a'));
+    outbox.setOwner('bob');
+
+    await outbox.flush();
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('stops at a network error so later entries do not overtake it', async () => {
+    send.mockRejectedValueOnce(new ApiError(0, 'NETWORK_ERROR', 'Network request failed'));
+    await outbox.enqueue(queued('a'));
+    await outbox.enqueue(queued('b'));
+
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.list().map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: 'a', status: 'pending' },
+      { id: 'b', status: 'pending' },
+    ]);
+    expect(outbox.list()[0].error).toEqual({ code: 'NETWORK_ERROR', message: 'Network request failed' });
+  });
+
+  it.each([401, 429, 503])('keeps the entry pending and stops on HTTP %i', async (status) => {
+    send.mockResolvedValueOnce(failure(status));
+    await outbox.enqueue(queued('a'));
+    await outbox.enqueue(queued('b'));
+
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.list()[0]).toMatchObject({ status: 'pending', attempts: 1 });
+  });
+
+  it.each([404, 409, 410, 412, 422])('marks the entry as a conflict on HTTP %i and goes on', async (status) => {
+    send.mockResolvedValueOnce(failure(status, 'ORDER_NOT_PENDING'));
+    await outbox.enqueue(queued('a'));
+    await outbox.enqueue(queued('b'));
+
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.list()).toEqual([
+      expect.objectContaining({
+        id: 'a',
+        status: 'conflict',
+        error: { code: 'ORDER_NOT_PENDING', message: 'Rejected' },
+      }),
+    ]);
+  });
+
+  it('marks other rejections as failed', async () => {
+    send.mockResolvedValueOnce(failure(400));
+    await outbox.enqueue(queued('a'));
+
+    await outbox.flush();
+
+    expect(outbox.list()[0].status).toBe('failed');
+  });
+
+  it('sends a failed entry again on retry', async () => {
+    send.mockResolvedValueOnce(failure(400));
+    await outbox.enqueue(queued('a'));
+    await outbox.flush();
+
+    await outbox.retry('a');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].attempts).toBe(2);
+    expect(outbox.list()).toEqual([]);
+  });
+
+  it('discards an entry', async () => {
+    await outbox.enqueue(queued('a'));
+    await outbox.discard('a');
+
+    expect(outbox.list()).toEqual([]);
+    expect(store.entries.size).toBe(0);
+  });
+
+  it('runs one replay at a time', async () => {
+    await outbox.enqueue(queued('a'));
+
+    await Promise.all([outbox.flush(), outbox.flush()]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes entries a closed tab left as sending, after the stored ones', async () => {
+    const stored: OutboxEntry = {
+      ...queued('a'),
+      id: 'a',
+      ownerId: 'alice',
+      sequence: Date.now() + 60000,
+      status: 'sending',
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+    };
+    outbox = new MutationOutbox(send, createStore([stored]));
+    outbox.setOwner('alice');
+
+    expect((await outbox.load())[0].status).toBe('pending');
+
+    const added = await outbox.enqueue(queued('b'));
+    expect(added.sequence).toBeGreaterThan(stored.sequence);
+  });
+
+  it('notifies subscribers of changes', async () => {
+    const listener = jest.fn();
+    const unsubscribe = outbox.subscribe(listener);
+
+    await outbox.enqueue(queued('a'));
+    expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'a' })]);
+
+    unsubscribe();
+    listener.mockClear();
+    await outbox.discard('a');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('outboxSender', () => {
+  it("replays through the client of the entry's backend with its original key", async () => {
+    const clients = {
+      default: { patch: jest.fn().mockResolvedValue(success) },
+      staging: { patch: jest.fn().mockResolvedValue(success), delete: jest.fn().mockResolvedValue(success) },
+    };
+    const send = outboxSender((backendId) => clients[backendId as keyof typeof clients] as unknown as ApiClient);
+    const entry = await new MutationOutbox(send, createStore()).enqueue(queued('a', { backendId: 'staging' }));
+
+    await send(entry);
+    await send({ ...entry, method: 'DELETE' });
+
+    expect(clients.default.patch).not.toHaveBeenCalled();
+    expect(clients.staging.patch).toHaveBeenCalledWith(
+      '/users/a',
+      { status: 'disabled' },
+      { idempotencyKey: 'a', retry: false }
+    );
+    expect(clients.staging.delete).toHaveBeenCalledWith('/users/a', { idempotencyKey: 'a', retry: false });
+  });
+});
+
+describe('outboxInterceptor', () => {
+  const context = (overrides: Partial<RequestContext> = {}): RequestContext => ({
+    method: 'PATCH',
+    endpoint: '/users/a',
+    url: 'http://localhost/users/a',
+    headers: {},
+    body: { status: 'disabled' },
+    options: { idempotencyKey: 'a', outbox: { label: 'Disable a' } },
+    meta: {},
+    ...overrides,
+  });
+
+  const monitor = (state: NetworkMonitor['state']) => ({ state }) as NetworkMonitor;
+
+  let outbox: MutationOutbox;
+
+  beforeEach(() => {
+    outbox = new MutationOutbox(jest.fn(), createStore());
+    outbox.setOwner('alice');
+  });
+
+  it("queues opted-in mutations for the client's backend while offline", async () => {
+    const interceptor = outboxInterceptor(outbox, 'staging', monitor('offline'));
+
+    const result = await interceptor.request!(context());
+
+    expect(isShortCircuit(result) && result.response.error?.code).toBe(QUEUED_OFFLINE);
+    expect(outbox.list()).toEqual([expect.objectContaining({ id: 'a', backendId: 'staging', label: 'Disable a' })]);
+  });
+
+  it('lets requests through while online', async () => {
+    const interceptor = outboxInterceptor(outbox, 'default', monitor('online'));
+
+    expect(await interceptor.request!(context())).toBeUndefined();
+    expect(outbox.list()).toEqual([]);
+  });
+
+  it('queues a mutation that failed with NETWORK_ERROR', async () => {
+    const interceptor = outboxInterceptor(outbox, 'default', monitor('online'));
+
+    const response = await interceptor.error!(new ApiError(0, 'NETWORK_ERROR', 'Failed'), context());
+
+    expect(response).toMatchObject({ status: 'error', error: { code: QUEUED_OFFLINE, details: { outboxId: 'a' } } });
+    expect(outbox.list()).toHaveLength(1);
+  });
+
+  it('never queues requests that did not opt in, have no key or upload files', async () => {
+    const interceptor = outboxInterceptor(outbox, 'default', monitor('offline'));
+
+    await interceptor.request!(context({ options: { idempotencyKey: 'a' } }));
+    await interceptor.request!(context({ options: { outbox: { label: 'No key' } } }));
+    await interceptor.request!(context({ body: new FormData() }));
+    await interceptor.request!(context({ method: 'GET' }));
+
+    expect(outbox.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Durable mutation outbox
+ * Idempotency-keyed mutations that opt in with options.outbox are stored in
+ * IndexedDB when the network is down and replayed in order once it is back.
+ * Replays reuse the original key, so an action the server did receive
+ * before the connection dropped is applied once, even if two tabs replay it.
+ */
+
+import type { ApiClient, ApiError } from './client';
+import type { ApiResponse } from './types';
+import { respondWith, Interceptor, RequestContext } from './interceptors';
+import { isMutatingMethod } from './idempotency';
+import { isRetryableErrorCode } from './retry';
+import { NetworkMonitor, networkMonitor } from './network';
+
+// pending: waits for the network; failed: rejected by the server;
+// conflict: the target changed or went away since the action was queued
+export type OutboxStatus = 'pending' | 'sending' | 'failed' | 'conflict';
+
+export interface OutboxOptions {
+  label: string; // what the action does, shown in the outbox, e.g. "Disable user alice"
+}
+
+export interface OutboxEntry {
+  id: string;
+  ownerId: string | null; // user who queued it; only replayed for that user
+  backendId: string; // backend it was queued for; only ever replayed there
+  sequence: number; // replay order
+  method: string;
+  endpoint: string;
+  body?: unknown;
+  idempotencyKey: string;
+  label: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  error?: { code: string; message: string };
+}
+
+export type OutboxSender = (entry: OutboxEntry) => Promise<ApiResponse<unknown>>;
+
+export interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+// Error code of the response a queued request resolves to
+export const QUEUED_OFFLINE = 'QUEUED_OFFLINE';
+
+// Statuses after which the server may accept the same request later
+const TRANSIENT_STATUSES = [401, 408, 429, 502, 503, 504];
+
+// Statuses meaning the target changed or went away since the action was queued
+const CONFLICT_STATUSES = [404, 409, 410, 412, 422];
+
+const DB_NAME = 'mini-exchange-admin';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function indexedDbStore(): OutboxStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      database = requestToPromise(request);
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return requestToPromise(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    getAll: () => run('readonly', (store) => store.getAll() as IDBRequest<OutboxEntry[]>),
+    put: async (entry) => {
+      await run('readwrite', (store) => store.put(entry));
+    },
+    delete: async (id) => {
+      await run('readwrite', (store) => store.delete(id));
+    },
+  };
+}
+
+// Server-side rendering and browsers without IndexedDB keep the outbox for the page's lifetime
+function memoryStore(): OutboxStore {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    getAll: async () => Array.from(entries.values()),
+    put: async (entry) => {
+      entries.set(entry.id, entry);
+    },
+    delete: async (id) => {
+      entries.delete(id);
+    },
+  };
+}
+
+export class MutationOutbox {
+  private entries: OutboxEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private ownerId: string | null = null;
+  private listeners = new Set<Listener>();
+  private lastSequence = 0;
+
+  constructor(
+    private send: OutboxSender,
+    private store?: OutboxStore
+  ) {}
+
+  /**
+   * Entries of the signed-in user only: tokens are per user, so another
+   * user's actions must not be replayed with them
+   */
+  setOwner(ownerId: string | null): void {
+    if (ownerId === this.ownerId) return;
+    this.ownerId = ownerId;
+    this.notify();
+  }
+
+  /**
+   * The owner's entries in replay order
+   */
+  list(): OutboxEntry[] {
+    return this.entries
+      .filter((entry) => entry.ownerId === this.ownerId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async load(): Promise<OutboxEntry[]> {
+    await this.ensureLoaded();
+    return this.list();
+  }
+
+  async enqueue(
+    input: Pick<OutboxEntry, 'backendId' | 'method' | 'endpoint' | 'body' | 'idempotencyKey' | 'label'>
+  ): Promise<OutboxEntry> {
+    await this.ensureLoaded();
+
+    // The same operation queued twice (e.g. a resubmit while offline) is stored once
+    const existing = this.entries.find((entry) => entry.idempotencyKey === input.idempotencyKey);
+    if (existing) return existing;
+
+    const entry: OutboxEntry = {
+      ...input,
+      id: input.idempotencyKey,
+      ownerId: this.ownerId,
+      sequence: this.nextSequence(),
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await this.save(entry);
+    return entry;
+  }
+
+  /**
+   * Send a failed or conflicted entry again on the next flush
+   */
+  async retry(id: string): Promise<void> {
+    await this.ensureLoaded();
+    const entry = this.entries.find((item) => item.id === id);
+    if (!entry || entry.status === 'sending') return;
+
+    await this.save({ ...entry, status: 'pending', error: undefined });
+    await this.flush();
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    await this.getStore().delete(id);
+    this.notify();
+  }
+
+  /**
+   * Replay the owner's pending entries in order. Stops at the first one
+   * that fails for a transient reason (still offline, session expired),
+   * so later actions never overtake it.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replayPending().then(
+        () => {
+          this.flushing = null;
+        },
+        (error) => {
+          this.flushing = null;
+          throw error;
+        }
+      );
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Get notified when the owner's entries change, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async replayPending(): Promise<void> {
+    await this.ensureLoaded();
+
+    for (const queued of this.list().filter((entry) => entry.status === 'pending')) {
+      const entry: OutboxEntry = {
+        ...queued,
+        status: 'sending',
+        attempts: queued.attempts + 1,
+        lastAttemptAt: new Date().toISOString(),
+      };
+      await this.save(entry);
+
+      let response: ApiResponse<unknown>;
+      try {
+        response = await this.send(entry);
+      } catch (error) {
+        const { code, message } = error as ApiError;
+        const transient = isRetryableErrorCode(code) || code === 'ABORTED' || code === 'RATE_LIMITED';
+        await this.save({ ...entry, status: transient ? 'pending' : 'failed', error: { code, message } });
+        if (transient) return;
+        continue;
+      }
+
+      if (response.status === 'success') {
+        this.entries = this.entries.filter((item) => item.id !== entry.id);
+        await this.getStore().delete(entry.id);
+        this.notify();
+        continue;
+      }
+
+      const status = response.meta?.httpStatus ?? 0;
+      const error = {
+        code: response.error?.code || 'API_ERROR',
+        message: response.error?.message || 'Request failed',
+      };
+
+      if (TRANSIENT_STATUSES.includes(status)) {
+        await this.save({ ...entry, status: 'pending', error });
+        return;
+      }
+      await this.save({ ...entry, status: CONFLICT_STATUSES.includes(status) ? 'conflict' : 'failed', error });
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.getStore()
+        .getAll()
+        .then((entries) => {
+          // A tab closed mid-replay leaves entries marked as sending
+          this.entries = entries.map((entry) => (entry.status === 'sending' ? { ...entry, status: 'pending' } : entry));
+          this.lastSequence = entries.reduce((max, entry) => Math.max(max, entry.sequence), this.lastSequence);
+          this.notify();
+        })
+        .catch((error) => {
+          console.error('Failed to load the outbox:', error);
+          this.store = memoryStore();
+        });
+    }
+    return this.loaded;
+  }
+
+  private getStore(): OutboxStore {
+    if (!this.store) {
+      this.store = typeof indexedDB === 'undefined' ? memoryStore() : indexedDbStore();
+    }
+    return this.store;
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    const index = this.entries.findIndex((item) => item.id === entry.id);
+    if (index === -1) {
+      this.entries.push(entry);
+    } else {
+      this.entries[index] = entry;
+    }
+    this.notify();
+    await this.getStore().put(entry);
+  }
+
+  private nextSequence(): number {
+    this.lastSequence = Math.max(this.lastSequence + 1, Date.now());
+    return this.lastSequence;
+  }
+
+  private notify(): void {
+    const entries = this.list();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
+
+/**
+ * Replay an entry through the client with its original method, body and
+ * key; no outbox option, so a replay that fails is never queued twice.
+ * The client is the one of the entry's backend, whichever is active now.
+ */
+export function outboxSender(getClient: (backendId: string) => ApiClient): OutboxSender {
+  return (entry) => {
+    const client = getClient(entry.backendId);
+    const options = { idempotencyKey: entry.idempotencyKey, retry: false as const };
+    switch (entry.method) {
+      case 'POST':
+        return client.post(entry.endpoint, entry.body, options);
+      case 'PUT':
+        return client.put(entry.endpoint, entry.body, options);
+      case 'PATCH':
+        return client.patch(entry.endpoint, entry.body, options);
+      default:
+        return client.delete(entry.endpoint, options);
+    }
+  };
+}
+
+// Only JSON bodies survive IndexedDB and a page reload; uploads are never queued
+function canQueue(context: RequestContext): boolean {
+  const { outbox, idempotencyKey } = context.options;
+  const isRawBody =
+    (typeof FormData !== 'undefined' && context.body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && context.body instanceof Blob);
+  return Boolean(outbox && idempotencyKey && isMutatingMethod(context.method) && !isRawBody);
+}
+
+async function queue(outbox: MutationOutbox, backendId: string, context: RequestContext): Promise<ApiResponse<never>> {
+  const entry = await outbox.enqueue({
+    backendId,
+    method: context.method,
+    endpoint: context.endpoint,
+    body: context.body,
+    idempotencyKey: context.options.idempotencyKey as string,
+    label: context.options.outbox!.label,
+  });
+
+  return {
+    status: 'error',
+    error: {
+      code: QUEUED_OFFLINE,
+      message: 'Saved to the outbox; it will be sent when the connection is back',
+      details: { outboxId: entry.id },
+    },
+    meta: { idempotencyKey: entry.idempotencyKey },
+  };
+}
+
+/**
+ * Queue opted-in mutations of a backend's client instead of failing them:
+ * straight away while the browser is offline, or after the client gave up
+ * with NETWORK_ERROR
+ */
+export function outboxInterceptor(
+  outbox: MutationOutbox,
+  backendId: string,
+  monitor: NetworkMonitor = networkMonitor
+): Interceptor {
+  return {
+    name: 'outbox',
+    request: async (context) => {
+      if (monitor.state === 'offline' && canQueue(context)) {
+        return respondWith(await queue(outbox, backendId, context));
+      }
+    },
+    error: async (error, context) => {
+      if (error.code === 'NETWORK_ERROR' && canQueue(context)) {
+        return queue(outbox, backendId, context);
+      }
+    },
+  };
+}
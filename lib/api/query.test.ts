@@ -0,0 +1,56 @@
+import { createQuerySerializer, serializeQuery } from './query';
+
+// Decoded, so brackets and commas read as written
+const decoded = (query: string) => decodeURIComponent(query);
+
+describe('serializeQuery', () => {
+  it('writes scalars as strings and booleans as true/false', () => {
+    expect(serializeQuery({ page: 2, search: 'alice', active: false })).toBe('page=2&search=alice&active=false');
+  });
+
+  it('leaves out undefined, null and non-finite values', () => {
+    expect(serializeQuery({ a: undefined, b: null, c: NaN, d: Infinity, e: 0 })).toBe('e=0');
+  });
+
+  it('writes dates as ISO strings and skips invalid ones', () => {
+    const from = new Date(Date.UTC(2024, 0, 31, 12, 0, 0));
+    expect(decoded(serializeQuery({ from, to: new Date('not a date') }))).toBe('from=2024-01-31T12:00:00.000Z');
+  });
+
+  it('repeats the key for arrays by default and drops empty items', () => {
+    expect(serializeQuery({ status: ['open', null, 'filled'] })).toBe('status=open&status=filled');
+    expect(serializeQuery({ status: [] })).toBe('');
+  });
+
+  it('writes nested ranges with brackets by default', () => {
+    expect(decoded(serializeQuery({ price: { min: 1, max: 5 } }))).toBe('price[min]=1&price[max]=5');
+  });
+
+  it('drops the empty side of a range', () => {
+    expect(decoded(serializeQuery({ price: { min: 1, max: undefined } }))).toBe('price[min]=1');
+  });
+
+  it('escapes values', () => {
+    expect(serializeQuery({ search: 'a&b=c d' })).toBe('search=a%26b%3Dc+d');
+  });
+});
+
+describe('createQuerySerializer', () => {
+  it('joins arrays with commas in comma format', () => {
+    const serialize = createQuerySerializer({ arrayFormat: 'comma' });
+    expect(decoded(serialize({ status: ['open', 'filled'] }))).toBe('status=open,filled');
+  });
+
+  it('writes nested objects with dots in dot format', () => {
+    const serialize = createQuerySerializer({ objectFormat: 'dot' });
+    expect(serialize({ createdAt: { from: '2024-01-01' } })).toBe('createdAt.from=2024-01-01');
+  });
+
+  it('serializes arrays and dates inside nested objects', () => {
+    const serialize = createQuerySerializer();
+    const from = new Date(Date.UTC(2024, 5, 1));
+    expect(decoded(serialize({ filter: { side: ['buy', 'sell'], from } }))).toBe(
+      'filter[side]=buy&filter[side]=sell&filter[from]=2024-06-01T00:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Query-string serialization for ApiClient
+ * Turns filter objects into query strings: arrays as repeated keys or one
+ * comma-separated value, dates as ISO strings, booleans as true/false and
+ * nested objects such as { min, max } ranges as price[min]=1 or price.min=1
+ */
+
+export type ArrayFormat = 'repeat' | 'comma';
+export type ObjectFormat = 'bracket' | 'dot';
+
+export interface QuerySerializerOptions {
+  arrayFormat: ArrayFormat; // repeat: status=a&status=b, comma: status=a,b
+  objectFormat: ObjectFormat; // bracket: price[min]=1, dot: price.min=1
+}
+
+// Filter objects passed as GET params; interfaces have no index signature, hence object
+export type QueryValues = object;
+
+export type QuerySerializer = (params: QueryValues) => string;
+
+export const defaultQueryOptions: QuerySerializerOptions = {
+  arrayFormat: 'repeat',
+  objectFormat: 'bracket',
+};
+
+/**
+ * String form of a single value, or undefined when it should be left out
+ */
+function scalar(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString();
+  }
+  if (typeof value === 'number') {
+    return isFinite(value) ? String(value) : undefined;
+  }
+  return String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+/**
+ * Build a serializer; ApiClient uses `serializeQuery`, a backend that
+ * expects another format can be given its own via `apiClient.querySerializer`
+ */
+export function createQuerySerializer(options: Partial<QuerySerializerOptions> = {}): QuerySerializer {
+  const { arrayFormat, objectFormat } = { ...defaultQueryOptions, ...options };
+  const childKey = (key: string, name: string) => (objectFormat === 'dot' ? `${key}.${name}` : `${key}[${name}]`);
+
+  const append = (searchParams: URLSearchParams, key: string, value: unknown): void => {
+    if (Array.isArray(value)) {
+      const items = value.map(scalar).filter((item): item is string => item !== undefined);
+      if (items.length === 0) return;
+      if (arrayFormat === 'comma') {
+        searchParams.append(key, items.join(','));
+      } else {
+        items.forEach((item) => searchParams.append(key, item));
+      }
+      return;
+    }
+
+    if (isPlainObject(value)) {
+      Object.keys(value).forEach((name) => append(searchParams, childKey(key, name), value[name]));
+      return;
+    }
+
+    const item = scalar(value);
+    if (item !== undefined) {
+      searchParams.append(key, item);
+    }
+  };
+
+  return (params) => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => append(searchParams, key, value));
+    return searchParams.toString();
+  };
+}
+
+export const serializeQuery = createQuerySerializer();
@@ -0,0 +1,154 @@
+import { RateLimiter, parseRetryAfter, rateLimitBucket } from './rate-limit';
+
+const NOW = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers });
+}
+
+describe('rateLimitBucket', () => {
+  it('collapses id-like segments and drops the query', () => {
+    expect(rateLimitBucket('/users/42?include=roles')).toBe('/users/:id');
+    expect(rateLimitBucket('/orders/ord_9f3a/cancel')).toBe('/orders/:id/cancel');
+  });
+
+  it('keeps version segments', () => {
+    expect(rateLimitBucket('/v1/auth/login')).toBe('/v1/auth/login');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('3', NOW)).toBe(3000);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter(new Date(NOW + 5000).toUTCString(), NOW)).toBe(5000);
+  });
+
+  it('never returns a negative wait', () => {
+    expect(parseRetryAfter('-1', NOW)).toBe(0);
+    expect(parseRetryAfter(new Date(NOW - 5000).toUTCString(), NOW)).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(null, NOW)).toBeUndefined();
+    expect(parseRetryAfter('soon', NOW)).toBeUndefined();
+  });
+});
+
+describe('RateLimiter', () => {
+  it('records the quota from X-RateLimit headers', () => {
+    const limiter = new RateLimiter();
+    limiter.update(
+      '/orders',
+      response(200, { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '7', 'X-RateLimit-Reset': '30' }),
+      NOW
+    );
+
+    expect(limiter.get('/orders')).toEqual({ limit: 100, remaining: 7, resetAt: NOW + 30000, waiting: 0 });
+    expect(limiter.delayFor('/orders', NOW)).toBe(0);
+  });
+
+  it('reads large reset values as Unix timestamps', () => {
+    const limiter = new RateLimiter();
+    const resetAt = NOW + 10000;
+    limiter.update('/orders', response(200, { 'X-RateLimit-Reset': String(resetAt / 1000), 'X-RateLimit-Remaining': '0' }), NOW);
+
+    expect(limiter.get('/orders')?.resetAt).toBe(resetAt);
+    expect(limiter.delayFor('/orders', NOW)).toBe(10000);
+  });
+
+  it('ignores responses without rate-limit headers', () => {
+    const limiter = new RateLimiter();
+    limiter.update('/orders', response(200), NOW);
+    expect(limiter.get('/orders')).toBeUndefined();
+  });
+
+  it('closes the bucket for Retry-After on a 429', () => {
+    const limiter = new RateLimiter();
+    limiter.update('/orders', response(429, { 'Retry-After': '2' }), NOW);
+
+    expect(limiter.get('/orders')).toMatchObject({ remaining: 0, retryAt: NOW + 2000 });
+    expect(limiter.delayFor('/orders', NOW)).toBe(2000);
+    expect(limiter.delayFor('/orders', NOW + 2500)).toBe(0);
+  });
+
+  it('backs off for a second on a 429 without any hint', () => {
+    const limiter = new RateLimiter();
+    limiter.update('/orders', response(429), NOW);
+    expect(limiter.delayFor('/orders', NOW)).toBe(1000);
+  });
+
+  it('waits for the reset on a 429 without Retry-After', () => {
+    const limiter = new RateLimiter();
+    limiter.update('/orders', response(429, { 'X-RateLimit-Reset': '20' }), NOW);
+    expect(limiter.delayFor('/orders', NOW)).toBe(20000);
+  });
+
+  describe('acquire', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('spends local quota without waiting while the bucket is open', async () => {
+      const limiter = new RateLimiter();
+      limiter.update('/orders', response(200, { 'X-RateLimit-Remaining': '2' }));
+
+      await expect(limiter.acquire('/orders')).resolves.toBe(true);
+      expect(limiter.get('/orders')?.remaining).toBe(1);
+    });
+
+    it('holds the request back until Retry-After has passed', async () => {
+      const limiter = new RateLimiter();
+      limiter.update('/orders', response(429, { 'Retry-After': '3' }));
+
+      const acquired = jest.fn();
+      const pending = limiter.acquire('/orders').then(acquired);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(acquired).not.toHaveBeenCalled();
+      expect(limiter.get('/orders')?.waiting).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      await pending;
+      expect(acquired).toHaveBeenCalledWith(true);
+      expect(limiter.get('/orders')?.waiting).toBe(0);
+    });
+
+    it('gives up at once when the wait exceeds maxWait', async () => {
+      const limiter = new RateLimiter(5000);
+      limiter.update('/orders', response(429, { 'Retry-After': '60' }));
+      await expect(limiter.acquire('/orders')).resolves.toBe(false);
+    });
+
+    it('rejects when the caller aborts while waiting', async () => {
+      const limiter = new RateLimiter();
+      limiter.update('/orders', response(429, { 'Retry-After': '3' }));
+
+      const controller = new AbortController();
+      const pending = limiter.acquire('/orders', controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(limiter.get('/orders')?.waiting).toBe(0);
+    });
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const limiter = new RateLimiter();
+    const listener = jest.fn();
+    const unsubscribe = limiter.subscribe(listener);
+
+    limiter.update('/orders', response(200, { 'X-RateLimit-Remaining': '5' }), NOW);
+    expect(listener).toHaveBeenCalledWith('/orders', expect.objectContaining({ remaining: 5 }));
+
+    unsubscribe();
+    limiter.update('/orders', response(200, { 'X-RateLimit-Remaining': '4' }), NOW);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
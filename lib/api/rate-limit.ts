@@ -0,0 +1,180 @@
+/**
+ * Rate-limit awareness for ApiClient
+ * Tracks the server's quota per endpoint bucket from X-RateLimit-* and
+ * Retry-After headers, holds requests back while a bucket is exhausted and
+ * lets the UI show what is left
+ */
+
+import type { RateLimitQuota } from './types';
+import { waitForRetry } from './retry';
+
+export const RATE_LIMIT_HEADERS = {
+  limit: 'X-RateLimit-Limit',
+  remaining: 'X-RateLimit-Remaining',
+  reset: 'X-RateLimit-Reset', // seconds until reset, or a Unix timestamp in seconds
+  retryAfter: 'Retry-After', // seconds, or an HTTP date
+};
+
+// Requests are never held back longer than this; they fail with RATE_LIMITED instead
+export const MAX_RATE_LIMIT_WAIT = 60000;
+
+// Times a request is sent again after a 429, on top of the normal retry policy
+export const MAX_RATE_LIMIT_RETRIES = 3;
+
+// Reset values above this are Unix timestamps rather than relative seconds
+const EPOCH_THRESHOLD = 1e9;
+
+export interface RateLimitState extends RateLimitQuota {
+  retryAt?: number; // ms timestamp before which the server asked us not to call
+  waiting: number; // requests currently held back in this bucket
+}
+
+type Listener = (bucket: string, state: RateLimitState) => void;
+
+/**
+ * Bucket for an endpoint: the path without query, with id-like segments
+ * collapsed, so /users/42 and /users/43 share a quota
+ */
+export function rateLimitBucket(endpoint: string): string {
+  const path = endpoint.split('?')[0];
+  return path
+    .split('/')
+    .map((segment) => (/\d/.test(segment) && !/^v\d+$/.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+/**
+ * Milliseconds to wait from a Retry-After value, or undefined
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, RateLimitState>();
+  private listeners = new Set<Listener>();
+
+  constructor(private maxWait: number = MAX_RATE_LIMIT_WAIT) {}
+
+  get(bucket: string): RateLimitState | undefined {
+    const state = this.buckets.get(bucket);
+    return state ? { ...state } : undefined;
+  }
+
+  /**
+   * Every bucket the server has reported on so far
+   */
+  entries(): Array<[string, RateLimitState]> {
+    return Array.from(this.buckets.entries()).map(([bucket, state]) => [bucket, { ...state }]);
+  }
+
+  /**
+   * Milliseconds until the bucket may be called again, 0 when it is open
+   */
+  delayFor(bucket: string, now: number = Date.now()): number {
+    const state = this.buckets.get(bucket);
+    if (!state) return 0;
+
+    const retryDelay = state.retryAt ? state.retryAt - now : 0;
+    const quotaDelay = state.remaining === 0 && state.resetAt ? state.resetAt - now : 0;
+    return Math.max(0, retryDelay, quotaDelay);
+  }
+
+  /**
+   * Wait until the bucket has quota, then take one unit of it. Resolves to
+   * false without waiting when the bucket stays closed longer than maxWait;
+   * rejects with an AbortError when the signal fires.
+   */
+  async acquire(bucket: string, signal?: AbortSignal): Promise<boolean> {
+    for (let delay = this.delayFor(bucket); delay > 0; delay = this.delayFor(bucket)) {
+      if (delay > this.maxWait) {
+        return false;
+      }
+
+      const state = this.ensure(bucket);
+      state.waiting += 1;
+      this.notify(bucket);
+      try {
+        await waitForRetry(delay, signal);
+      } finally {
+        state.waiting -= 1;
+        this.notify(bucket);
+      }
+    }
+
+    // Spend quota locally so a burst of queued requests does not overshoot
+    const state = this.buckets.get(bucket);
+    if (state?.remaining !== undefined && state.remaining > 0) {
+      state.remaining -= 1;
+      this.notify(bucket);
+    }
+    return true;
+  }
+
+  /**
+   * Take the server's view of the quota from a response
+   */
+  update(bucket: string, response: Response, now: number = Date.now()): void {
+    const headers = response.headers;
+    const limit = parseNumber(headers.get(RATE_LIMIT_HEADERS.limit));
+    const remaining = parseNumber(headers.get(RATE_LIMIT_HEADERS.remaining));
+    const reset = parseNumber(headers.get(RATE_LIMIT_HEADERS.reset));
+    const retryAfter = parseRetryAfter(headers.get(RATE_LIMIT_HEADERS.retryAfter), now);
+
+    if (limit === undefined && remaining === undefined && retryAfter === undefined && response.status !== 429) {
+      return;
+    }
+
+    const state = this.ensure(bucket);
+    if (limit !== undefined) state.limit = limit;
+    if (remaining !== undefined) state.remaining = remaining;
+    if (reset !== undefined) state.resetAt = reset > EPOCH_THRESHOLD ? reset * 1000 : now + reset * 1000;
+
+    if (response.status === 429) {
+      // Without Retry-After, wait for the reset or back off for a second
+      state.retryAt = now + (retryAfter ?? (state.resetAt ? state.resetAt - now : 1000));
+      state.remaining = 0;
+    } else if (retryAfter !== undefined) {
+      state.retryAt = now + retryAfter;
+    }
+
+    this.notify(bucket);
+  }
+
+  /**
+   * Get notified whenever a bucket changes, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private ensure(bucket: string): RateLimitState {
+    let state = this.buckets.get(bucket);
+    if (!state) {
+      state = { waiting: 0 };
+      this.buckets.set(bucket, state);
+    }
+    return state;
+  }
+
+  private notify(bucket: string): void {
+    const state = this.buckets.get(bucket);
+    if (!state) return;
+    this.listeners.forEach((listener) => listener(bucket, { ...state }));
+  }
+}
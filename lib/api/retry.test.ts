@@ -0,0 +1,113 @@
+import {
+  canRetryRequest,
+  defaultRetryPolicy,
+  getBackoffDelay,
+  isRetryableErrorCode,
+  resolveRetryPolicy,
+  waitForRetry,
+} from './retry';
+
+describe('resolveRetryPolicy', () => {
+  it('returns the default policy without an option', () => {
+    expect(resolveRetryPolicy()).toEqual(defaultRetryPolicy);
+  });
+
+  it('disables retries with false', () => {
+    expect(resolveRetryPolicy(false)).toEqual({ ...defaultRetryPolicy, retries: 0 });
+  });
+
+  it('takes a number as the retry count and never goes below zero', () => {
+    expect(resolveRetryPolicy(5).retries).toBe(5);
+    expect(resolveRetryPolicy(-2).retries).toBe(0);
+  });
+
+  it('merges a partial policy over the default', () => {
+    expect(resolveRetryPolicy({ baseDelay: 50, retryOn: [503] })).toEqual({
+      ...defaultRetryPolicy,
+      baseDelay: 50,
+      retryOn: [503],
+    });
+  });
+});
+
+describe('canRetryRequest', () => {
+  it('retries idempotent methods in any case', () => {
+    expect(canRetryRequest('get', false)).toBe(true);
+    expect(canRetryRequest('PUT', false)).toBe(true);
+    expect(canRetryRequest('DELETE', false)).toBe(true);
+  });
+
+  it('retries POST and PATCH only with an idempotency key', () => {
+    expect(canRetryRequest('POST', false)).toBe(false);
+    expect(canRetryRequest('PATCH', false)).toBe(false);
+    expect(canRetryRequest('POST', true)).toBe(true);
+  });
+});
+
+describe('isRetryableErrorCode', () => {
+  it('retries transport failures only', () => {
+    expect(isRetryableErrorCode('NETWORK_ERROR')).toBe(true);
+    expect(isRetryableErrorCode('TIMEOUT')).toBe(true);
+    expect(isRetryableErrorCode('ABORTED')).toBe(false);
+    expect(isRetryableErrorCode('VALIDATION_FAILED')).toBe(false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const policy = { ...defaultRetryPolicy, baseDelay: 100, maxDelay: 1000 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('doubles the ceiling on every attempt', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getBackoffDelay(0, policy)).toBe(100);
+    expect(getBackoffDelay(1, policy)).toBe(200);
+    expect(getBackoffDelay(3, policy)).toBe(800);
+  });
+
+  it('caps the wait at maxDelay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getBackoffDelay(10, policy)).toBe(1000);
+  });
+
+  it('picks a random wait below the ceiling', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.25);
+    expect(getBackoffDelay(2, policy)).toBe(100);
+  });
+});
+
+describe('waitForRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves after the delay', async () => {
+    const done = jest.fn();
+    const wait = waitForRetry(500).then(done);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(done).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    await wait;
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(waitForRetry(500, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejects when the caller aborts while waiting', async () => {
+    const controller = new AbortController();
+    const wait = waitForRetry(500, controller.signal);
+    controller.abort();
+    await expect(wait).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Retry policy for ApiClient
+ * Decides which requests may be retried and how long to wait between attempts
+ */
+
+import { apiConfig } from '@/lib/env';
+
+export interface RetryPolicy {
+  retries: number; // additional attempts after the first one
+  baseDelay: number; // ms, doubled on every attempt
+  maxDelay: number; // ms, upper bound for a single wait
+  retryOn: number[]; // HTTP statuses worth another attempt
+}
+
+// Per-request retry option: a number of retries, a partial policy, or false to disable
+export type RetryOption = number | false | Partial<RetryPolicy>;
+
+export const defaultRetryPolicy: RetryPolicy = {
+  retries: apiConfig.retries,
+  baseDelay: 300,
+  maxDelay: 5000,
+  retryOn: [408, 502, 503, 504],
+};
+
+// Methods that can be repeated without changing the result on the server
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Transport failures that are worth retrying
+const RETRYABLE_ERROR_CODES = ['NETWORK_ERROR', 'TIMEOUT'];
+
+/**
+ * Merge a per-request retry option with the default policy
+ */
+export function resolveRetryPolicy(option?: RetryOption): RetryPolicy {
+  if (option === false) {
+    return { ...defaultRetryPolicy, retries: 0 };
+  }
+
+  if (typeof option === 'number') {
+    return { ...defaultRetryPolicy, retries: Math.max(0, option) };
+  }
+
+  return { ...defaultRetryPolicy, ...option };
+}
+
+/**
+ * Only idempotent or idempotency-keyed requests may be retried,
+ * otherwise a retry could e.g. cancel or create something twice
+ */
+export function canRetryRequest(method: string, hasIdempotencyKey: boolean): boolean {
+  return hasIdempotencyKey || IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Check whether a transport error code is worth retrying
+ */
+export function isRetryableErrorCode(code: string): boolean {
+  return RETRYABLE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Exponential backoff with full jitter: a random wait between 0 and
+ * baseDelay * 2^attempt, capped at maxDelay
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait before the next attempt, giving up early if the caller aborts
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
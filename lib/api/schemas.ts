@@ -0,0 +1,424 @@
+/**
+ * Runtime schemas for API response bodies
+ * Every model in ./types has a matching zod schema so that backend contract
+ * drift is reported as a VALIDATION_ERROR instead of leaking into the UI
+ */
+
+import { z } from 'zod';
+import { UserRole, Permission } from '@/lib/rbac';
+import type {
+  User,
+  Role,
+  UserStats,
+  LoginData,
+  LoginResponse,
+  MfaChallenge,
+  MfaStatus,
+  MfaEnrollment,
+  MfaRecoveryCodes,
+  Passkey,
+  PasskeyCreationOptions,
+  PasskeyRequestOptions,
+  RefreshTokenData,
+  TokenVerification,
+  UserSession,
+  RevokeSessionsResult,
+  SessionSettings,
+  Order,
+  OrderStats,
+  ExportResult,
+  Symbol as MarketSymbol,
+  Ticker,
+  OrderBook,
+  Trade,
+  Kline,
+  MarketStats24h,
+  HotSymbol,
+  AuditLog,
+  AuditLogCleanupResult,
+  PasswordPolicy,
+  SystemSettings,
+  SystemStatus,
+  SystemStats,
+  MaintenanceStatus,
+  Backup,
+  CreatedBackup,
+  PaginatedData,
+  CursorPage,
+  UploadSession,
+  UserImportResult,
+  KycDocument,
+} from './types';
+
+// Schema whose parsed output is T; input is whatever the backend sent
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const orderSide = z.enum(['buy', 'sell']);
+const orderType = z.enum(['market', 'limit', 'stop', 'stop_limit']);
+const orderStatus = z.enum(['pending', 'filled', 'cancelled', 'rejected']);
+const timeInForce = z.enum(['GTC', 'IOC', 'FOK']);
+
+/**
+ * Wrap an item schema in the PaginatedData envelope
+ */
+export function paginatedSchema<T>(item: Schema<T>): Schema<PaginatedData<T>> {
+  return z.object({
+    items: z.array(item),
+    total: z.number(),
+    page: z.number(),
+    limit: z.number(),
+    totalPages: z.number(),
+  });
+}
+
+/**
+ * Wrap an item schema in the CursorPage envelope
+ */
+export function cursorPageSchema<T>(item: Schema<T>): Schema<CursorPage<T>> {
+  return z.object({
+    items: z.array(item),
+    nextCursor: z.string().nullable(),
+    limit: z.number(),
+  });
+}
+
+// ===== Users =====
+
+export const userSchema: Schema<User> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  roles: z.array(z.nativeEnum(UserRole)),
+  isActive: z.boolean(),
+  lastLoginAt: z.coerce.date().optional(),
+  createdAt: z.coerce.date(),
+});
+
+export const roleSchema: Schema<Role> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  permissions: z.array(z.nativeEnum(Permission)),
+});
+
+export const userStatsSchema: Schema<UserStats> = z.object({
+  total: z.number(),
+  active: z.number(),
+  inactive: z.number(),
+  newThisMonth: z.number(),
+});
+
+// ===== Auth =====
+
+export const loginDataSchema: Schema<LoginData> = z.object({
+  accessToken: z.string().optional(),
+  tokenType: z.string(),
+  expiresIn: z.number(),
+  refreshToken: z.string().optional(),
+  userId: z.number(),
+  username: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  status: z.string(),
+  kycLevel: z.number(),
+  roles: z.array(z.string()),
+  permissions: z.array(z.string()).nullable(),
+  lastLoginAt: z.string(),
+});
+
+export const mfaChallengeSchema: Schema<MfaChallenge> = z.object({
+  mfaRequired: z.literal(true),
+  mfaToken: z.string(),
+  methods: z.array(z.enum(['totp', 'recovery_code'])),
+  expiresIn: z.number(),
+});
+
+export const loginResponseSchema: Schema<LoginResponse> = z.union([mfaChallengeSchema, loginDataSchema]);
+
+export const mfaStatusSchema: Schema<MfaStatus> = z.object({
+  enabled: z.boolean(),
+  enrolledAt: z.string().optional(),
+  recoveryCodesRemaining: z.number(),
+});
+
+export const mfaEnrollmentSchema: Schema<MfaEnrollment> = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+});
+
+export const mfaRecoveryCodesSchema: Schema<MfaRecoveryCodes> = z.object({
+  recoveryCodes: z.array(z.string()),
+});
+
+const passkeyTransport = z.enum(['usb', 'nfc', 'ble', 'hybrid', 'internal']);
+const userVerification = z.enum(['required', 'preferred', 'discouraged']);
+
+const passkeyDescriptorSchema = z.object({
+  type: z.literal('public-key'),
+  id: z.string(),
+  transports: z.array(passkeyTransport).optional(),
+});
+
+export const passkeyCreationOptionsSchema: Schema<PasskeyCreationOptions> = z.object({
+  challenge: z.string(),
+  rp: z.object({ id: z.string().optional(), name: z.string() }),
+  user: z.object({ id: z.string(), name: z.string(), displayName: z.string() }),
+  pubKeyCredParams: z.array(z.object({ type: z.literal('public-key'), alg: z.number() })),
+  timeout: z.number().optional(),
+  excludeCredentials: z.array(passkeyDescriptorSchema).optional(),
+  authenticatorSelection: z
+    .object({
+      residentKey: z.enum(['required', 'preferred', 'discouraged']).optional(),
+      userVerification: userVerification.optional(),
+    })
+    .optional(),
+  attestation: z.enum(['none', 'indirect', 'direct']).optional(),
+});
+
+export const passkeyRequestOptionsSchema: Schema<PasskeyRequestOptions> = z.object({
+  challenge: z.string(),
+  rpId: z.string().optional(),
+  allowCredentials: z.array(passkeyDescriptorSchema).optional(),
+  timeout: z.number().optional(),
+  userVerification: userVerification.optional(),
+});
+
+export const passkeySchema: Schema<Passkey> = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+  transports: z.array(passkeyTransport),
+});
+
+export const userSessionSchema: Schema<UserSession> = z.object({
+  id: z.string(),
+  device: z.string(),
+  userAgent: z.string(),
+  ipAddress: z.string(),
+  location: z.string().optional(),
+  createdAt: z.string(),
+  lastSeenAt: z.string(),
+  current: z.boolean(),
+});
+
+export const revokeSessionsResultSchema: Schema<RevokeSessionsResult> = z.object({
+  revoked: z.number(),
+});
+
+export const sessionSettingsSchema: Schema<SessionSettings> = z.object({
+  sessionTimeout: z.number(),
+});
+
+export const refreshTokenDataSchema: Schema<RefreshTokenData> = z.object({
+  token: z.string(),
+  expiresIn: z.number(),
+  refreshToken: z.string().optional(),
+});
+
+export const tokenVerificationSchema: Schema<TokenVerification> = z.object({
+  valid: z.boolean(),
+});
+
+// ===== Orders =====
+
+export const orderSchema: Schema<Order> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  symbol: z.string(),
+  side: orderSide,
+  type: orderType,
+  status: orderStatus,
+  quantity: z.number(),
+  price: z.number().optional(),
+  stopPrice: z.number().optional(),
+  filledQuantity: z.number(),
+  averagePrice: z.number().optional(),
+  timeInForce,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  filledAt: z.string().optional(),
+});
+
+export const orderStatsSchema: Schema<OrderStats> = z.object({
+  total: z.number(),
+  pending: z.number(),
+  filled: z.number(),
+  cancelled: z.number(),
+  todayVolume: z.number(),
+  todayCount: z.number(),
+});
+
+export const exportResultSchema: Schema<ExportResult> = z.object({
+  downloadUrl: z.string(),
+});
+
+// ===== Markets =====
+
+export const symbolSchema: Schema<MarketSymbol> = z.object({
+  symbol: z.string(),
+  baseAsset: z.string(),
+  quoteAsset: z.string(),
+  status: z.enum(['trading', 'suspended', 'delisted']),
+  minQty: z.number(),
+  maxQty: z.number(),
+  stepSize: z.number(),
+  minPrice: z.number(),
+  maxPrice: z.number(),
+  tickSize: z.number(),
+  minNotional: z.number(),
+});
+
+export const tickerSchema: Schema<Ticker> = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  change24h: z.number(),
+  changePercent24h: z.number(),
+  high24h: z.number(),
+  low24h: z.number(),
+  volume24h: z.number(),
+  lastUpdate: z.string(),
+});
+
+const priceLevel = z.tuple([z.number(), z.number()]); // [price, quantity]
+
+export const orderBookSchema: Schema<OrderBook> = z.object({
+  symbol: z.string(),
+  bids: z.array(priceLevel),
+  asks: z.array(priceLevel),
+  lastUpdate: z.string(),
+});
+
+export const tradeSchema: Schema<Trade> = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  price: z.number(),
+  quantity: z.number(),
+  side: orderSide,
+  timestamp: z.string(),
+});
+
+export const klineSchema: Schema<Kline> = z.object({
+  openTime: z.number(),
+  closeTime: z.number(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+  trades: z.number(),
+});
+
+export const marketStats24hSchema: Schema<MarketStats24h> = z.object({
+  totalVolume: z.number(),
+  totalTrades: z.number(),
+  priceChangeStats: z.array(
+    z.object({
+      symbol: z.string(),
+      priceChange: z.number(),
+      priceChangePercent: z.number(),
+    })
+  ),
+});
+
+export const hotSymbolSchema: Schema<HotSymbol> = z.object({
+  symbol: z.string(),
+  volume24h: z.number(),
+  trades24h: z.number(),
+});
+
+// ===== System =====
+
+export const passwordPolicySchema: Schema<PasswordPolicy> = z.object({
+  minLength: z.number(),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumbers: z.boolean(),
+  requireSpecialChars: z.boolean(),
+});
+
+export const systemSettingsSchema: Schema<SystemSettings> = z.object({
+  maintenanceMode: z.boolean(),
+  allowRegistration: z.boolean(),
+  defaultUserRole: z.string(),
+  sessionTimeout: z.number(),
+  maxLoginAttempts: z.number(),
+  passwordPolicy: passwordPolicySchema,
+});
+
+export const systemStatusSchema: Schema<SystemStatus> = z.object({
+  service: z.string(),
+  status: z.enum(['online', 'offline', 'maintenance']),
+  uptime: z.number(),
+  lastCheck: z.string(),
+});
+
+export const systemStatsSchema: Schema<SystemStats> = z.object({
+  totalUsers: z.number(),
+  activeUsers: z.number(),
+  totalOrders: z.number(),
+  todayOrders: z.number(),
+  totalVolume: z.number(),
+  todayVolume: z.number(),
+});
+
+export const auditLogSchema: Schema<AuditLog> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  username: z.string(),
+  action: z.string(),
+  resource: z.string(),
+  resourceId: z.string().optional(),
+  details: z.any().optional(),
+  ipAddress: z.string(),
+  userAgent: z.string(),
+  timestamp: z.string(),
+});
+
+export const auditLogCleanupResultSchema: Schema<AuditLogCleanupResult> = z.object({
+  deletedCount: z.number(),
+});
+
+export const maintenanceStatusSchema: Schema<MaintenanceStatus> = z.object({
+  enabled: z.boolean(),
+  message: z.string().optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+});
+
+export const backupSchema: Schema<Backup> = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  size: z.number(),
+  downloadUrl: z.string(),
+});
+
+export const createdBackupSchema: Schema<CreatedBackup> = z.object({
+  backupId: z.string(),
+  downloadUrl: z.string(),
+});
+
+// ===== Uploads =====
+
+export const uploadSessionSchema: Schema<UploadSession> = z.object({
+  uploadId: z.string(),
+  chunkSize: z.number(),
+  receivedChunks: z.array(z.number()),
+});
+
+export const userImportResultSchema: Schema<UserImportResult> = z.object({
+  created: z.number(),
+  skipped: z.number(),
+  errors: z.array(z.object({ row: z.number(), message: z.string() })),
+});
+
+export const kycDocumentSchema: Schema<KycDocument> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  documentType: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  uploadedAt: z.string(),
+});
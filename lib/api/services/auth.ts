@@ -2,40 +2,79 @@
  * Auth API 
  */
 
-import { ApiClient } from '../client';
+import { z } from 'zod';
+import { apiClient as client, getSessionEndpoint } from '../client';
+import {
+  loginDataSchema,
+  loginResponseSchema,
+  mfaEnrollmentSchema,
+  mfaRecoveryCodesSchema,
+  mfaStatusSchema,
+  passkeyCreationOptionsSchema,
+  passkeyRequestOptionsSchema,
+  passkeySchema,
+  passwordPolicySchema,
+  refreshTokenDataSchema,
+  revokeSessionsResultSchema,
+  sessionSettingsSchema,
+  tokenVerificationSchema,
+  userSchema,
+  userSessionSchema,
+} from '../schemas';
 import type {
   ApiResponse,
   LoginRequest,
   LoginData,
+  LoginResponse,
+  MfaVerifyRequest,
+  MfaCodeRequest,
+  DisableMfaRequest,
+  MfaStatus,
+  MfaEnrollment,
+  MfaRecoveryCodes,
+  Passkey,
+  PasskeyCreationOptions,
+  PasskeyRequestOptions,
+  PasskeyRegistrationRequest,
+  PasskeyLoginOptionsRequest,
+  PasskeyLoginRequest,
   RefreshTokenRequest,
   RefreshTokenData,
   ChangePasswordRequest,
   ForgotPasswordRequest,
   ResetPasswordRequest,
-  User
+  PasswordPolicy,
+  TokenVerification,
+  User,
+  UserSession,
+  RevokeSessionsResult,
+  SessionSettings
 } from '../types';
 
-const client = new ApiClient();
-
 export class AuthService {
-  // login
-  static async login(data: LoginRequest): Promise<ApiResponse<LoginData>> {
-    return client.post<LoginData>('/v1/auth/login', data);
+  // login; answers with an MfaChallenge instead of a session when the account has MFA
+  static async login(data: LoginRequest): Promise<ApiResponse<LoginResponse>> {
+    return client.post<LoginResponse>(getSessionEndpoint('login'), data, { skipAuth: true, schema: loginResponseSchema });
+  }
+
+  // complete an MFA login with a TOTP or recovery code
+  static async verifyMfa(data: MfaVerifyRequest): Promise<ApiResponse<LoginData>> {
+    return client.post<LoginData>(getSessionEndpoint('mfa/verify'), data, { skipAuth: true, schema: loginDataSchema });
   }
 
   // logout
   static async logout(): Promise<ApiResponse<void>> {
-    return client.post<void>('/v1/auth/logout');
+    return client.post<void>(getSessionEndpoint('logout'));
   }
 
   // refresh token
   static async refreshToken(data: RefreshTokenRequest): Promise<ApiResponse<RefreshTokenData>> {
-    return client.post<RefreshTokenData>('/v1/auth/refresh', data);
+    return client.post<RefreshTokenData>('/v1/auth/refresh', data, { skipAuth: true, schema: refreshTokenDataSchema });
   }
 
   // get current user info
   static async getCurrentUser(): Promise<ApiResponse<User>> {
-    return client.get<User>('/v1/auth/me');
+    return client.get<User>(getSessionEndpoint('me'), undefined, { schema: userSchema });
   }
 
   // change password
@@ -45,16 +84,106 @@ export class AuthService {
 
   // forgot password
   static async forgotPassword(data: ForgotPasswordRequest): Promise<ApiResponse<void>> {
-    return client.post<void>('/v1/auth/forgot-password', data);
+    return client.post<void>('/v1/auth/forgot-password', data, { skipAuth: true });
   }
 
   // reset password
   static async resetPassword(data: ResetPasswordRequest): Promise<ApiResponse<void>> {
-    return client.post<void>('/v1/auth/reset-password', data);
+    return client.post<void>('/v1/auth/reset-password', data, { skipAuth: true });
+  }
+
+  // rules a new password must meet; public, for the reset form
+  static async getPasswordPolicy(): Promise<ApiResponse<PasswordPolicy>> {
+    return client.get<PasswordPolicy>('/v1/auth/password-policy', undefined, {
+      skipAuth: true,
+      schema: passwordPolicySchema,
+    });
+  }
+
+  // challenge for signing in with a passkey
+  static async getPasskeyLoginOptions(data: PasskeyLoginOptionsRequest = {}): Promise<ApiResponse<PasskeyRequestOptions>> {
+    return client.post<PasskeyRequestOptions>('/v1/auth/passkeys/login/options', data, {
+      skipAuth: true,
+      schema: passkeyRequestOptionsSchema,
+    });
+  }
+
+  // sign in with the assertion signed by the authenticator
+  static async loginWithPasskey(data: PasskeyLoginRequest): Promise<ApiResponse<LoginData>> {
+    return client.post<LoginData>(getSessionEndpoint('passkeys/login'), data, { skipAuth: true, schema: loginDataSchema });
+  }
+
+  // challenge for registering a new passkey for the current user
+  static async getPasskeyRegistrationOptions(): Promise<ApiResponse<PasskeyCreationOptions>> {
+    return client.post<PasskeyCreationOptions>('/v1/auth/passkeys/register/options', undefined, {
+      schema: passkeyCreationOptionsSchema,
+    });
+  }
+
+  // store the credential created by the authenticator
+  static async registerPasskey(data: PasskeyRegistrationRequest): Promise<ApiResponse<Passkey>> {
+    return client.post<Passkey>('/v1/auth/passkeys/register', data, { schema: passkeySchema });
+  }
+
+  // passkeys registered by the current user
+  static async getPasskeys(): Promise<ApiResponse<Passkey[]>> {
+    return client.get<Passkey[]>('/v1/auth/passkeys', undefined, { schema: z.array(passkeySchema) });
+  }
+
+  // revoke a passkey; it can no longer sign in
+  static async deletePasskey(id: string): Promise<ApiResponse<void>> {
+    return client.delete<void>(`/v1/auth/passkeys/${id}`);
+  }
+
+  // two-factor authentication status of the current user
+  static async getMfaStatus(): Promise<ApiResponse<MfaStatus>> {
+    return client.get<MfaStatus>('/v1/auth/mfa', undefined, { schema: mfaStatusSchema });
+  }
+
+  // start TOTP enrollment; MFA is enabled once a code is confirmed
+  static async startMfaEnrollment(): Promise<ApiResponse<MfaEnrollment>> {
+    return client.post<MfaEnrollment>('/v1/auth/mfa/enroll', undefined, { schema: mfaEnrollmentSchema });
+  }
+
+  // confirm enrollment with a code from the authenticator app
+  static async confirmMfaEnrollment(data: MfaCodeRequest): Promise<ApiResponse<MfaRecoveryCodes>> {
+    return client.post<MfaRecoveryCodes>('/v1/auth/mfa/enroll/confirm', data, { schema: mfaRecoveryCodesSchema });
+  }
+
+  // replace the recovery codes; the old ones stop working
+  static async regenerateRecoveryCodes(data: MfaCodeRequest): Promise<ApiResponse<MfaRecoveryCodes>> {
+    return client.post<MfaRecoveryCodes>('/v1/auth/mfa/recovery-codes', data, { schema: mfaRecoveryCodesSchema });
+  }
+
+  // turn two-factor authentication off
+  static async disableMfa(data: DisableMfaRequest): Promise<ApiResponse<void>> {
+    return client.post<void>('/v1/auth/mfa/disable', data);
+  }
+
+  // sessions of the current user, on every device
+  static async getSessions(): Promise<ApiResponse<UserSession[]>> {
+    return client.get<UserSession[]>('/v1/auth/sessions', undefined, { schema: z.array(userSessionSchema) });
+  }
+
+  // sign one of the other devices out
+  static async revokeSession(id: string): Promise<ApiResponse<void>> {
+    return client.delete<void>(`/v1/auth/sessions/${id}`);
+  }
+
+  // sign out everywhere except this device
+  static async revokeOtherSessions(): Promise<ApiResponse<RevokeSessionsResult>> {
+    return client.post<RevokeSessionsResult>('/v1/auth/sessions/revoke-others', undefined, {
+      schema: revokeSessionsResultSchema,
+    });
+  }
+
+  // idle timeout and other session rules; readable by every role
+  static async getSessionSettings(): Promise<ApiResponse<SessionSettings>> {
+    return client.get<SessionSettings>('/v1/auth/session-settings', undefined, { schema: sessionSettingsSchema });
   }
 
   // verify token
-  static async verifyToken(): Promise<ApiResponse<{ valid: boolean }>> {
-    return client.get<{ valid: boolean }>('/v1/auth/verify');
+  static async verifyToken(): Promise<ApiResponse<TokenVerification>> {
+    return client.get<TokenVerification>('/v1/auth/verify', undefined, { schema: tokenVerificationSchema });
   }
 }
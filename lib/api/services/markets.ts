@@ -2,7 +2,17 @@
  * market API service
  */
 
-import { ApiClient } from '../client';
+import { z } from 'zod';
+import { apiClient as client } from '../client';
+import {
+  symbolSchema,
+  tickerSchema,
+  orderBookSchema,
+  tradeSchema,
+  klineSchema,
+  marketStats24hSchema,
+  hotSymbolSchema
+} from '../schemas';
 import type {
   ApiResponse,
   Symbol,
@@ -10,67 +20,55 @@ import type {
   OrderBook,
   Trade,
   Kline,
-  KlineParams
+  KlineParams,
+  MarketStats24h,
+  HotSymbol
 } from '../types';
 
-const client = new ApiClient();
-
 export class MarketService {
   // get all trading pairs
   static async getSymbols(): Promise<ApiResponse<Symbol[]>> {
-    return client.get<Symbol[]>('/market/symbols');
+    return client.get<Symbol[]>('/market/symbols', undefined, { schema: z.array(symbolSchema) });
   }
 
   // get single trading pair info
   static async getSymbol(symbol: string): Promise<ApiResponse<Symbol>> {
-    return client.get<Symbol>(`/market/symbols/${symbol}`);
+    return client.get<Symbol>(`/market/symbols/${symbol}`, undefined, { schema: symbolSchema });
   }
 
   // get all ticker data
   static async getTickers(): Promise<ApiResponse<Ticker[]>> {
-    return client.get<Ticker[]>('/market/tickers');
+    return client.get<Ticker[]>('/market/tickers', undefined, { schema: z.array(tickerSchema) });
   }
 
   // get single ticker data
   static async getTicker(symbol: string): Promise<ApiResponse<Ticker>> {
-    return client.get<Ticker>(`/market/tickers/${symbol}`);
+    return client.get<Ticker>(`/market/tickers/${symbol}`, undefined, { schema: tickerSchema });
   }
 
   // get order book
   static async getOrderBook(symbol: string, limit?: number): Promise<ApiResponse<OrderBook>> {
-    return client.get<OrderBook>(`/market/orderbook/${symbol}`, { limit });
+    return client.get<OrderBook>(`/market/orderbook/${symbol}`, { limit }, { schema: orderBookSchema });
   }
 
   // get recent trades
   static async getTrades(symbol: string, limit?: number): Promise<ApiResponse<Trade[]>> {
-    return client.get<Trade[]>(`/market/trades/${symbol}`, { limit });
+    return client.get<Trade[]>(`/market/trades/${symbol}`, { limit }, { schema: z.array(tradeSchema) });
   }
 
   // get Kline data
   static async getKlines(params: KlineParams): Promise<ApiResponse<Kline[]>> {
     const { symbol, ...queryParams } = params;
-    return client.get<Kline[]>(`/market/klines/${symbol}`, queryParams);
+    return client.get<Kline[]>(`/market/klines/${symbol}`, queryParams, { schema: z.array(klineSchema) });
   }
 
   // get 24h stats
-  static async get24hrStats(): Promise<ApiResponse<{
-    totalVolume: number;
-    totalTrades: number;
-    priceChangeStats: Array<{
-      symbol: string;
-      priceChange: number;
-      priceChangePercent: number;
-    }>;
-  }>> {
-    return client.get('/market/24hr-stats');
+  static async get24hrStats(): Promise<ApiResponse<MarketStats24h>> {
+    return client.get<MarketStats24h>('/market/24hr-stats', undefined, { schema: marketStats24hSchema });
   }
 
   // get hot trading pairs
-  static async getHotSymbols(limit: number = 10): Promise<ApiResponse<Array<{
-    symbol: string;
-    volume24h: number;
-    trades24h: number;
-  }>>> {
-    return client.get('/market/hot-symbols', { limit });
+  static async getHotSymbols(limit: number = 10): Promise<ApiResponse<HotSymbol[]>> {
+    return client.get<HotSymbol[]>('/market/hot-symbols', { limit }, { schema: z.array(hotSymbolSchema) });
   }
 }
@@ -2,74 +2,89 @@
  * orders API service
  */
 
-import { ApiClient } from '../client';
+import { apiClient as client, MutationOptions, StreamOptions } from '../client';
+import { toExportParams, ExportRequest } from '../export';
+import { orderSchema, orderStatsSchema, exportResultSchema, paginatedSchema, cursorPageSchema } from '../schemas';
 import type {
   ApiResponse,
   PaginatedData,
+  CursorPage,
+  CursorQueryParams,
   CreateOrderRequest,
   UpdateOrderRequest,
   OrderFilters,
   QueryParams,
-  Order
+  Order,
+  OrderStats,
+  ExportResult
 } from '../types';
 
-const client = new ApiClient();
+const orderPageSchema = paginatedSchema(orderSchema);
+const orderCursorPageSchema = cursorPageSchema(orderSchema);
 
 export class OrderService {
   // get orders list
   static async getOrders(params?: OrderFilters & QueryParams): Promise<ApiResponse<PaginatedData<Order>>> {
-    return client.get<PaginatedData<Order>>('/orders', params);
+    return client.get<PaginatedData<Order>>('/orders', params, { schema: orderPageSchema });
+  }
+
+  // get orders by cursor (infinite scroll)
+  static async getOrdersByCursor(params?: OrderFilters & CursorQueryParams): Promise<ApiResponse<CursorPage<Order>>> {
+    return client.get<CursorPage<Order>>('/orders', { ...params, pagination: 'cursor' }, { schema: orderCursorPageSchema });
   }
 
   // get single order
   static async getOrder(id: string): Promise<ApiResponse<Order>> {
-    return client.get<Order>(`/orders/${id}`);
+    return client.get<Order>(`/orders/${id}`, undefined, { schema: orderSchema });
   }
 
   // create order
-  static async createOrder(data: CreateOrderRequest): Promise<ApiResponse<Order>> {
-    return client.post<Order>('/orders', data);
+  static async createOrder(data: CreateOrderRequest, options?: MutationOptions): Promise<ApiResponse<Order>> {
+    return client.post<Order>('/orders', data, { schema: orderSchema, ...options });
   }
 
   // update order
-  static async updateOrder(id: string, data: UpdateOrderRequest): Promise<ApiResponse<Order>> {
-    return client.put<Order>(`/orders/${id}`, data);
+  static async updateOrder(id: string, data: UpdateOrderRequest, options?: MutationOptions): Promise<ApiResponse<Order>> {
+    return client.put<Order>(`/orders/${id}`, data, { schema: orderSchema, ...options });
   }
 
   // cancel order
-  static async cancelOrder(id: string): Promise<ApiResponse<Order>> {
-    return client.post<Order>(`/orders/${id}/cancel`);
+  static async cancelOrder(id: string, options?: MutationOptions): Promise<ApiResponse<Order>> {
+    return client.post<Order>(`/orders/${id}/cancel`, undefined, { schema: orderSchema, ...options });
   }
 
   // batch cancel orders
-  static async batchCancelOrders(orderIds: string[]): Promise<ApiResponse<void>> {
-    return client.post<void>('/orders/batch-cancel', { orderIds });
+  static async batchCancelOrders(orderIds: string[], options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>('/orders/batch-cancel', { orderIds }, options);
   }
 
   // get order history
   static async getOrderHistory(params?: QueryParams): Promise<ApiResponse<PaginatedData<Order>>> {
-    return client.get<PaginatedData<Order>>('/orders/history', params);
+    return client.get<PaginatedData<Order>>('/orders/history', params, { schema: orderPageSchema });
+  }
+
+  // get order history by cursor (infinite scroll)
+  static async getOrderHistoryByCursor(params?: CursorQueryParams): Promise<ApiResponse<CursorPage<Order>>> {
+    return client.get<CursorPage<Order>>('/orders/history', { ...params, pagination: 'cursor' }, { schema: orderCursorPageSchema });
   }
 
   // get user orders
   static async getUserOrders(userId: string, params?: QueryParams): Promise<ApiResponse<PaginatedData<Order>>> {
-    return client.get<PaginatedData<Order>>(`/users/${userId}/orders`, params);
+    return client.get<PaginatedData<Order>>(`/users/${userId}/orders`, params, { schema: orderPageSchema });
   }
 
   // get order stats
-  static async getOrderStats(): Promise<ApiResponse<{
-    total: number;
-    pending: number;
-    filled: number;
-    cancelled: number;
-    todayVolume: number;
-    todayCount: number;
-  }>> {
-    return client.get('/orders/stats');
+  static async getOrderStats(): Promise<ApiResponse<OrderStats>> {
+    return client.get<OrderStats>('/orders/stats', undefined, { schema: orderStatsSchema });
   }
 
   // export orders data
-  static async exportOrders(params?: OrderFilters): Promise<ApiResponse<{ downloadUrl: string }>> {
-    return client.post<{ downloadUrl: string }>('/orders/export', params);
+  static async exportOrders(params?: OrderFilters, options?: MutationOptions): Promise<ApiResponse<ExportResult>> {
+    return client.post<ExportResult>('/orders/export', params, { schema: exportResultSchema, ...options });
+  }
+
+  // stream an orders export as CSV or NDJSON (see saveExport)
+  static async streamExport(request: ExportRequest<OrderFilters>, options?: StreamOptions): Promise<ApiResponse<Response>> {
+    return client.stream('/orders/export/stream', toExportParams(request), options);
   }
 }
@@ -2,95 +2,116 @@
  * system API service
  */
 
-import { ApiClient } from '../client';
+import { z } from 'zod';
+import { apiClient as client, MutationOptions, StreamOptions } from '../client';
+import { toExportParams, ExportRequest } from '../export';
+import {
+  systemSettingsSchema,
+  systemStatusSchema,
+  systemStatsSchema,
+  auditLogSchema,
+  auditLogCleanupResultSchema,
+  maintenanceStatusSchema,
+  backupSchema,
+  createdBackupSchema,
+  paginatedSchema,
+  cursorPageSchema
+} from '../schemas';
 import type {
   ApiResponse,
   PaginatedData,
+  CursorPage,
+  CursorQueryParams,
   SystemSettings,
   UpdateSystemSettingsRequest,
   AuditLogFilters,
   MaintenanceRequest,
   QueryParams,
   AuditLog,
+  AuditLogCleanupResult,
   SystemStatus,
-  SystemStats
+  SystemStats,
+  MaintenanceStatus,
+  Backup,
+  CreatedBackup
 } from '../types';
 
-const client = new ApiClient();
-
 export class SystemService {
   // get system settings
   static async getSettings(): Promise<ApiResponse<SystemSettings>> {
-    return client.get<SystemSettings>('/system/settings');
+    return client.get<SystemSettings>('/system/settings', undefined, { schema: systemSettingsSchema });
   }
 
   // update system settings
-  static async updateSettings(data: UpdateSystemSettingsRequest): Promise<ApiResponse<SystemSettings>> {
-    return client.put<SystemSettings>('/system/settings', data);
+  static async updateSettings(data: UpdateSystemSettingsRequest, options?: MutationOptions): Promise<ApiResponse<SystemSettings>> {
+    return client.put<SystemSettings>('/system/settings', data, { schema: systemSettingsSchema, ...options });
   }
 
   // get system status
   static async getStatus(): Promise<ApiResponse<SystemStatus[]>> {
-    return client.get<SystemStatus[]>('/system/status');
+    return client.get<SystemStatus[]>('/system/status', undefined, { schema: z.array(systemStatusSchema) });
   }
 
   // get system stats
   static async getStats(): Promise<ApiResponse<SystemStats>> {
-    return client.get<SystemStats>('/system/stats');
+    return client.get<SystemStats>('/system/stats', undefined, { schema: systemStatsSchema });
   }
 
   // get audit logs
   static async getAuditLogs(params?: AuditLogFilters & QueryParams): Promise<ApiResponse<PaginatedData<AuditLog>>> {
-    return client.get<PaginatedData<AuditLog>>('/system/audit-logs', params);
+    return client.get<PaginatedData<AuditLog>>('/system/audit-logs', params, { schema: paginatedSchema(auditLogSchema) });
+  }
+
+  // get audit logs by cursor (infinite scroll)
+  static async getAuditLogsByCursor(params?: AuditLogFilters & CursorQueryParams): Promise<ApiResponse<CursorPage<AuditLog>>> {
+    return client.get<CursorPage<AuditLog>>('/system/audit-logs', { ...params, pagination: 'cursor' }, { schema: cursorPageSchema(auditLogSchema) });
+  }
+
+  // stream an audit log export as CSV or NDJSON (see saveExport)
+  static async streamAuditLogExport(
+    request: ExportRequest<AuditLogFilters>,
+    options?: StreamOptions
+  ): Promise<ApiResponse<Response>> {
+    return client.stream('/system/audit-logs/export/stream', toExportParams(request), options);
   }
 
   // cleanup audit logs
-  static async cleanupAuditLogs(olderThanDays: number): Promise<ApiResponse<{ deletedCount: number }>> {
-    return client.post<{ deletedCount: number }>('/system/audit-logs/cleanup', { olderThanDays });
+  static async cleanupAuditLogs(olderThanDays: number, options?: MutationOptions): Promise<ApiResponse<AuditLogCleanupResult>> {
+    return client.post<AuditLogCleanupResult>('/system/audit-logs/cleanup', { olderThanDays }, { schema: auditLogCleanupResultSchema, ...options });
   }
 
   // maintenance mode
-  static async setMaintenanceMode(data: MaintenanceRequest): Promise<ApiResponse<void>> {
-    return client.post<void>('/system/maintenance', data);
+  static async setMaintenanceMode(data: MaintenanceRequest, options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>('/system/maintenance', data, options);
   }
 
   // get maintenance status
-  static async getMaintenanceStatus(): Promise<ApiResponse<{
-    enabled: boolean;
-    message?: string;
-    startTime?: string;
-    endTime?: string;
-  }>> {
-    return client.get('/system/maintenance');
+  static async getMaintenanceStatus(): Promise<ApiResponse<MaintenanceStatus>> {
+    return client.get<MaintenanceStatus>('/system/maintenance', undefined, { schema: maintenanceStatusSchema });
   }
 
   // create system backup
-  static async createBackup(): Promise<ApiResponse<{ backupId: string; downloadUrl: string }>> {
-    return client.post<{ backupId: string; downloadUrl: string }>('/system/backup');
+  static async createBackup(options?: MutationOptions): Promise<ApiResponse<CreatedBackup>> {
+    return client.post<CreatedBackup>('/system/backup', undefined, { schema: createdBackupSchema, ...options });
   }
 
   // get backup list
-  static async getBackups(): Promise<ApiResponse<Array<{
-    id: string;
-    createdAt: string;
-    size: number;
-    downloadUrl: string;
-  }>>> {
-    return client.get('/system/backups');
+  static async getBackups(): Promise<ApiResponse<Backup[]>> {
+    return client.get<Backup[]>('/system/backups', undefined, { schema: z.array(backupSchema) });
   }
 
   // restore system backup
-  static async restoreBackup(backupId: string): Promise<ApiResponse<void>> {
-    return client.post<void>(`/system/backups/${backupId}/restore`);
+  static async restoreBackup(backupId: string, options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>(`/system/backups/${backupId}/restore`, undefined, options);
   }
 
   // cleanup system cache
-  static async clearCache(): Promise<ApiResponse<void>> {
-    return client.post<void>('/system/cache/clear');
+  static async clearCache(options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>('/system/cache/clear', undefined, options);
   }
 
   // restart system service
-  static async restartService(serviceName: string): Promise<ApiResponse<void>> {
-    return client.post<void>(`/system/services/${serviceName}/restart`);
+  static async restartService(serviceName: string, options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>(`/system/services/${serviceName}/restart`, undefined, options);
   }
 }
@@ -2,7 +2,19 @@
  * users API service
  */
 
-import { ApiClient } from '../client';
+import { z } from 'zod';
+import { apiClient as client, MutationOptions, UploadOptions, StreamOptions } from '../client';
+import { toExportParams, ExportRequest } from '../export';
+import {
+  userSchema,
+  userStatsSchema,
+  paginatedSchema,
+  userImportResultSchema,
+  kycDocumentSchema,
+  userSessionSchema,
+  revokeSessionsResultSchema
+} from '../schemas';
+import type { UploadConstraints } from '../upload';
 import type {
   ApiResponse,
   PaginatedData,
@@ -10,59 +22,120 @@ import type {
   UpdateUserRequest,
   UserFilters,
   QueryParams,
-  User
+  User,
+  UserStats,
+  UserImportResult,
+  KycDocument,
+  KycDocumentType,
+  UserSession,
+  RevokeSessionsResult
 } from '../types';
 
-const client = new ApiClient();
+const MB = 1024 * 1024;
+
+// Browsers report CSV as text/csv, or as application/vnd.ms-excel on Windows
+const USER_IMPORT_CONSTRAINTS: UploadConstraints = {
+  accept: ['text/csv', 'application/vnd.ms-excel', 'text/plain'],
+  maxTotalSize: 50 * MB,
+};
+
+const KYC_DOCUMENT_CONSTRAINTS: UploadConstraints = {
+  accept: ['image/jpeg', 'image/png', 'application/pdf'],
+  maxTotalSize: 25 * MB,
+};
 
 export class UserService {
   // get users list
   static async getUsers(params?: UserFilters & QueryParams): Promise<ApiResponse<PaginatedData<User>>> {
-    return client.get<PaginatedData<User>>('/users', params);
+    return client.get<PaginatedData<User>>('/users', params, { schema: paginatedSchema(userSchema) });
   }
 
   // get single user
   static async getUser(id: string): Promise<ApiResponse<User>> {
-    return client.get<User>(`/users/${id}`);
+    return client.get<User>(`/users/${id}`, undefined, { schema: userSchema });
   }
 
   // create user
-  static async createUser(data: CreateUserRequest): Promise<ApiResponse<User>> {
-    return client.post<User>('/users', data);
+  static async createUser(data: CreateUserRequest, options?: MutationOptions): Promise<ApiResponse<User>> {
+    return client.post<User>('/users', data, { schema: userSchema, ...options });
   }
 
   // update user
-  static async updateUser(id: string, data: UpdateUserRequest): Promise<ApiResponse<User>> {
-    return client.put<User>(`/users/${id}`, data);
+  static async updateUser(id: string, data: UpdateUserRequest, options?: MutationOptions): Promise<ApiResponse<User>> {
+    return client.put<User>(`/users/${id}`, data, { schema: userSchema, ...options });
   }
 
   // delete user
-  static async deleteUser(id: string): Promise<ApiResponse<void>> {
-    return client.delete<void>(`/users/${id}`);
+  static async deleteUser(id: string, options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.delete<void>(`/users/${id}`, options);
   }
 
   // batch delete users
-  static async batchDeleteUsers(userIds: string[]): Promise<ApiResponse<void>> {
-    return client.post<void>('/users/batch-delete', { userIds });
+  static async batchDeleteUsers(userIds: string[], options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>('/users/batch-delete', { userIds }, options);
   }
 
   // reset user password
-  static async resetUserPassword(id: string, newPassword: string): Promise<ApiResponse<void>> {
-    return client.post<void>(`/users/${id}/reset-password`, { newPassword });
+  static async resetUserPassword(id: string, newPassword: string, options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.post<void>(`/users/${id}/reset-password`, { newPassword }, options);
   }
 
   // enable/disable user
-  static async toggleUserStatus(id: string, isActive: boolean): Promise<ApiResponse<User>> {
-    return client.patch<User>(`/users/${id}/status`, { isActive });
+  static async toggleUserStatus(id: string, isActive: boolean, options?: MutationOptions): Promise<ApiResponse<User>> {
+    return client.patch<User>(`/users/${id}/status`, { isActive }, { schema: userSchema, ...options });
+  }
+
+  // sessions of any admin (requires MANAGE_USER_ROLES)
+  static async getUserSessions(userId: string): Promise<ApiResponse<UserSession[]>> {
+    return client.get<UserSession[]>(`/users/${userId}/sessions`, undefined, { schema: z.array(userSessionSchema) });
+  }
+
+  // revoke one session of a user
+  static async revokeUserSession(userId: string, sessionId: string, options?: MutationOptions): Promise<ApiResponse<void>> {
+    return client.delete<void>(`/users/${userId}/sessions/${sessionId}`, options);
+  }
+
+  // revoke every session of a user
+  static async revokeUserSessions(userId: string, options?: MutationOptions): Promise<ApiResponse<RevokeSessionsResult>> {
+    return client.delete<RevokeSessionsResult>(`/users/${userId}/sessions`, {
+      schema: revokeSessionsResultSchema,
+      ...options,
+    });
   }
 
   // get user stats
-  static async getUserStats(): Promise<ApiResponse<{
-    total: number;
-    active: number;
-    inactive: number;
-    newThisMonth: number;
-  }>> {
-    return client.get('/users/stats');
+  static async getUserStats(): Promise<ApiResponse<UserStats>> {
+    return client.get<UserStats>('/users/stats', undefined, { schema: userStatsSchema });
+  }
+
+  // stream a users export as CSV or NDJSON (see saveExport)
+  static async streamExport(request: ExportRequest<UserFilters>, options?: StreamOptions): Promise<ApiResponse<Response>> {
+    return client.stream('/users/export/stream', toExportParams(request), options);
+  }
+
+  // bulk-create users from a CSV file
+  static async importUsers(
+    file: File,
+    options?: UploadOptions<UserImportResult>
+  ): Promise<ApiResponse<UserImportResult>> {
+    return client.upload<UserImportResult>('/users/import', file, undefined, {
+      constraints: USER_IMPORT_CONSTRAINTS,
+      schema: userImportResultSchema,
+      ...options,
+    });
+  }
+
+  // upload KYC documents (e.g. both sides of an ID card) for a user
+  static async uploadKycDocument(
+    userId: string,
+    files: File | File[],
+    documentType: KycDocumentType,
+    options?: UploadOptions<KycDocument[]>
+  ): Promise<ApiResponse<KycDocument[]>> {
+    return client.upload<KycDocument[]>(`/users/${userId}/kyc-documents`, files, { documentType }, {
+      constraints: KYC_DOCUMENT_CONSTRAINTS,
+      schema: z.array(kycDocumentSchema),
+      ...options,
+    });
   }
 }
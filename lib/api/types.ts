@@ -2,6 +2,22 @@
  * API type definitions
 **/
 
+// Transport metadata attached by ApiClient and its interceptors
+export interface ResponseMeta {
+  httpStatus?: number; // status of the final HTTP response, absent when the request never reached the server
+  durationMs?: number;
+  idempotencyKey?: string; // key the mutating request was sent with
+  replayed?: boolean; // true when the server answered from its idempotency cache
+  requestId?: string; // correlation id to quote when reporting a problem
+  rateLimit?: RateLimitQuota; // quota left in the endpoint's bucket, when the server reports one
+}
+
+export interface RateLimitQuota {
+  limit?: number;
+  remaining?: number;
+  resetAt?: number; // ms timestamp when the quota refills
+}
+
 // API response structure
 export interface ApiResponse<T = any> {
   status: 'success' | 'error';
@@ -10,8 +26,9 @@ export interface ApiResponse<T = any> {
   error?: {
     code: string;
     message: string;
-    details?: any;
+    details?: unknown;
   };
+  meta?: ResponseMeta;
 }
 
 // Paginated data structure
@@ -23,32 +40,57 @@ export interface PaginatedData<T> {
   totalPages: number;
 }
 
+// Cursor-paginated data structure, for high-volume resources where rows
+// shift between offset pages and counting totals is expensive
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+  limit: number;
+}
+
 // Common query parameters
 export interface PaginationParams {
   page?: number;
   limit?: number;
 }
 
+export interface CursorParams {
+  cursor?: string; // nextCursor of the previous page; omit for the first page
+  limit?: number;
+}
+
 export interface SortParams {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
 
+// Inclusive bounds; either side may be left open
+export interface Range<T = number> {
+  min?: T;
+  max?: T;
+}
+
+// Filters accepting several values match any of them
+export type MultiValue<T> = T | T[];
+
 export interface FilterParams {
   search?: string;
-  status?: string;
-  dateFrom?: string;
-  dateTo?: string;
+  status?: MultiValue<string>;
+  dateFrom?: string | Date;
+  dateTo?: string | Date;
 }
 
 export type QueryParams = PaginationParams & SortParams & FilterParams;
 
+export type CursorQueryParams = CursorParams & SortParams & FilterParams;
+
 // ===== Request body type definitions =====
 
 // Authentication related requests
 export interface LoginRequest {
   usernameOrEmail: string;
   password: string;
+  remember?: boolean; // BFF mode: keep the session cookies after the browser closes
 }
 
 export interface RefreshTokenRequest {
@@ -69,6 +111,37 @@ export interface ResetPasswordRequest {
   password: string;
 }
 
+// Second login step; send either a TOTP code or one of the recovery codes
+export interface MfaVerifyRequest {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+  remember?: boolean;
+}
+
+export interface MfaCodeRequest {
+  code: string; // current TOTP code
+}
+
+export interface DisableMfaRequest {
+  password: string;
+  code: string; // TOTP or recovery code
+}
+
+export interface PasskeyRegistrationRequest {
+  name: string; // chosen by the admin, e.g. "Work laptop"
+  credential: PasskeyRegistrationCredential;
+}
+
+export interface PasskeyLoginOptionsRequest {
+  usernameOrEmail?: string; // omit to let the authenticator offer its discoverable passkeys
+}
+
+export interface PasskeyLoginRequest {
+  credential: PasskeyAuthenticationCredential;
+  remember?: boolean;
+}
+
 // User management requests
 export interface CreateUserRequest {
   email: string;
@@ -85,8 +158,9 @@ export interface UpdateUserRequest {
 }
 
 export interface UserFilters extends FilterParams {
-  role?: string;
+  role?: MultiValue<string>;
   isActive?: boolean;
+  lastLoginAt?: Range<string | Date>;
 }
 
 // Order management requests
@@ -107,35 +181,40 @@ export interface UpdateOrderRequest {
 }
 
 export interface OrderFilters extends FilterParams {
-  userId?: string;
-  symbol?: string;
+  userId?: MultiValue<string>;
+  symbol?: MultiValue<string>;
   side?: 'buy' | 'sell';
-  status?: 'pending' | 'filled' | 'cancelled' | 'rejected';
-  type?: 'market' | 'limit' | 'stop' | 'stop_limit';
+  status?: MultiValue<'pending' | 'filled' | 'cancelled' | 'rejected'>;
+  type?: MultiValue<'market' | 'limit' | 'stop' | 'stop_limit'>;
+  price?: Range;
+  quantity?: Range;
 }
 
 // System management requests
+// Rules every new password must meet; public so the reset form can check them
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+}
+
 export interface SystemSettings {
   maintenanceMode: boolean;
   allowRegistration: boolean;
   defaultUserRole: string;
   sessionTimeout: number;
   maxLoginAttempts: number;
-  passwordPolicy: {
-    minLength: number;
-    requireUppercase: boolean;
-    requireLowercase: boolean;
-    requireNumbers: boolean;
-    requireSpecialChars: boolean;
-  };
+  passwordPolicy: PasswordPolicy;
 }
 
 export interface UpdateSystemSettingsRequest extends Partial<SystemSettings> {}
 
 export interface AuditLogFilters extends FilterParams {
-  userId?: string;
-  action?: string;
-  resource?: string;
+  userId?: MultiValue<string>;
+  action?: MultiValue<string>;
+  resource?: MultiValue<string>;
 }
 
 export interface MaintenanceRequest {
@@ -145,6 +224,16 @@ export interface MaintenanceRequest {
   endTime?: string;
 }
 
+// Upload requests
+export interface CreateUploadSessionRequest {
+  fileName: string;
+  size: number;
+  mimeType: string;
+  chunkSize: number;
+}
+
+export type KycDocumentType = 'id_card' | 'passport' | 'driver_license' | 'proof_of_address' | 'selfie';
+
 // Market data requests
 export interface KlineParams {
   symbol: string;
@@ -167,12 +256,19 @@ export interface Role {
   permissions: Permission[];
 }
 
+export interface UserStats {
+  total: number;
+  active: number;
+  inactive: number;
+  newThisMonth: number;
+}
+
 // Authentication related data
 export interface LoginData {
-  accessToken: string;
+  accessToken?: string; // omitted by the BFF, which keeps tokens in HttpOnly cookies
   tokenType: string;
   expiresIn: number;
-  refreshToken: string;
+  refreshToken?: string;
   userId: number;
   username: string;
   email: string;
@@ -185,9 +281,130 @@ export interface LoginData {
   lastLoginAt: string;
 }
 
+export type MfaMethod = 'totp' | 'recovery_code';
+
+// Answered by login instead of LoginData when the account has two-factor
+// authentication; no session exists until the challenge is verified
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string; // only accepted by /v1/auth/mfa/verify
+  methods: MfaMethod[];
+  expiresIn: number;
+}
+
+export type LoginResponse = LoginData | MfaChallenge;
+
+export interface MfaStatus {
+  enabled: boolean;
+  enrolledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string; // base32, for manual entry
+  otpauthUrl: string; // otpauth://totp/... for the QR code
+}
+
+export interface MfaRecoveryCodes {
+  recoveryCodes: string[]; // shown once; each works a single time
+}
+
+// ===== Passkeys (WebAuthn) =====
+// Options and credentials travel as JSON; binary fields are base64url encoded
+
+export type PasskeyTransport = 'usb' | 'nfc' | 'ble' | 'hybrid' | 'internal';
+export type UserVerificationRequirement = 'required' | 'preferred' | 'discouraged';
+
+export interface PasskeyDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: PasskeyTransport[];
+}
+
+// PublicKeyCredentialCreationOptions for navigator.credentials.create()
+export interface PasskeyCreationOptions {
+  challenge: string;
+  rp: { id?: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>; // COSE algorithms, -7 = ES256
+  timeout?: number;
+  excludeCredentials?: PasskeyDescriptor[];
+  authenticatorSelection?: {
+    residentKey?: 'required' | 'preferred' | 'discouraged';
+    userVerification?: UserVerificationRequirement;
+  };
+  attestation?: 'none' | 'indirect' | 'direct';
+}
+
+// PublicKeyCredentialRequestOptions for navigator.credentials.get()
+export interface PasskeyRequestOptions {
+  challenge: string;
+  rpId?: string;
+  allowCredentials?: PasskeyDescriptor[];
+  timeout?: number;
+  userVerification?: UserVerificationRequirement;
+}
+
+export interface PasskeyRegistrationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    authenticatorData: string;
+    publicKey: string; // SubjectPublicKeyInfo (DER)
+    publicKeyAlgorithm: number;
+    transports: PasskeyTransport[];
+  };
+}
+
+export interface PasskeyAuthenticationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+// A registered passkey as listed on the security page
+export interface Passkey {
+  id: string; // credential id
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  transports: PasskeyTransport[];
+}
+
+// A signed-in device; revoking it ends the session at its next request
+export interface UserSession {
+  id: string;
+  device: string; // e.g. "Chrome on macOS", derived from the user agent
+  userAgent: string;
+  ipAddress: string;
+  location?: string; // approximate, from the IP address
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // the session making this request
+}
+
+export interface RevokeSessionsResult {
+  revoked: number;
+}
+
+// Session rules every signed-in admin may read, whatever their role
+export interface SessionSettings {
+  sessionTimeout: number; // minutes without activity before sign-out
+}
+
 export interface RefreshTokenData {
   token: string;
   expiresIn: number;
+  refreshToken?: string; // present when the backend rotates refresh tokens
 }
 
 // Order related data
@@ -209,6 +426,19 @@ export interface Order {
   filledAt?: string;
 }
 
+export interface OrderStats {
+  total: number;
+  pending: number;
+  filled: number;
+  cancelled: number;
+  todayVolume: number;
+  todayCount: number;
+}
+
+export interface ExportResult {
+  downloadUrl: string;
+}
+
 // Market data
 export interface Symbol {
   symbol: string;
@@ -235,6 +465,22 @@ export interface Ticker {
   lastUpdate: string;
 }
 
+export interface MarketStats24h {
+  totalVolume: number;
+  totalTrades: number;
+  priceChangeStats: Array<{
+    symbol: string;
+    priceChange: number;
+    priceChangePercent: number;
+  }>;
+}
+
+export interface HotSymbol {
+  symbol: string;
+  volume24h: number;
+  trades24h: number;
+}
+
 export interface OrderBook {
   symbol: string;
   bids: [number, number][]; // [price, quantity]
@@ -291,3 +537,53 @@ export interface SystemStats {
   totalVolume: number;
   todayVolume: number;
 }
+
+export interface MaintenanceStatus {
+  enabled: boolean;
+  message?: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface Backup {
+  id: string;
+  createdAt: string;
+  size: number;
+  downloadUrl: string;
+}
+
+export interface CreatedBackup {
+  backupId: string;
+  downloadUrl: string;
+}
+
+export interface AuditLogCleanupResult {
+  deletedCount: number;
+}
+
+export interface TokenVerification {
+  valid: boolean;
+}
+
+// Upload related data
+export interface UploadSession {
+  uploadId: string; // server-side session for one chunked file upload
+  chunkSize: number;
+  receivedChunks: number[]; // indexes the server already has
+}
+
+export interface UserImportResult {
+  created: number;
+  skipped: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface KycDocument {
+  id: string;
+  userId: string;
+  documentType: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+}
@@ -0,0 +1,177 @@
+/**
+ * File upload support for ApiClient
+ * Pre-flight validation, XMLHttpRequest transport for progress events and
+ * bookkeeping for resumable chunked uploads
+ */
+
+import type { ApiResponse } from './types';
+
+// Files above this size are sent as resumable chunks by default
+export const DEFAULT_CHUNK_THRESHOLD = 8 * 1024 * 1024;
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Retries per chunk; the upload only fails once one chunk has used them all
+export const DEFAULT_CHUNK_RETRIES = 3;
+
+// Whole-request timeout for a single-request upload or one chunk
+export const UPLOAD_TIMEOUT = 5 * 60 * 1000;
+
+export interface UploadProgress {
+  loaded: number; // bytes sent so far across all files and chunks
+  total: number;
+  percent: number; // 0-100
+  chunk?: { index: number; count: number }; // set for chunked uploads
+}
+
+export type UploadProgressHandler = (progress: UploadProgress) => void;
+
+export interface UploadConstraints {
+  maxTotalSize?: number; // bytes, across all files of one upload
+  accept?: string[]; // MIME types, 'image/*' style wildcards allowed
+}
+
+export function createProgress(loaded: number, total: number, chunk?: UploadProgress['chunk']): UploadProgress {
+  return {
+    loaded,
+    total,
+    percent: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 100,
+    chunk,
+  };
+}
+
+function matchesMimeType(type: string, pattern: string): boolean {
+  if (pattern.endsWith('/*')) {
+    return type.startsWith(pattern.slice(0, -1));
+  }
+  return type === pattern;
+}
+
+/**
+ * Check files against the constraints before anything is sent; returns an
+ * error response, or null when the upload may go ahead
+ */
+export function validateUpload(files: File[], constraints: UploadConstraints = {}): ApiResponse<never> | null {
+  if (files.length === 0) {
+    return { status: 'error', error: { code: 'NO_FILES', message: 'Select at least one file to upload' } };
+  }
+
+  const { maxTotalSize, accept } = constraints;
+
+  if (accept && accept.length > 0) {
+    const rejected = files.filter((file) => !accept.some((pattern) => matchesMimeType(file.type, pattern)));
+    if (rejected.length > 0) {
+      return {
+        status: 'error',
+        error: {
+          code: 'UNSUPPORTED_FILE_TYPE',
+          message: `Unsupported file type: ${rejected.map((file) => file.name).join(', ')}`,
+          details: { accept, files: rejected.map((file) => ({ name: file.name, type: file.type })) },
+        },
+      };
+    }
+  }
+
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  if (maxTotalSize !== undefined && totalSize > maxTotalSize) {
+    return {
+      status: 'error',
+      error: {
+        code: 'UPLOAD_TOO_LARGE',
+        message: `Upload is ${totalSize} bytes, the limit is ${maxTotalSize} bytes`,
+        details: { size: totalSize, maxTotalSize },
+      },
+    };
+  }
+
+  return null;
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+      }
+    });
+  return headers;
+}
+
+/**
+ * fetch()-like request over XMLHttpRequest, which unlike fetch reports
+ * upload progress. Rejects like fetch: AbortError on abort, TypeError on
+ * network failure.
+ */
+export function xhrTransport(url: string, init: RequestInit, onProgress: UploadProgressHandler): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const signal = init.signal;
+
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    xhr.open(init.method || 'GET', url);
+    xhr.withCredentials = init.credentials === 'include';
+    Object.entries((init.headers as Record<string, string>) || {}).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(createProgress(event.loaded, event.total));
+      }
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      // Null-body statuses cannot carry a body in a Response
+      const body = [204, 205, 304].includes(xhr.status) ? null : xhr.responseText;
+      resolve(
+        new Response(body, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+
+    xhr.send((init.body as XMLHttpRequestBodyInit | null | undefined) ?? null);
+  });
+}
+
+// Upload sessions by file, so uploading the same file to the same endpoint
+// again (after a failure or cancel) resumes instead of starting over
+const resumableSessions = new Map<string, string>();
+
+function sessionKey(endpoint: string, file: File): string {
+  return `${endpoint}|${file.name}|${file.size}|${file.lastModified}`;
+}
+
+export function getResumableUploadId(endpoint: string, file: File): string | undefined {
+  return resumableSessions.get(sessionKey(endpoint, file));
+}
+
+export function rememberResumableUpload(endpoint: string, file: File, uploadId: string | null): void {
+  if (uploadId) {
+    resumableSessions.set(sessionKey(endpoint, file), uploadId);
+  } else {
+    resumableSessions.delete(sessionKey(endpoint, file));
+  }
+}
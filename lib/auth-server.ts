@@ -4,8 +4,39 @@
  */
 
 import { cookies } from 'next/headers';
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { env, cookieConfig } from './env';
+import type { LoginData } from './api/types';
+import {
+  BACKEND_COOKIE,
+  BACKEND_HEADER,
+  BackendConfig,
+  DEFAULT_BACKEND_ID,
+  getBackend,
+  scopedName,
+} from './backends';
+
+// Remembered sessions survive browser restarts; others end with the browser session
+const REMEMBER_MAX_AGE = 7 * 24 * 60 * 60; // 7 days
+const REMEMBER_COOKIE_NAME = 'remember_session';
+const SESSION_COOKIE_PATH = '/api/auth';
+
+function baseCookieOptions(path: string) {
+  return {
+    httpOnly: true,
+    secure: cookieConfig.secure,
+    sameSite: cookieConfig.sameSite.toLowerCase() as 'strict' | 'lax' | 'none',
+    path,
+  };
+}
+
+/**
+ * Backend a request is for: the ApiClient's backend header, else the one
+ * selected in this browser, else the first configured backend
+ */
+export function getRequestBackend(request: NextRequest): BackendConfig {
+  return getBackend(request.headers.get(BACKEND_HEADER) || request.cookies.get(BACKEND_COOKIE)?.value);
+}
 
 /**
  * Get authentication token from cookies (Server-side only)
@@ -16,7 +47,8 @@ export async function getServerAuthToken(): Promise<string | null> {
 
   try {
     const cookieStore = cookies();
-    const token = cookieStore.get(cookieConfig.name);
+    const backend = getBackend(cookieStore.get(BACKEND_COOKIE)?.value);
+    const token = cookieStore.get(scopedName(cookieConfig.name, backend.id));
     return token?.value || null;
   } catch (error) {
     console.error('Failed to get server auth token:', error);
@@ -35,37 +67,101 @@ export function getTokenFromRequest(request: NextRequest): string | null {
     return authHeader.slice(7);
   }
 
-  // Try cookies (BFF mode)
+  // Try cookies (BFF mode), each backend has its own session
   if (env.NEXT_PUBLIC_AUTH_MODE === 'BFF') {
-    const token = request.cookies.get(cookieConfig.name);
+    const token = request.cookies.get(scopedName(cookieConfig.name, getRequestBackend(request).id));
     return token?.value || null;
   }
 
   return null;
 }
 
+/**
+ * Get the refresh token cookie (Server-side only)
+ * The cookie is scoped to /api/auth, so it only reaches the session routes
+ */
+export function getRefreshTokenFromRequest(request: NextRequest): string | null {
+  return request.cookies.get(scopedName(cookieConfig.refreshName, getRequestBackend(request).id))?.value || null;
+}
+
+/**
+ * Whether the session was created with "remember me"
+ */
+export function isRememberedRequest(request: NextRequest): boolean {
+  return request.cookies.get(scopedName(REMEMBER_COOKIE_NAME, getRequestBackend(request).id))?.value === '1';
+}
+
 /**
  * Set authentication cookie (Server-side only)
+ * The cookie outlives the access token on purpose: an expired token still
+ * marks the session as present, and the proxy's 401 triggers a refresh.
  * Use this in API routes
  */
-export function setServerAuthCookie(token: string, remember: boolean = false): ResponseInit {
-  const maxAge = remember ? cookieConfig.maxAge * 7 : cookieConfig.maxAge; // 7 days if remember
+export function setServerAuthCookie(
+  response: NextResponse,
+  token: string,
+  remember: boolean = false,
+  backendId: string = DEFAULT_BACKEND_ID
+): void {
+  response.cookies.set(scopedName(cookieConfig.name, backendId), token, {
+    ...baseCookieOptions(cookieConfig.path),
+    maxAge: remember ? REMEMBER_MAX_AGE : undefined,
+  });
+}
 
-  return {
-    headers: {
-      'Set-Cookie': `${cookieConfig.name}=${token}; HttpOnly; Secure=${cookieConfig.secure}; SameSite=${cookieConfig.sameSite}; Max-Age=${maxAge}; Path=/`,
-    },
+/**
+ * Set refresh token cookie (Server-side only), together with the
+ * remember flag so that a refresh keeps the session's lifetime
+ * Use this in API routes
+ */
+export function setServerRefreshCookie(
+  response: NextResponse,
+  token: string,
+  remember: boolean = false,
+  backendId: string = DEFAULT_BACKEND_ID
+): void {
+  const options = {
+    ...baseCookieOptions(SESSION_COOKIE_PATH),
+    maxAge: remember ? REMEMBER_MAX_AGE : undefined,
   };
+
+  response.cookies.set(scopedName(cookieConfig.refreshName, backendId), token, options);
+  response.cookies.set(scopedName(REMEMBER_COOKIE_NAME, backendId), remember ? '1' : '0', options);
+}
+
+/**
+ * Finish a sign-in (password, second factor or passkey): the tokens go
+ * into the request's backend's HttpOnly cookies and only the rest of the
+ * payload reaches the browser. Returns null when the exchange sent no
+ * access token. Use this in API routes
+ */
+export function applyLoginCookies(
+  request: NextRequest,
+  envelope: { data?: LoginData },
+  remember: boolean = false
+): NextResponse | null {
+  if (!envelope?.data || typeof envelope.data !== 'object' || !envelope.data.accessToken) {
+    return null;
+  }
+
+  const { accessToken, refreshToken, ...session } = envelope.data;
+  // Each backend keeps its own session cookies
+  const backendId = getRequestBackend(request).id;
+  const response = NextResponse.json({ ...envelope, data: session });
+  setServerAuthCookie(response, accessToken, remember, backendId);
+  if (refreshToken) {
+    setServerRefreshCookie(response, refreshToken, remember, backendId);
+  }
+  return response;
 }
 
 /**
- * Clear authentication cookie (Server-side only)
+ * Clear all session cookies (Server-side only)
  * Use this in API routes
  */
-export function clearServerAuthCookie(): ResponseInit {
-  return {
-    headers: {
-      'Set-Cookie': `${cookieConfig.name}=; HttpOnly; Secure=${cookieConfig.secure}; SameSite=${cookieConfig.sameSite}; Max-Age=0; Path=/`,
-    },
-  };
+export function clearServerAuthCookie(response: NextResponse, backendId: string = DEFAULT_BACKEND_ID): void {
+  const expired = (path: string) => ({ ...baseCookieOptions(path), maxAge: 0 });
+  response.cookies.set(scopedName(cookieConfig.name, backendId), '', expired(cookieConfig.path));
+  response.cookies.set(scopedName(cookieConfig.refreshName, backendId), '', expired(SESSION_COOKIE_PATH));
+  response.cookies.set(scopedName(REMEMBER_COOKIE_NAME, backendId), '', expired(SESSION_COOKIE_PATH));
 }
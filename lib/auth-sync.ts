@@ -0,0 +1,169 @@
+/**
+ * Cross-tab authentication sync
+ * Tells the other tabs of this browser about sign-in, sign-out, token
+ * refresh and user changes, and elects one leader tab to run scheduled
+ * token refreshes. Uses BroadcastChannel where available and storage
+ * events otherwise.
+ */
+
+import type { User } from './rbac';
+
+const CHANNEL_NAME = 'auth-sync';
+const MESSAGE_KEY = 'auth_sync';
+const LEADER_KEY = 'auth_leader';
+
+// The leader renews its lease every heartbeat; a lease not renewed within
+// LEASE_TTL (closed or frozen tab) can be taken over by another tab
+const HEARTBEAT_INTERVAL = 2000;
+const LEASE_TTL = 5000;
+
+// Tokens of a Direct mode session; in BFF mode they live in shared cookies
+export interface SyncedTokens {
+  accessToken: string;
+  refreshToken?: string;
+  remember: boolean;
+}
+
+export type AuthSyncEvent =
+  | { type: 'login'; backendId: string; user: User; tokens?: SyncedTokens }
+  | { type: 'logout'; backendId: string; expired: boolean }
+  | { type: 'refresh'; backendId: string; tokens: SyncedTokens }
+  | { type: 'user'; backendId: string; user: User };
+
+type Listener = (event: AuthSyncEvent) => void;
+type LeadershipListener = (isLeader: boolean) => void;
+
+interface Lease {
+  tabId: string;
+  expiresAt: number;
+}
+
+function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class AuthSync {
+  readonly tabId = createTabId();
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<Listener>();
+  private leadershipListeners = new Set<LeadershipListener>();
+  private leader = false;
+  private started = false;
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Start listening to other tabs and take part in leader election;
+   * safe to call more than once
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<AuthSyncEvent>) => this.emit(message.data);
+    }
+
+    window.addEventListener('storage', (event) => {
+      if (event.key === MESSAGE_KEY && event.newValue && !this.channel) {
+        try {
+          this.emit(JSON.parse(event.newValue).event);
+        } catch {
+          // Not one of ours
+        }
+      }
+    });
+
+    this.renewLease();
+    window.setInterval(() => this.renewLease(), HEARTBEAT_INTERVAL);
+    // Hand over right away instead of letting the lease run out
+    window.addEventListener('pagehide', () => this.releaseLease());
+  }
+
+  /**
+   * Send an event to every other tab; the sending tab is not notified
+   */
+  publish(event: AuthSyncEvent): void {
+    if (!this.started) return;
+
+    if (this.channel) {
+      this.channel.postMessage(event);
+      return;
+    }
+
+    // Storage events only fire for changes, so every message gets a nonce;
+    // the entry is removed at once and never outlives the message
+    try {
+      localStorage.setItem(MESSAGE_KEY, JSON.stringify({ event, nonce: createTabId() }));
+      localStorage.removeItem(MESSAGE_KEY);
+    } catch (error) {
+      console.warn('Could not share the session with other tabs:', error);
+    }
+  }
+
+  /**
+   * Get notified of other tabs' events, returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get notified when this tab becomes or stops being the leader
+   */
+  subscribeLeadership(listener: LeadershipListener): () => void {
+    this.leadershipListeners.add(listener);
+    return () => {
+      this.leadershipListeners.delete(listener);
+    };
+  }
+
+  private emit(event: AuthSyncEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private readLease(): Lease | null {
+    const raw = localStorage.getItem(LEADER_KEY);
+    return raw ? (JSON.parse(raw) as Lease) : null;
+  }
+
+  private renewLease(): void {
+    try {
+      const lease = this.readLease();
+      if (!lease || lease.tabId === this.tabId || lease.expiresAt < Date.now()) {
+        const ours: Lease = { tabId: this.tabId, expiresAt: Date.now() + LEASE_TTL };
+        localStorage.setItem(LEADER_KEY, JSON.stringify(ours));
+      }
+      // Read back: of two tabs claiming at once, the last write wins
+      this.setLeader(this.readLease()?.tabId === this.tabId);
+    } catch {
+      // Without storage there is no one to coordinate with
+      this.setLeader(true);
+    }
+  }
+
+  private releaseLease(): void {
+    try {
+      if (this.readLease()?.tabId === this.tabId) {
+        localStorage.removeItem(LEADER_KEY);
+      }
+    } catch {
+      // Nothing to release
+    }
+    this.setLeader(false);
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader === this.leader) return;
+    this.leader = leader;
+    this.leadershipListeners.forEach((listener) => listener(leader));
+  }
+}
+
+export const authSync = new AuthSync();
@@ -4,6 +4,7 @@
  */
 
 import { env, cookieConfig } from './env';
+import { getActiveBackend, scopedName } from './backends';
 import { User } from './rbac';
 
 // Authentication response interface
@@ -91,7 +92,7 @@ export async function getServerAuthToken(): Promise<string | null> {
 /**
  * Client-side: Get authentication token
  */
-export function getClientAuthToken(): string | null {
+export function getClientAuthToken(backendId: string = getActiveBackend().id): string | null {
   if (typeof window === 'undefined') return null;
 
   if (env.NEXT_PUBLIC_AUTH_MODE === 'BFF') {
@@ -99,38 +100,88 @@ export function getClientAuthToken(): string | null {
     return null;
   } else {
     // In Direct mode, get from storage
-    return localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
+    const key = scopedName('access_token', backendId);
+    return localStorage.getItem(key) || sessionStorage.getItem(key);
+  }
+}
+
+/**
+ * Keep a token in localStorage (remembered) or sessionStorage, never both
+ */
+function storeToken(name: string, token: string, remember: boolean, backendId: string): void {
+  const key = scopedName(name, backendId);
+  if (remember) {
+    localStorage.setItem(key, token);
+    sessionStorage.removeItem(key);
+  } else {
+    sessionStorage.setItem(key, token);
+    localStorage.removeItem(key);
   }
 }
 
 /**
  * Client-side: Store authentication token
  */
-export function setClientAuthToken(token: string, remember: boolean = false): void {
+export function setClientAuthToken(
+  token: string,
+  remember: boolean = false,
+  backendId: string = getActiveBackend().id
+): void {
   if (typeof window === 'undefined') return;
 
   if (env.NEXT_PUBLIC_AUTH_MODE === 'DIRECT') {
-    if (remember) {
-      localStorage.setItem('access_token', token);
-      sessionStorage.removeItem('access_token');
-    } else {
-      sessionStorage.setItem('access_token', token);
-      localStorage.removeItem('access_token');
-    }
+    storeToken('access_token', token, remember, backendId);
   }
   // In BFF mode, token is managed by server via cookies
 }
 
+/**
+ * Client-side: Get refresh token (Direct mode only)
+ */
+export function getClientRefreshToken(backendId: string = getActiveBackend().id): string | null {
+  if (typeof window === 'undefined') return null;
+  if (env.NEXT_PUBLIC_AUTH_MODE === 'BFF') return null;
+
+  const key = scopedName('refresh_token', backendId);
+  return localStorage.getItem(key) || sessionStorage.getItem(key);
+}
+
+/**
+ * Client-side: Store refresh token next to the access token
+ */
+export function setClientRefreshToken(
+  token: string,
+  remember: boolean = false,
+  backendId: string = getActiveBackend().id
+): void {
+  if (typeof window === 'undefined') return;
+
+  if (env.NEXT_PUBLIC_AUTH_MODE === 'DIRECT') {
+    storeToken('refresh_token', token, remember, backendId);
+  }
+}
+
+/**
+ * Check whether the current session was created with "remember me"
+ * (tokens kept in localStorage rather than sessionStorage)
+ */
+export function isRememberedSession(backendId: string = getActiveBackend().id): boolean {
+  if (typeof window === 'undefined') return false;
+
+  return localStorage.getItem(scopedName('access_token', backendId)) !== null;
+}
+
 /**
  * Client-side: Remove authentication token
  */
-export function removeClientAuthToken(): void {
+export function removeClientAuthToken(backendId: string = getActiveBackend().id): void {
   if (typeof window === 'undefined') return;
 
-  localStorage.removeItem('access_token');
-  sessionStorage.removeItem('access_token');
-  localStorage.removeItem('refresh_token');
-  sessionStorage.removeItem('refresh_token');
+  ['access_token', 'refresh_token'].forEach((name) => {
+    const key = scopedName(name, backendId);
+    localStorage.removeItem(key);
+    sessionStorage.removeItem(key);
+  });
 }
 
 /**
@@ -192,10 +243,15 @@ export function isAuthenticated(): boolean {
   return token !== null && !isTokenExpired(token);
 }
 
+export interface LogoutOptions {
+  // Go to /login afterwards; turn off to let the caller navigate (keeping locale and return path)
+  redirect?: boolean;
+}
+
 /**
  * Logout utility - clears all auth data
  */
-export async function logout(): Promise<void> {
+export async function logout({ redirect = true }: LogoutOptions = {}): Promise<void> {
   if (typeof window === 'undefined') return;
 
   // Clear client-side tokens
@@ -214,7 +270,9 @@ export async function logout(): Promise<void> {
   }
 
   // Redirect to login page
-  window.location.href = '/login';
+  if (redirect) {
+    window.location.href = '/login';
+  }
 }
 
 /**
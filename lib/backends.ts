@@ -0,0 +1,128 @@
+/**
+ * Exchange backends
+ * The environments the admin can operate (staging, sandbox, production
+ * regions, ...), configured through NEXT_PUBLIC_EXCHANGE_BACKENDS, and the
+ * one currently selected in this browser
+ */
+
+import { z } from 'zod';
+import { env, isProduction } from './env';
+
+export type BackendEnvironment = 'production' | 'staging' | 'sandbox' | 'development';
+
+export interface BackendConfig {
+  id: string; // lowercase letters, digits and dashes; namespaces tokens and cookies
+  name: string;
+  baseUrl: string;
+  environment: BackendEnvironment;
+}
+
+// Backend of a single-URL setup (NEXT_PUBLIC_EXCHANGE_API_BASE_URL); its
+// storage keys and cookies keep their plain names
+export const DEFAULT_BACKEND_ID = 'default';
+
+// Tells the BFF which backend a request is for
+export const BACKEND_HEADER = 'X-Exchange-Backend';
+
+// Selected backend, readable by middleware and the BFF on page loads
+export const BACKEND_COOKIE = 'exchange_backend';
+
+const BACKEND_STORAGE_KEY = 'exchange_backend';
+
+const backendListSchema = z
+  .array(
+    z.object({
+      id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+      name: z.string().min(1),
+      baseUrl: z.string().url(),
+      // Unlabelled backends are treated as production, the safe assumption
+      environment: z.enum(['production', 'staging', 'sandbox', 'development']).default('production'),
+    })
+  )
+  .min(1);
+
+function parseBackends(): BackendConfig[] {
+  const raw = env.NEXT_PUBLIC_EXCHANGE_BACKENDS;
+  if (!raw) {
+    return [
+      {
+        id: DEFAULT_BACKEND_ID,
+        name: isProduction ? 'Production' : 'Development',
+        baseUrl: env.NEXT_PUBLIC_EXCHANGE_API_BASE_URL,
+        environment: isProduction ? 'production' : 'development',
+      },
+    ];
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error('NEXT_PUBLIC_EXCHANGE_BACKENDS must be a JSON array');
+  }
+
+  const result = backendListSchema.safeParse(json);
+  if (!result.success) {
+    const [issue] = result.error.errors;
+    throw new Error(`Invalid NEXT_PUBLIC_EXCHANGE_BACKENDS at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const ids = result.data.map((backend) => backend.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate backend id "${duplicate}" in NEXT_PUBLIC_EXCHANGE_BACKENDS`);
+  }
+
+  return result.data;
+}
+
+export const backends: readonly BackendConfig[] = parseBackends();
+
+/**
+ * The backend with this id, or the first configured one
+ */
+export function getBackend(id?: string | null): BackendConfig {
+  return backends.find((backend) => backend.id === id) || backends[0];
+}
+
+/**
+ * Storage key or cookie name for one backend, e.g. access_token_staging
+ */
+export function scopedName(name: string, backendId: string): string {
+  return backendId === DEFAULT_BACKEND_ID ? name : `${name}_${backendId}`;
+}
+
+// ===== Selection (client-side) =====
+
+type Listener = (backend: BackendConfig) => void;
+
+const listeners = new Set<Listener>();
+
+/**
+ * The backend selected in this browser; the first configured one on the server
+ */
+export function getActiveBackend(): BackendConfig {
+  if (typeof window === 'undefined') return backends[0];
+  return getBackend(localStorage.getItem(BACKEND_STORAGE_KEY));
+}
+
+/**
+ * Select a backend for this browser. Callers switch the API client along
+ * with it; see switchBackend() in lib/api.
+ */
+export function setActiveBackend(id: string): BackendConfig {
+  const backend = getBackend(id);
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(BACKEND_STORAGE_KEY, backend.id);
+    document.cookie = `${BACKEND_COOKIE}=${backend.id}; Path=/; Max-Age=31536000; SameSite=Lax`;
+  }
+  listeners.forEach((listener) => listener(backend));
+  return backend;
+}
+
+export function subscribeBackend(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
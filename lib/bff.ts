@@ -0,0 +1,257 @@
+/**
+ * BFF proxy to the exchange API (Server-side only)
+ * Turns the HttpOnly session cookie into a Bearer token, streams bodies in
+ * both directions and answers upstream failures in the ApiResponse envelope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isMockApi } from './env';
+import { getRequestBackend, getTokenFromRequest } from './auth-server';
+import { REQUEST_ID_HEADER } from './api/inspector';
+import { RATE_LIMIT_HEADERS } from './api/rate-limit';
+import { BACKEND_HEADER } from './backends';
+import { randomUUID } from './utils';
+import type { ApiResponse } from './api/types';
+
+// Headers that describe a single connection and must not be forwarded (RFC 7230 §6.1)
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+// Never forwarded upstream: the browser's cookies, host and backend choice belong to the admin app
+const REQUEST_HEADERS_TO_DROP = ['host', 'cookie', 'authorization', 'content-length', BACKEND_HEADER.toLowerCase()];
+
+// fetch() has already decoded the body, so the upstream framing no longer applies
+const RESPONSE_HEADERS_TO_DROP = ['content-encoding', 'content-length', 'set-cookie'];
+
+// Kept on error responses, whose bodies are re-shaped: the client's rate limiter needs them on a
+// 429, and support needs the request id of failed calls most of all
+const ERROR_RESPONSE_HEADERS = [...Object.values(RATE_LIMIT_HEADERS), REQUEST_ID_HEADER];
+
+// Time allowed until the upstream answers with headers; the body may stream longer
+const UPSTREAM_TIMEOUT = 60000;
+
+// Node's fetch needs duplex: 'half' to send a ReadableStream body
+type StreamingRequestInit = RequestInit & { duplex?: 'half' };
+
+/**
+ * Copy headers, dropping hop-by-hop headers and any header named in Connection
+ */
+function filterHeaders(source: Headers, drop: string[]): Headers {
+  const connectionHeaders = (source.get('connection') || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const excluded = HOP_BY_HOP_HEADERS.concat(drop, connectionHeaders);
+
+  const headers = new Headers();
+  source.forEach((value, name) => {
+    if (!excluded.includes(name.toLowerCase())) {
+      headers.set(name, value);
+    }
+  });
+  return headers;
+}
+
+function buildUpstreamUrl(request: NextRequest, path: string[], search: string = ''): string {
+  const baseUrl = getRequestBackend(request).baseUrl.replace(/\/$/, '');
+  const pathname = path.map(encodeURIComponent).join('/');
+  return `${baseUrl}/${pathname}${search}`;
+}
+
+function buildUpstreamHeaders(request: NextRequest): Headers {
+  const headers = filterHeaders(request.headers, REQUEST_HEADERS_TO_DROP);
+
+  const token = getTokenFromRequest(request);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for') || request.ip;
+  if (forwardedFor) {
+    headers.set('X-Forwarded-For', forwardedFor);
+  }
+  headers.set('X-Forwarded-Host', request.nextUrl.host);
+  headers.set('X-Forwarded-Proto', request.nextUrl.protocol.replace(':', ''));
+  // Calls made by route handlers themselves still get a correlation id
+  if (!headers.has(REQUEST_ID_HEADER)) {
+    headers.set(REQUEST_ID_HEADER, randomUUID());
+  }
+
+  return headers;
+}
+
+export function errorResponse(status: number, code: string, message: string, details?: unknown): NextResponse {
+  const body: ApiResponse<never> = {
+    status: 'error',
+    error: { code, message, details },
+  };
+  return NextResponse.json(body, { status });
+}
+
+function copyErrorHeaders(upstream: Response, response: NextResponse): NextResponse {
+  ERROR_RESPONSE_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value !== null) {
+      response.headers.set(name, value);
+    }
+  });
+  return response;
+}
+
+/**
+ * Re-shape an upstream error body into the ApiResponse envelope,
+ * keeping the upstream status code, rate limit headers and request id
+ */
+export async function mapUpstreamError(response: Response): Promise<NextResponse> {
+  return copyErrorHeaders(response, await reshapeUpstreamError(response));
+}
+
+async function reshapeUpstreamError(response: Response): Promise<NextResponse> {
+  const contentType = response.headers.get('content-type') || '';
+  const fallback = `Upstream responded with ${response.status} ${response.statusText}`.trim();
+
+  if (!contentType.includes('application/json')) {
+    return errorResponse(response.status, 'UPSTREAM_ERROR', fallback);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    return errorResponse(response.status, 'UPSTREAM_ERROR', fallback);
+  }
+
+  const data: Record<string, unknown> =
+    payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Record<string, unknown>) : {};
+
+  if (data.status === 'error' && data.error) {
+    return NextResponse.json(data, { status: response.status });
+  }
+
+  return errorResponse(
+    response.status,
+    typeof data.code === 'string' && data.code ? data.code : 'HTTP_ERROR',
+    typeof data.message === 'string' && data.message ? data.message : fallback,
+    data.errors || data.details
+  );
+}
+
+/**
+ * The mock backend cannot consume streams, so its bodies are buffered
+ */
+async function readBufferedBody(request: NextRequest): Promise<BodyInit | undefined> {
+  if (request.method === 'GET' || request.method === 'HEAD') return undefined;
+
+  const contentType = request.headers.get('content-type') || '';
+  if (contentType.includes('multipart/form-data')) return request.formData();
+  if (contentType.includes('application/octet-stream')) return request.arrayBuffer();
+  return request.text();
+}
+
+/**
+ * Send to the exchange (or the mock backend) with a timeout until headers
+ * arrive; the browser disconnecting aborts the upstream request as well
+ */
+async function send(url: string, request: NextRequest, init: StreamingRequestInit): Promise<Response> {
+  if (isMockApi) {
+    const { mockFetch } = await import('./mock');
+    return mockFetch(url, { ...init, signal: request.signal });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT);
+  const onAbort = () => controller.abort();
+  request.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, {
+      ...init,
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: controller.signal,
+    } as StreamingRequestInit);
+  } finally {
+    clearTimeout(timeoutId);
+    request.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Answer a failed send() in the ApiResponse envelope
+ */
+export function transportErrorResponse(error: unknown, request: NextRequest, url: string): NextResponse {
+  if (error instanceof Error && error.name === 'AbortError') {
+    if (request.signal?.aborted) {
+      // The browser went away; nobody is left to read this
+      return errorResponse(499, 'ABORTED', 'Client closed request');
+    }
+    return errorResponse(504, 'UPSTREAM_TIMEOUT', 'Exchange API did not respond in time');
+  }
+
+  console.error(`BFF ${request.method} ${url} failed:`, error);
+  return errorResponse(502, 'UPSTREAM_UNAVAILABLE', 'Exchange API is unreachable');
+}
+
+/**
+ * Call one exchange endpoint with a JSON body on behalf of a route handler.
+ * Forwarded headers and the cookie token are applied as for the proxy.
+ * Throws on transport failures; see transportErrorResponse().
+ */
+export async function callExchange(
+  request: NextRequest,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<Response> {
+  const headers = buildUpstreamHeaders(request);
+  headers.delete('content-type');
+  if (body !== undefined) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  return send(buildUpstreamUrl(request, path.split('/').filter(Boolean)), request, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * Forward a /api/* request to the exchange API and stream the answer back
+ */
+export async function proxyRequest(request: NextRequest, path: string[]): Promise<Response> {
+  const url = buildUpstreamUrl(request, path, request.nextUrl.search);
+  const headers = buildUpstreamHeaders(request);
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+
+  let upstream: Response;
+  try {
+    upstream = await send(url, request, {
+      method: request.method,
+      headers,
+      body: isMockApi ? await readBufferedBody(request) : hasBody ? request.body : undefined,
+      duplex: hasBody && !isMockApi ? 'half' : undefined,
+    });
+  } catch (error) {
+    return transportErrorResponse(error, request, url);
+  }
+
+  if (upstream.status >= 400) {
+    return mapUpstreamError(upstream);
+  }
+
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: filterHeaders(upstream.headers, RESPONSE_HEADERS_TO_DROP),
+  });
+}
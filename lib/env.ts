@@ -19,8 +19,15 @@ const envSchema = z.object({
   // Backend API configuration
   NEXT_PUBLIC_EXCHANGE_API_BASE_URL: z.string().url().default('http://localhost:9977'),
   
+  // Several named backends as a JSON array; replaces the single base URL (see lib/backends.ts)
+  NEXT_PUBLIC_EXCHANGE_BACKENDS: z.string().optional(),
+  
+  // Serve the API from the in-process mock backend (lib/mock) instead of the exchange
+  NEXT_PUBLIC_MOCK_API: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  
   // Cookie settings (for BFF mode)
   AUTH_COOKIE_NAME: z.string().default('access_token'),
+  AUTH_REFRESH_COOKIE_NAME: z.string().default('refresh_token'),
   AUTH_COOKIE_SECURE: z.string().transform(Boolean).default('true'),
   AUTH_COOKIE_SAMESITE: z.enum(['Strict', 'Lax', 'None']).default('Strict'),
   AUTH_COOKIE_MAXAGE: z.string().transform(Number).default('900'), // 15 minutes
@@ -45,7 +52,10 @@ function parseEnv() {
     PORT: process.env.PORT,
     NEXT_PUBLIC_AUTH_MODE: process.env.NEXT_PUBLIC_AUTH_MODE,
     NEXT_PUBLIC_EXCHANGE_API_BASE_URL: process.env.NEXT_PUBLIC_EXCHANGE_API_BASE_URL,
+    NEXT_PUBLIC_EXCHANGE_BACKENDS: process.env.NEXT_PUBLIC_EXCHANGE_BACKENDS,
+    NEXT_PUBLIC_MOCK_API: process.env.NEXT_PUBLIC_MOCK_API,
     AUTH_COOKIE_NAME: process.env.AUTH_COOKIE_NAME,
+    AUTH_REFRESH_COOKIE_NAME: process.env.AUTH_REFRESH_COOKIE_NAME,
     AUTH_COOKIE_SECURE: process.env.AUTH_COOKIE_SECURE,
     AUTH_COOKIE_SAMESITE: process.env.AUTH_COOKIE_SAMESITE,
     AUTH_COOKIE_MAXAGE: process.env.AUTH_COOKIE_MAXAGE,
@@ -80,6 +90,7 @@ export type Env = typeof env;
 export const isDevelopment = env.NODE_ENV === 'development';
 export const isProduction = env.NODE_ENV === 'production';
 export const isTest = env.NODE_ENV === 'test';
+export const isMockApi = env.NEXT_PUBLIC_MOCK_API;
 
 // Get supported locales as array
 export const supportedLocales = env.NEXT_PUBLIC_SUPPORTED_LOCALES.split(',');
@@ -94,6 +105,7 @@ export const apiConfig = {
 // Cookie configuration
 export const cookieConfig = {
   name: env.AUTH_COOKIE_NAME,
+  refreshName: env.AUTH_REFRESH_COOKIE_NAME,
   secure: env.AUTH_COOKIE_SECURE,
   sameSite: env.AUTH_COOKIE_SAMESITE,
   maxAge: env.AUTH_COOKIE_MAXAGE,
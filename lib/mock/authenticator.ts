@@ -0,0 +1,211 @@
+/**
+ * Software authenticator for the mock backend
+ * Creates ES256 passkeys with WebCrypto and answers create()/get() like a
+ * platform authenticator that always verifies the user, so passkey flows can
+ * be exercised without a device. Keys are kept in localStorage when it exists.
+ */
+
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyCreationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRequestOptions,
+} from '@/lib/api/types';
+import { base64UrlDecode, base64UrlEncode } from '@/lib/utils';
+import { COSE_ES256, concatBytes, rawToDer, sha256 } from './webauthn';
+
+const STORAGE_KEY = 'mock_authenticator';
+
+// User present, user verified (and attested credential data on registration)
+const FLAGS_GET = 0x05;
+const FLAGS_CREATE = 0x45;
+
+interface StoredCredential {
+  id: string;
+  rpId: string;
+  userHandle: string;
+  privateKey: JsonWebKey;
+  signCount: number;
+  createdAt: number;
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+// Minimal CBOR for the attestation object: text strings, byte strings, maps
+function cborHeader(majorType: number, length: number): Uint8Array {
+  const major = majorType << 5;
+  if (length < 24) return new Uint8Array([major | length]);
+  if (length < 256) return new Uint8Array([major | 24, length]);
+  return new Uint8Array([major | 25, length >> 8, length & 255]);
+}
+
+function cborText(value: string): Uint8Array {
+  const bytes = new TextEncoder().encode(value);
+  return concatBytes(cborHeader(3, bytes.length), bytes);
+}
+
+function cborBytes(value: Uint8Array): Uint8Array {
+  return concatBytes(cborHeader(2, value.length), value);
+}
+
+/**
+ * COSE_Key of a P-256 public key: { 1: 2 (EC2), 3: -7 (ES256), -1: 1 (P-256), -2: x, -3: y }
+ */
+function coseKey(x: Uint8Array, y: Uint8Array): Uint8Array {
+  return concatBytes(
+    new Uint8Array([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21]),
+    cborBytes(x),
+    new Uint8Array([0x22]),
+    cborBytes(y)
+  );
+}
+
+function rpIdFor(origin: string, rpId?: string): string {
+  return rpId || new URL(origin).hostname;
+}
+
+function encodeClientData(type: string, challenge: string, origin: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+}
+
+export class SoftwareAuthenticator {
+  private credentials: StoredCredential[] | null = null;
+
+  private load(): StoredCredential[] {
+    if (!this.credentials) {
+      try {
+        const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+        this.credentials = raw ? (JSON.parse(raw) as StoredCredential[]) : [];
+      } catch {
+        this.credentials = [];
+      }
+    }
+    return this.credentials;
+  }
+
+  private save(): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.load()));
+    }
+  }
+
+  async create(options: PasskeyCreationOptions, origin: string): Promise<PasskeyRegistrationCredential> {
+    const rpId = rpIdFor(origin, options.rp.id);
+    const excluded = (options.excludeCredentials || []).map((descriptor) => descriptor.id);
+    if (this.load().some((credential) => credential.rpId === rpId && excluded.indexOf(credential.id) !== -1)) {
+      throw new DOMException('This authenticator already has a passkey for the account', 'InvalidStateError');
+    }
+    if (!options.pubKeyCredParams.some((param) => param.alg === COSE_ES256)) {
+      throw new DOMException('Only ES256 is supported', 'NotSupportedError');
+    }
+
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+    const credentialId = crypto.getRandomValues(new Uint8Array(16));
+
+    const authenticatorData = concatBytes(
+      await sha256(new TextEncoder().encode(rpId)),
+      new Uint8Array([FLAGS_CREATE]),
+      uint32(0),
+      new Uint8Array(16), // AAGUID: none
+      new Uint8Array([credentialId.length >> 8, credentialId.length & 255]),
+      credentialId,
+      coseKey(base64UrlDecode(publicJwk.x!), base64UrlDecode(publicJwk.y!))
+    );
+    const attestationObject = concatBytes(
+      new Uint8Array([0xa3]),
+      cborText('fmt'),
+      cborText('none'),
+      cborText('attStmt'),
+      new Uint8Array([0xa0]),
+      cborText('authData'),
+      cborBytes(authenticatorData)
+    );
+
+    const id = base64UrlEncode(credentialId);
+    this.load().push({
+      id,
+      rpId,
+      userHandle: options.user.id,
+      privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+      signCount: 0,
+      createdAt: Date.now(),
+    });
+    this.save();
+
+    return {
+      id,
+      rawId: id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64UrlEncode(encodeClientData('webauthn.create', options.challenge, origin)),
+        attestationObject: base64UrlEncode(attestationObject),
+        authenticatorData: base64UrlEncode(authenticatorData),
+        publicKey: base64UrlEncode(spki),
+        publicKeyAlgorithm: COSE_ES256,
+        transports: ['internal'],
+      },
+    };
+  }
+
+  async get(options: PasskeyRequestOptions, origin: string): Promise<PasskeyAuthenticationCredential> {
+    const rpId = rpIdFor(origin, options.rpId);
+    const allowed = (options.allowCredentials || []).map((descriptor) => descriptor.id);
+    // Without an allow list any passkey for the site may answer; use the newest
+    const credential = this.load()
+      .filter((item) => item.rpId === rpId && (allowed.length === 0 || allowed.indexOf(item.id) !== -1))
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+    if (!credential) {
+      throw new DOMException('No passkey for this site on this authenticator', 'NotAllowedError');
+    }
+
+    credential.signCount += 1;
+    this.save();
+
+    const clientDataJSON = encodeClientData('webauthn.get', options.challenge, origin);
+    const authenticatorData = concatBytes(
+      await sha256(new TextEncoder().encode(rpId)),
+      new Uint8Array([FLAGS_GET]),
+      uint32(credential.signCount)
+    );
+    const privateKey = await crypto.subtle.importKey(
+      'jwk',
+      credential.privateKey,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      concatBytes(authenticatorData, await sha256(clientDataJSON))
+    );
+
+    return {
+      id: credential.id,
+      rawId: credential.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64UrlEncode(clientDataJSON),
+        authenticatorData: base64UrlEncode(authenticatorData),
+        signature: base64UrlEncode(rawToDer(new Uint8Array(signature))),
+        userHandle: credential.userHandle,
+      },
+    };
+  }
+
+  /**
+   * Forget every passkey, like resetting the device
+   */
+  clear(): void {
+    this.credentials = [];
+    this.save();
+  }
+}
+
+export const softwareAuthenticator = new SoftwareAuthenticator();
@@ -0,0 +1,496 @@
+/**
+ * Seeded in-memory data store for the mock backend
+ * Every run starts from the same data set; mutations live until reload
+ */
+
+import { UserRole } from '@/lib/rbac';
+import type {
+  User,
+  Order,
+  Symbol as MarketSymbol,
+  AuditLog,
+  SystemSettings,
+  SystemStatus,
+  MaintenanceStatus,
+  Backup,
+  KycDocument,
+  PasskeyTransport,
+  UserSession,
+} from '@/lib/api/types';
+import { createRandom, hashSeed, pick, randomFloat, randomInt, Random } from './random';
+import type { MockResult } from './router';
+
+// Fixed clock for seeded timestamps so fixtures never drift between runs
+export const MOCK_NOW = Date.UTC(2025, 8, 1, 12, 0, 0);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface MockUserRecord {
+  id: string;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  password: string;
+  roles: UserRole[];
+  isActive: boolean;
+  kycLevel: number;
+  createdAt: string;
+  lastLoginAt?: string;
+  mfa?: MockMfaRecord;
+}
+
+export interface MockMfaRecord {
+  secret?: string; // set once enrollment is confirmed
+  pendingSecret?: string; // enrollment started but not confirmed
+  enrolledAt?: string;
+  recoveryCodes: string[];
+  lastStep: number; // last TOTP step used; a code cannot be replayed
+}
+
+export interface MockPasskey {
+  id: string; // credential id
+  userId: string;
+  name: string;
+  publicKey: string; // SubjectPublicKeyInfo, base64url
+  algorithm: number;
+  signCount: number;
+  transports: PasskeyTransport[];
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface MockSession {
+  id: string; // the sid claim of the session's access tokens
+  userId: string;
+  userAgent: string;
+  ipAddress: string;
+  location?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  revokedAt?: string; // kept so that its tokens are answered with SESSION_REVOKED
+}
+
+export interface MockUpload {
+  id: string;
+  userId: string; // uploader; sessions are private to them
+  fileName: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  chunks: Map<number, Blob>;
+}
+
+export interface MockDatabase {
+  users: MockUserRecord[];
+  orders: Order[];
+  symbols: MarketSymbol[];
+  auditLogs: AuditLog[];
+  settings: SystemSettings;
+  maintenance: MaintenanceStatus;
+  services: SystemStatus[];
+  backups: Backup[];
+  kycDocuments: KycDocument[];
+  uploads: Map<string, MockUpload>;
+  sessions: MockSession[];
+  refreshTokens: Map<string, string>; // refresh token -> session id
+  resetTokens: Map<string, { userId: string; expiresAt: number; used: boolean }>;
+  mfaChallenges: Map<string, { userId: string; expiresAt: number; attempts: number }>; // mfa token -> pending login
+  passkeys: MockPasskey[];
+  webauthnChallenges: Map<string, { purpose: 'register' | 'login'; userId?: string; expiresAt: number }>;
+  idempotencyKeys: Map<string, { fingerprint: string; result: Promise<MockResult> }>; // scoped key -> outcome
+  rateLimits: Map<string, { count: number; resetAt: number }>; // caller + route -> current window
+  sequence: number;
+}
+
+// Demo accounts, one per role (see README)
+const DEMO_ACCOUNTS: Array<[UserRole, string, string, string]> = [
+  [UserRole.SUPER_ADMIN, 'superadmin', 'Sam', 'Root'],
+  [UserRole.ADMIN, 'admin', 'Alice', 'Admin'],
+  [UserRole.OPERATOR, 'operator', 'Oscar', 'Operator'],
+  [UserRole.AUDITOR, 'auditor', 'Audrey', 'Auditor'],
+  [UserRole.VIEWER, 'viewer', 'Victor', 'Viewer'],
+];
+
+// The super admin signs in with a second factor (see DEVELOPMENT.md); add
+// this secret to an authenticator app to get codes
+export const DEMO_MFA_SECRET = 'JBSWY3DPEHPK3PXP';
+const DEMO_RECOVERY_CODES = Array.from({ length: 10 }, (_, i) => `demo-${('000' + (i + 1)).slice(-4)}`);
+
+const FIRST_NAMES = ['Chen', 'Maria', 'Kenji', 'Lena', 'Omar', 'Priya', 'Tom', 'Yuki', 'Ivan', 'Sara'];
+const LAST_NAMES = ['Lin', 'Garcia', 'Sato', 'Novak', 'Haddad', 'Rao', 'Baker', 'Wu', 'Petrov', 'Kim'];
+
+// Reference prices used to derive tickers, klines and order prices
+export const BASE_PRICES: Record<string, number> = {
+  BTCUSDT: 42150,
+  ETHUSDT: 2850,
+  BNBUSDT: 315.5,
+  SOLUSDT: 98.4,
+  XRPUSDT: 0.62,
+  DOGEUSDT: 0.085,
+  LUNAUSDT: 0.0001,
+};
+
+// Other devices the demo accounts are signed in on
+const SEED_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+];
+const SEED_LOCATIONS: Array<[string, string]> = [
+  ['203.0.113.24', 'Taipei, Taiwan'],
+  ['198.51.100.7', 'Singapore'],
+  ['192.0.2.55', 'Frankfurt, Germany'],
+  ['203.0.113.90', 'Tokyo, Japan'],
+];
+
+function padNumber(value: number): string {
+  return ('000000' + value).slice(-6);
+}
+
+function seedUsers(random: Random): MockUserRecord[] {
+  const users: MockUserRecord[] = DEMO_ACCOUNTS.map(([role, username, firstName, lastName], index) => ({
+    id: String(index + 1),
+    username,
+    email: `${username}@example.com`,
+    firstName,
+    lastName,
+    password: `${username}123`,
+    roles: [role],
+    isActive: true,
+    kycLevel: 2,
+    createdAt: new Date(MOCK_NOW - (400 - index) * DAY).toISOString(),
+    lastLoginAt: new Date(MOCK_NOW - index * 3600 * 1000).toISOString(),
+    mfa:
+      role === UserRole.SUPER_ADMIN
+        ? {
+            secret: DEMO_MFA_SECRET,
+            enrolledAt: new Date(MOCK_NOW - 300 * DAY).toISOString(),
+            recoveryCodes: DEMO_RECOVERY_CODES.slice(),
+            lastStep: -1,
+          }
+        : undefined,
+  }));
+
+  const roles = Object.values(UserRole);
+  for (let i = users.length; i < 40; i++) {
+    const firstName = pick(random, FIRST_NAMES);
+    const lastName = pick(random, LAST_NAMES);
+    const username = `${firstName}.${lastName}${i}`.toLowerCase();
+
+    users.push({
+      id: String(i + 1),
+      username,
+      email: `${username}@example.com`,
+      firstName,
+      lastName,
+      password: 'password123',
+      roles: [roles[i % roles.length]],
+      isActive: i % 7 !== 0,
+      kycLevel: randomInt(random, 0, 3),
+      createdAt: new Date(MOCK_NOW - randomInt(random, 1, 365) * DAY).toISOString(),
+      lastLoginAt: i % 5 === 0 ? undefined : new Date(MOCK_NOW - randomInt(random, 1, 30) * DAY).toISOString(),
+    });
+  }
+
+  return users;
+}
+
+function seedSymbols(): MarketSymbol[] {
+  return Object.keys(BASE_PRICES).map((symbol) => {
+    const price = BASE_PRICES[symbol];
+    const status = symbol === 'DOGEUSDT' ? 'suspended' : symbol === 'LUNAUSDT' ? 'delisted' : 'trading';
+
+    return {
+      symbol,
+      baseAsset: symbol.replace(/USDT$/, ''),
+      quoteAsset: 'USDT',
+      status,
+      minQty: price > 1000 ? 0.0001 : 0.01,
+      maxQty: 100000,
+      stepSize: price > 1000 ? 0.0001 : 0.01,
+      minPrice: price / 100,
+      maxPrice: price * 100,
+      tickSize: price > 1 ? 0.01 : 0.00001,
+      minNotional: 10,
+    };
+  });
+}
+
+function seedOrders(random: Random, users: MockUserRecord[]): Order[] {
+  const statuses: Order['status'][] = ['pending', 'filled', 'cancelled', 'rejected'];
+  const types: Order['type'][] = ['market', 'limit', 'stop', 'stop_limit'];
+  const tradable = Object.keys(BASE_PRICES).slice(0, 5);
+  const orders: Order[] = [];
+
+  for (let i = 0; i < 240; i++) {
+    const symbol = pick(random, tradable);
+    const type = types[i % types.length];
+    const status = statuses[Math.floor(i / 4) % statuses.length];
+    const price = randomFloat(random, BASE_PRICES[symbol] * 0.95, BASE_PRICES[symbol] * 1.05, 4);
+    const quantity = randomFloat(random, 0.01, 10, 4);
+    const createdAt = MOCK_NOW - (240 - i) * 3 * 3600 * 1000;
+    const filled = status === 'filled';
+
+    orders.push({
+      id: `ord_${padNumber(i + 1)}`,
+      userId: pick(random, users).id,
+      symbol,
+      side: random() > 0.5 ? 'buy' : 'sell',
+      type,
+      status,
+      quantity,
+      price: type === 'market' ? undefined : price,
+      stopPrice: type === 'stop' || type === 'stop_limit' ? randomFloat(random, price * 0.97, price, 4) : undefined,
+      filledQuantity: filled ? quantity : status === 'pending' ? randomFloat(random, 0, quantity / 2, 4) : 0,
+      averagePrice: filled ? price : undefined,
+      timeInForce: pick(random, ['GTC', 'IOC', 'FOK'] as const),
+      createdAt: new Date(createdAt).toISOString(),
+      updatedAt: new Date(createdAt + 60 * 1000).toISOString(),
+      filledAt: filled ? new Date(createdAt + 60 * 1000).toISOString() : undefined,
+    });
+  }
+
+  return orders;
+}
+
+function seedAuditLogs(random: Random, users: MockUserRecord[]): AuditLog[] {
+  const actions: Array<[string, string]> = [
+    ['login', 'auth'],
+    ['logout', 'auth'],
+    ['update', 'user'],
+    ['cancel', 'order'],
+    ['update', 'settings'],
+    ['create', 'backup'],
+  ];
+  const staff = users.slice(0, 5);
+
+  return Array.from({ length: 200 }, (_, i) => {
+    const [action, resource] = pick(random, actions);
+    const actor = pick(random, staff);
+
+    return {
+      id: `log_${padNumber(i + 1)}`,
+      userId: actor.id,
+      username: actor.username,
+      action,
+      resource,
+      resourceId: resource === 'auth' ? undefined : String(randomInt(random, 1, 40)),
+      ipAddress: `10.0.${randomInt(random, 0, 255)}.${randomInt(random, 1, 254)}`,
+      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+      timestamp: new Date(MOCK_NOW - (200 - i) * 2 * 3600 * 1000).toISOString(),
+    };
+  });
+}
+
+function seedSessions(random: Random, users: MockUserRecord[]): MockSession[] {
+  return users.slice(0, 5).flatMap((user, index) =>
+    Array.from({ length: 1 + (index % 2) }, (_, i) => {
+      const [ipAddress, location] = pick(random, SEED_LOCATIONS);
+      const createdAt = MOCK_NOW - randomInt(random, 2, 20) * DAY;
+      return {
+        id: `sess_${user.id}_${i + 1}`,
+        userId: user.id,
+        userAgent: pick(random, SEED_USER_AGENTS),
+        ipAddress,
+        location,
+        createdAt: new Date(createdAt).toISOString(),
+        lastSeenAt: new Date(createdAt + randomInt(random, 1, 48) * 3600 * 1000).toISOString(),
+      };
+    })
+  );
+}
+
+/**
+ * Build a fresh database from a seed
+ */
+export function createDatabase(seed: number = 42): MockDatabase {
+  const random = createRandom(seed);
+  const users = seedUsers(random);
+
+  return {
+    users,
+    orders: seedOrders(random, users),
+    symbols: seedSymbols(),
+    auditLogs: seedAuditLogs(random, users),
+    settings: {
+      maintenanceMode: false,
+      allowRegistration: false,
+      defaultUserRole: UserRole.VIEWER,
+      sessionTimeout: 30,
+      maxLoginAttempts: 5,
+      passwordPolicy: {
+        minLength: 10,
+        requireUppercase: true,
+        requireLowercase: true,
+        requireNumbers: true,
+        requireSpecialChars: true,
+      },
+    },
+    maintenance: { enabled: false },
+    services: ['Trading Engine', 'API Gateway', 'Database', 'WebSocket'].map((service, index) => ({
+      service,
+      status: index === 3 ? 'maintenance' : 'online',
+      uptime: 99.9 - index * 0.4,
+      lastCheck: new Date(MOCK_NOW).toISOString(),
+    })),
+    backups: [1, 2, 3].map((n) => ({
+      id: `bkp_${n}`,
+      createdAt: new Date(MOCK_NOW - n * 7 * DAY).toISOString(),
+      size: 1024 * 1024 * (50 + n * 5),
+      downloadUrl: `/downloads/backups/bkp_${n}.tar.gz`,
+    })),
+    kycDocuments: [],
+    uploads: new Map(),
+    sessions: seedSessions(random, users),
+    refreshTokens: new Map(),
+    resetTokens: new Map(),
+    mfaChallenges: new Map(),
+    passkeys: [],
+    webauthnChallenges: new Map(),
+    idempotencyKeys: new Map(),
+    rateLimits: new Map(),
+    sequence: 1000,
+  };
+}
+
+// One database per JS context (browser tab or server process)
+export const db = createDatabase();
+
+export function nextId(prefix: string): string {
+  db.sequence += 1;
+  return `${prefix}_${db.sequence}`;
+}
+
+export function toUser(record: MockUserRecord): User {
+  return {
+    id: record.id,
+    email: record.email,
+    name: `${record.firstName} ${record.lastName}`,
+    roles: record.roles,
+    isActive: record.isActive,
+    lastLoginAt: record.lastLoginAt ? new Date(record.lastLoginAt) : undefined,
+    createdAt: new Date(record.createdAt),
+  };
+}
+
+// Checked in order: Edge and Chrome user agents also mention Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg\//],
+  ['Firefox', /Firefox\//],
+  ['Chrome', /Chrome\//],
+  ['Safari', /Safari\//],
+];
+const PLATFORMS: Array<[string, RegExp]> = [
+  ['iOS', /iPhone|iPad/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * "Chrome on macOS" from a user agent; good enough for a session list
+ */
+export function describeDevice(userAgent: string): string {
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? 'Unknown browser';
+  const platform = PLATFORMS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? 'unknown platform';
+  return `${browser} on ${platform}`;
+}
+
+export function toUserSession(record: MockSession, currentId?: string): UserSession {
+  return {
+    id: record.id,
+    device: describeDevice(record.userAgent),
+    userAgent: record.userAgent,
+    ipAddress: record.ipAddress,
+    location: record.location,
+    createdAt: record.createdAt,
+    lastSeenAt: record.lastSeenAt,
+    current: record.id === currentId,
+  };
+}
+
+// The mock has no GeoIP database; it can only tell local addresses apart
+function locateIp(ipAddress: string): string | undefined {
+  return /^(127\.|10\.|192\.168\.|::1$|::ffff:127\.)/.test(ipAddress) ? 'Local network' : undefined;
+}
+
+/**
+ * Record a session for the device making the request. The id is given when
+ * a token outlives the in-memory database (page reload) and is seen again.
+ */
+export function openSession(userId: string, headers: Headers, id: string = nextId('sess'), createdAt?: number): MockSession {
+  const now = new Date().toISOString();
+  const ipAddress = headers.get('X-Forwarded-For')?.split(',')[0].trim() || '127.0.0.1';
+  const session: MockSession = {
+    id,
+    userId,
+    userAgent: headers.get('User-Agent') || (typeof navigator !== 'undefined' ? navigator.userAgent : 'mock-backend'),
+    ipAddress,
+    location: locateIp(ipAddress),
+    createdAt: createdAt ? new Date(createdAt).toISOString() : now,
+    lastSeenAt: now,
+  };
+  db.sessions.push(session);
+  return session;
+}
+
+export function activeSessions(userId: string): MockSession[] {
+  return db.sessions
+    .filter((session) => session.userId === userId && !session.revokedAt)
+    .sort((a, b) => Date.parse(b.lastSeenAt) - Date.parse(a.lastSeenAt));
+}
+
+/**
+ * End a session: its refresh tokens stop working at once, its access tokens
+ * at their next request
+ */
+export function revokeSession(session: MockSession): void {
+  session.revokedAt = new Date().toISOString();
+  db.refreshTokens.forEach((sessionId, token) => {
+    if (sessionId === session.id) db.refreshTokens.delete(token);
+  });
+}
+
+export function findUser(id: string): MockUserRecord | undefined {
+  return db.users.find((user) => user.id === id);
+}
+
+/**
+ * Append an audit log entry for a mutation made through the mock
+ */
+export function recordAudit(
+  actor: MockUserRecord | null,
+  action: string,
+  resource: string,
+  resourceId?: string,
+  details?: unknown
+): void {
+  db.auditLogs.push({
+    id: nextId('log'),
+    userId: actor?.id ?? '0',
+    username: actor?.username ?? 'anonymous',
+    action,
+    resource,
+    resourceId,
+    details,
+    ipAddress: '127.0.0.1',
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'mock-backend',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Deterministic reference price for a symbol at a point in time;
+ * a slow wave plus seeded noise, so klines and tickers agree
+ */
+export function priceAt(symbol: string, time: number): number {
+  const base = BASE_PRICES[symbol] ?? 1;
+  const bucket = Math.floor(time / 60000);
+  const noise = createRandom(hashSeed(symbol) ^ bucket)() - 0.5;
+  const wave = Math.sin(bucket / 720) * 0.04;
+
+  return Number((base * (1 + wave + noise * 0.01)).toPrecision(8));
+}
@@ -0,0 +1,118 @@
+/**
+ * Streaming exports for the mock backend
+ * Writes the preamble (generating admin, filters) and then the rows in
+ * small batches, so the client sees a real stream with progress
+ */
+
+import {
+  EXPORT_COLUMNS,
+  EXPORT_PREAMBLE_HEADER,
+  EXPORT_TOTAL_HEADER,
+  ExportResource,
+  describeFilters,
+} from '@/lib/api/export';
+import type { MockUserRecord } from './db';
+import { MockResult, fail } from './router';
+
+const BATCH_SIZE = 50;
+const BATCH_DELAY = 20; // ms between batches
+
+// Exports are expensive, so each export route allows fewer calls per minute
+export const EXPORT_RATE_LIMIT = 10;
+
+const TITLES: Record<ExportResource, string> = {
+  orders: 'Orders',
+  'audit-logs': 'Audit logs',
+  users: 'Users',
+};
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  const text = Array.isArray(value) ? value.join('|') : value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n#]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function lineStream(lines: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= lines.length) {
+        controller.close();
+        return;
+      }
+      if (index > 0) {
+        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY));
+      }
+
+      controller.enqueue(encoder.encode(lines.slice(index, index + BATCH_SIZE).join('')));
+      index += BATCH_SIZE;
+    },
+  });
+}
+
+/**
+ * Answer an export request (?format=csv|ndjson&columns=a,b plus filters)
+ * with the already filtered rows as a stream
+ */
+export function exportResult(
+  resource: ExportResource,
+  rows: object[],
+  query: URLSearchParams,
+  user: MockUserRecord | null
+): MockResult {
+  const format = query.get('format') || 'csv';
+  if (format !== 'csv' && format !== 'ndjson') {
+    return fail(422, 'VALIDATION_FAILED', 'Unsupported export format', { format: ['csv', 'ndjson'] });
+  }
+
+  const available = EXPORT_COLUMNS[resource];
+  const columns = query.get('columns')?.split(',').filter(Boolean) || available.slice();
+  const unknown = columns.filter((column) => !available.includes(column));
+  if (columns.length === 0 || unknown.length > 0) {
+    return fail(422, 'INVALID_COLUMNS', `Unknown columns: ${unknown.join(', ')}`, { available });
+  }
+
+  const filters: Record<string, string | string[]> = {};
+  query.forEach((value, key) => {
+    if (key === 'format' || key === 'columns') return;
+    const previous = filters[key];
+    filters[key] = previous === undefined ? value : ([] as string[]).concat(previous, value);
+  });
+
+  const generatedBy = user ? { id: user.id, username: user.username, name: `${user.firstName} ${user.lastName}` } : null;
+  const generatedAt = new Date().toISOString();
+
+  const preamble =
+    format === 'csv'
+      ? [
+          `# ${TITLES[resource]} export\n`,
+          `# Generated by: ${generatedBy ? `${generatedBy.name} (${generatedBy.username})` : 'unknown'} at ${generatedAt}\n`,
+          `# Filters: ${describeFilters(filters)}\n`,
+          `${columns.join(',')}\n`,
+        ]
+      : [`${JSON.stringify({ _meta: { resource, generatedBy, generatedAt, filters, columns } })}\n`];
+
+  // Rows are models such as User or Order, read here by column name
+  const lines = (rows as Array<Record<string, unknown>>).map((row) =>
+    format === 'csv'
+      ? `${columns.map((column) => csvCell(row[column])).join(',')}\n`
+      : `${JSON.stringify(columns.reduce<Record<string, unknown>>((picked, column) => {
+          picked[column] = row[column] ?? null;
+          return picked;
+        }, {}))}\n`
+  );
+
+  return {
+    status: 200,
+    body: lineStream(preamble.concat(lines)),
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="${resource}.${format}"`,
+      [EXPORT_TOTAL_HEADER]: String(rows.length),
+      [EXPORT_PREAMBLE_HEADER]: String(preamble.length),
+    },
+  };
+}
@@ -0,0 +1,549 @@
+/**
+ * Mock auth endpoints (AuthService)
+ */
+
+import { cookieConfig } from '@/lib/env';
+import type { LoginData, MfaChallenge, Passkey } from '@/lib/api/types';
+import { base64UrlEncode } from '@/lib/utils';
+import { meetsPasswordPolicy } from '@/lib/password';
+import {
+  db,
+  toUser,
+  toUserSession,
+  findUser,
+  recordAudit,
+  activeSessions,
+  openSession,
+  revokeSession,
+  MockMfaRecord,
+  MockPasskey,
+  MockSession,
+  MockUserRecord,
+} from '../db';
+import { signToken, randomToken } from '../jwt';
+import { generateTotpSecret, totpUri, verifyTotp } from '../totp';
+import { COSE_ES256, COSE_RS256, createChallenge, parseClientData, verifyAssertion, verifyRegistration } from '../webauthn';
+import { MockRouter, ok, fail, notFound } from '../router';
+import {
+  loginBodySchema,
+  mfaVerifyBodySchema,
+  passkeyLoginOptionsBodySchema,
+  passkeyLoginBodySchema,
+  passkeyRegistrationBodySchema,
+  mfaCodeBodySchema,
+  disableMfaBodySchema,
+  refreshBodySchema,
+  changePasswordBodySchema,
+  forgotPasswordBodySchema,
+  resetPasswordBodySchema,
+} from '../schemas';
+
+const RESET_TOKEN_TTL = 30 * 60 * 1000;
+const MFA_CHALLENGE_TTL = 5 * 60 * 1000;
+const MFA_MAX_ATTEMPTS = 5;
+const MFA_ISSUER = 'Mini Exchange Admin';
+const RECOVERY_CODE_COUNT = 10;
+const WEBAUTHN_TIMEOUT = 5 * 60 * 1000;
+
+async function issueTokens(
+  user: MockUserRecord,
+  session: MockSession
+): Promise<{ accessToken: string; refreshToken: string }> {
+  const accessToken = await signToken(
+    {
+      sub: user.id,
+      sid: session.id,
+      email: user.email,
+      name: `${user.firstName} ${user.lastName}`,
+      roles: user.roles,
+    },
+    cookieConfig.maxAge
+  );
+  const refreshToken = randomToken('rt');
+  db.refreshTokens.set(refreshToken, session.id);
+
+  return { accessToken, refreshToken };
+}
+
+function findByLogin(usernameOrEmail: string): MockUserRecord | undefined {
+  const needle = usernameOrEmail.trim().toLowerCase();
+  return db.users.find((user) => user.email === needle || user.username === needle);
+}
+
+async function startSession(user: MockUserRecord, headers: Headers): Promise<LoginData> {
+  const { accessToken, refreshToken } = await issueTokens(user, openSession(user.id, headers));
+  user.lastLoginAt = new Date().toISOString();
+  recordAudit(user, 'login', 'auth');
+
+  return {
+    accessToken,
+    tokenType: 'Bearer',
+    expiresIn: cookieConfig.maxAge,
+    refreshToken,
+    userId: Number(user.id),
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    status: user.isActive ? 'ACTIVE' : 'DISABLED',
+    kycLevel: user.kycLevel,
+    roles: user.roles,
+    permissions: null,
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = Array.from(crypto.getRandomValues(new Uint8Array(4)));
+    const hex = bytes.map((byte) => ('0' + byte.toString(16)).slice(-2)).join('');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+}
+
+/**
+ * Accept a TOTP code or consume a recovery code
+ */
+async function checkSecondFactor(mfa: MockMfaRecord, code?: string, recoveryCode?: string): Promise<boolean> {
+  if (code && mfa.secret) {
+    const step = await verifyTotp(mfa.secret, code, mfa.lastStep);
+    if (step === null) return false;
+    mfa.lastStep = step;
+    return true;
+  }
+
+  if (recoveryCode) {
+    const index = mfa.recoveryCodes.indexOf(recoveryCode.trim().toLowerCase());
+    if (index === -1) return false;
+    mfa.recoveryCodes.splice(index, 1);
+    return true;
+  }
+
+  return false;
+}
+
+function toPasskey(record: MockPasskey): Passkey {
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    lastUsedAt: record.lastUsedAt,
+    transports: record.transports,
+  };
+}
+
+// WebAuthn user handle: the user id, opaque to the authenticator
+function userHandle(user: MockUserRecord): string {
+  return base64UrlEncode(new TextEncoder().encode(user.id));
+}
+
+/**
+ * Take the challenge a WebAuthn response answers; each one is usable once
+ */
+function consumeChallenge(clientDataJSON: unknown, purpose: 'register' | 'login') {
+  let challenge: string;
+  try {
+    challenge = parseClientData(String(clientDataJSON ?? '')).challenge;
+  } catch {
+    return null;
+  }
+
+  const entry = db.webauthnChallenges.get(challenge);
+  db.webauthnChallenges.delete(challenge);
+  if (!entry || entry.purpose !== purpose || entry.expiresAt < Date.now()) return null;
+  return { ...entry, challenge };
+}
+
+export function registerAuthRoutes(router: MockRouter): void {
+  router.post(
+    '/v1/auth/login',
+    async ({ body, headers }) => {
+      const user = findByLogin(body.usernameOrEmail ?? '');
+      if (!user || user.password !== body.password) {
+        return fail(401, 'INVALID_CREDENTIALS', 'Invalid username/email or password');
+      }
+      if (!user.isActive) {
+        return fail(403, 'ACCOUNT_DISABLED', 'This account has been disabled');
+      }
+
+
+      // The password alone is not enough; the session starts at /mfa/verify
+      if (user.mfa?.secret) {
+        const mfaToken = randomToken('mfa');
+        db.mfaChallenges.set(mfaToken, { userId: user.id, expiresAt: Date.now() + MFA_CHALLENGE_TTL, attempts: 0 });
+        const challenge: MfaChallenge = {
+          mfaRequired: true,
+          mfaToken,
+          methods: ['totp', 'recovery_code'],
+          expiresIn: MFA_CHALLENGE_TTL / 1000,
+        };
+        return ok(challenge, 'Two-factor authentication required');
+      }
+
+      return ok(await startSession(user, headers), 'Login successful');
+    },
+    { public: true, body: loginBodySchema }
+  );
+
+  router.post(
+    '/v1/auth/mfa/verify',
+    async ({ body, headers }) => {
+      const token = body.mfaToken ?? '';
+      const challenge = db.mfaChallenges.get(token);
+      const user = challenge ? findUser(challenge.userId) : undefined;
+      if (!challenge || challenge.expiresAt < Date.now() || !user?.mfa || !user.isActive) {
+        db.mfaChallenges.delete(token);
+        return fail(401, 'MFA_TOKEN_INVALID', 'The sign-in attempt has expired, please sign in again');
+      }
+
+      if (!(await checkSecondFactor(user.mfa, body.code, body.recoveryCode))) {
+        // Guessing is limited per sign-in attempt
+        challenge.attempts += 1;
+        if (challenge.attempts >= MFA_MAX_ATTEMPTS) {
+          db.mfaChallenges.delete(token);
+        }
+        return fail(401, 'MFA_CODE_INVALID', 'The verification code is incorrect');
+      }
+
+      db.mfaChallenges.delete(token);
+      return ok(await startSession(user, headers), 'Login successful');
+    },
+    { public: true, body: mfaVerifyBodySchema }
+  );
+
+  // ----- Passkeys -----
+
+  router.post(
+    '/v1/auth/passkeys/login/options',
+    ({ body }) => {
+      // An unknown account gets the same answer as one without passkeys
+      const user = body.usernameOrEmail ? findByLogin(body.usernameOrEmail) : undefined;
+      const challenge = createChallenge();
+      db.webauthnChallenges.set(challenge, { purpose: 'login', userId: user?.id, expiresAt: Date.now() + WEBAUTHN_TIMEOUT });
+
+      return ok({
+        challenge,
+        allowCredentials: db.passkeys
+          .filter((passkey) => user && passkey.userId === user.id)
+          .map((passkey) => ({ type: 'public-key' as const, id: passkey.id, transports: passkey.transports })),
+        timeout: WEBAUTHN_TIMEOUT,
+        userVerification: 'required' as const,
+      });
+    },
+    { public: true, body: passkeyLoginOptionsBodySchema }
+  );
+
+  // A passkey with user verification replaces both password and TOTP
+  router.post(
+    '/v1/auth/passkeys/login',
+    async ({ body, headers }) => {
+      const { credential } = body;
+      const entry = consumeChallenge(credential?.response.clientDataJSON, 'login');
+      if (!credential || !entry) {
+        return fail(401, 'PASSKEY_CHALLENGE_INVALID', 'The passkey sign-in has expired, please try again');
+      }
+
+      const passkey = db.passkeys.find((item) => item.id === credential.id);
+      const user = passkey ? findUser(passkey.userId) : undefined;
+      if (!passkey || !user || (entry.userId && entry.userId !== user.id)) {
+        return fail(401, 'PASSKEY_NOT_FOUND', 'This passkey is not registered');
+      }
+      if (credential.response.userHandle && credential.response.userHandle !== userHandle(user)) {
+        return fail(401, 'PASSKEY_INVALID', 'Passkey does not belong to this account');
+      }
+      if (!user.isActive) {
+        return fail(403, 'ACCOUNT_DISABLED', 'This account has been disabled');
+      }
+
+      try {
+        passkey.signCount = await verifyAssertion(credential, entry.challenge, passkey);
+      } catch (error) {
+        return fail(401, 'PASSKEY_INVALID', `Passkey could not be verified: ${(error as Error).message}`);
+      }
+
+      passkey.lastUsedAt = new Date().toISOString();
+      return ok(await startSession(user, headers), 'Login successful');
+    },
+    { public: true, body: passkeyLoginBodySchema }
+  );
+
+  router.post('/v1/auth/passkeys/register/options', ({ user }) => {
+    const challenge = createChallenge();
+    db.webauthnChallenges.set(challenge, { purpose: 'register', userId: user!.id, expiresAt: Date.now() + WEBAUTHN_TIMEOUT });
+
+    return ok({
+      challenge,
+      rp: { name: MFA_ISSUER }, // no id: the browser uses the page's domain
+      user: { id: userHandle(user!), name: user!.email, displayName: `${user!.firstName} ${user!.lastName}` },
+      pubKeyCredParams: [
+        { type: 'public-key' as const, alg: COSE_ES256 },
+        { type: 'public-key' as const, alg: COSE_RS256 },
+      ],
+      timeout: WEBAUTHN_TIMEOUT,
+      excludeCredentials: db.passkeys
+        .filter((passkey) => passkey.userId === user!.id)
+        .map((passkey) => ({ type: 'public-key' as const, id: passkey.id, transports: passkey.transports })),
+      authenticatorSelection: { residentKey: 'required' as const, userVerification: 'required' as const },
+      attestation: 'none' as const,
+    });
+  });
+
+  router.post(
+    '/v1/auth/passkeys/register',
+    async ({ user, body }) => {
+      const name = (body.name ?? '').trim();
+      if (!name) {
+        return fail(422, 'VALIDATION_FAILED', 'Name is required', { name: 'Give the passkey a name' });
+      }
+
+      const { credential } = body;
+      const entry = consumeChallenge(credential?.response.clientDataJSON, 'register');
+      if (!credential || !entry || entry.userId !== user!.id) {
+        return fail(400, 'PASSKEY_CHALLENGE_INVALID', 'The passkey setup has expired, please try again');
+      }
+      if (db.passkeys.some((passkey) => passkey.id === credential.id)) {
+        return fail(409, 'PASSKEY_EXISTS', 'This passkey is already registered');
+      }
+
+      let verified;
+      try {
+        verified = await verifyRegistration(credential, entry.challenge);
+      } catch (error) {
+        return fail(400, 'PASSKEY_INVALID', `Passkey could not be verified: ${(error as Error).message}`);
+      }
+
+      const record: MockPasskey = {
+        id: credential.id,
+        userId: user!.id,
+        name,
+        ...verified,
+        transports: credential.response.transports ?? [],
+        createdAt: new Date().toISOString(),
+      };
+      db.passkeys.push(record);
+      recordAudit(user, 'register_passkey', 'auth');
+      return ok(toPasskey(record), 'Passkey registered');
+    },
+    { body: passkeyRegistrationBodySchema }
+  );
+
+  router.get('/v1/auth/passkeys', ({ user }) =>
+    ok(db.passkeys.filter((passkey) => passkey.userId === user!.id).map(toPasskey))
+  );
+
+  router.delete('/v1/auth/passkeys/:id', ({ user, params }) => {
+    const index = db.passkeys.findIndex((passkey) => passkey.id === params.id && passkey.userId === user!.id);
+    if (index === -1) return notFound('Passkey');
+
+    db.passkeys.splice(index, 1);
+    recordAudit(user, 'revoke_passkey', 'auth');
+    return ok(null, 'Passkey revoked');
+  });
+
+  // ----- Two-factor authentication -----
+
+  router.get('/v1/auth/mfa', ({ user }) => {
+    const mfa = user!.mfa;
+    return ok({
+      enabled: Boolean(mfa?.secret),
+      enrolledAt: mfa?.enrolledAt,
+      recoveryCodesRemaining: mfa?.secret ? mfa.recoveryCodes.length : 0,
+    });
+  });
+
+  router.post('/v1/auth/mfa/enroll', ({ user }) => {
+    if (user!.mfa?.secret) {
+      return fail(409, 'MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    user!.mfa = { pendingSecret: secret, recoveryCodes: [], lastStep: -1 };
+    return ok({ secret, otpauthUrl: totpUri(secret, user!.email, MFA_ISSUER) });
+  });
+
+  router.post(
+    '/v1/auth/mfa/enroll/confirm',
+    async ({ user, body }) => {
+      const mfa = user!.mfa;
+      if (!mfa?.pendingSecret) {
+        return fail(400, 'MFA_ENROLLMENT_NOT_STARTED', 'Start the two-factor setup first');
+      }
+
+      const step = await verifyTotp(mfa.pendingSecret, body.code ?? '');
+      if (step === null) {
+        return fail(400, 'MFA_CODE_INVALID', 'The verification code is incorrect');
+      }
+
+      user!.mfa = {
+        secret: mfa.pendingSecret,
+        enrolledAt: new Date().toISOString(),
+        recoveryCodes: generateRecoveryCodes(),
+        lastStep: step,
+      };
+      recordAudit(user, 'enable_mfa', 'auth');
+      return ok({ recoveryCodes: user!.mfa.recoveryCodes.slice() }, 'Two-factor authentication enabled');
+    },
+    { body: mfaCodeBodySchema }
+  );
+
+  router.post(
+    '/v1/auth/mfa/recovery-codes',
+    async ({ user, body }) => {
+      const mfa = user!.mfa;
+      if (!mfa?.secret) {
+        return fail(400, 'MFA_NOT_ENABLED', 'Two-factor authentication is not enabled');
+      }
+      if (!(await checkSecondFactor(mfa, body.code ?? ''))) {
+        return fail(400, 'MFA_CODE_INVALID', 'The verification code is incorrect');
+      }
+
+      mfa.recoveryCodes = generateRecoveryCodes();
+      recordAudit(user, 'regenerate_recovery_codes', 'auth');
+      return ok({ recoveryCodes: mfa.recoveryCodes.slice() });
+    },
+    { body: mfaCodeBodySchema }
+  );
+
+  router.post(
+    '/v1/auth/mfa/disable',
+    async ({ user, body }) => {
+      const mfa = user!.mfa;
+      if (!mfa?.secret) {
+        return fail(400, 'MFA_NOT_ENABLED', 'Two-factor authentication is not enabled');
+      }
+      if (user!.password !== body.password) {
+        return fail(400, 'INVALID_CURRENT_PASSWORD', 'Current password is incorrect');
+      }
+
+      const code = body.code ?? '';
+      if (!(await checkSecondFactor(mfa, code)) && !(await checkSecondFactor(mfa, undefined, code))) {
+        return fail(400, 'MFA_CODE_INVALID', 'The verification code is incorrect');
+      }
+
+      user!.mfa = undefined;
+      recordAudit(user, 'disable_mfa', 'auth');
+      return ok(null, 'Two-factor authentication disabled');
+    },
+    { body: disableMfaBodySchema }
+  );
+
+  router.post('/v1/auth/logout', ({ user, session }) => {
+    if (session) revokeSession(session);
+    recordAudit(user, 'logout', 'auth');
+    return ok(null, 'Logged out');
+  });
+
+  router.post(
+    '/v1/auth/refresh',
+    async ({ body }) => {
+      const refreshToken = body.refreshToken ?? '';
+      const sessionId = db.refreshTokens.get(refreshToken);
+      const session = sessionId ? db.sessions.find((item) => item.id === sessionId) : undefined;
+      const user = session ? findUser(session.userId) : undefined;
+      if (!session || !user || !user.isActive) {
+        return fail(401, 'INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+      }
+
+      // Rotate: the old refresh token can only be used once
+      db.refreshTokens.delete(refreshToken);
+      session.lastSeenAt = new Date().toISOString();
+      const tokens = await issueTokens(user, session);
+      return ok({ token: tokens.accessToken, expiresIn: cookieConfig.maxAge, refreshToken: tokens.refreshToken });
+    },
+    { public: true, body: refreshBodySchema }
+  );
+
+  router.get('/v1/auth/me', ({ user }) => ok(toUser(user!)));
+
+  // ----- Sessions -----
+
+  router.get('/v1/auth/sessions', ({ user, session }) =>
+    ok(activeSessions(user!.id).map((item) => toUserSession(item, session?.id)))
+  );
+
+  router.delete('/v1/auth/sessions/:id', ({ user, session, params }) => {
+    const target = activeSessions(user!.id).find((item) => item.id === params.id);
+    if (!target) return notFound('Session');
+    if (target.id === session?.id) {
+      return fail(400, 'CANNOT_REVOKE_CURRENT_SESSION', 'Sign out to end the current session');
+    }
+
+    revokeSession(target);
+    recordAudit(user, 'revoke_session', 'auth', target.id);
+    return ok(null, 'Session revoked');
+  });
+
+  router.post('/v1/auth/sessions/revoke-others', ({ user, session }) => {
+    const others = activeSessions(user!.id).filter((item) => item.id !== session?.id);
+    others.forEach(revokeSession);
+    recordAudit(user, 'revoke_other_sessions', 'auth', undefined, { revoked: others.length });
+    return ok({ revoked: others.length }, `${others.length} sessions revoked`);
+  });
+
+  router.get('/v1/auth/verify', () => ok({ valid: true }));
+
+  // The idle timeout applies to every role, not only those allowed to read the settings
+  router.get('/v1/auth/session-settings', () => ok({ sessionTimeout: db.settings.sessionTimeout }));
+
+  router.post(
+    '/v1/auth/change-password',
+    ({ user, body }) => {
+      if (user!.password !== body.currentPassword) {
+        return fail(400, 'INVALID_CURRENT_PASSWORD', 'Current password is incorrect');
+      }
+      user!.password = String(body.newPassword);
+      recordAudit(user, 'change_password', 'auth');
+      return ok(null, 'Password changed');
+    },
+    { body: changePasswordBodySchema }
+  );
+
+  router.post(
+    '/v1/auth/forgot-password',
+    ({ body }) => {
+      const user = db.users.find((item) => item.email === (body.email ?? '').toLowerCase());
+      if (user) {
+        const token = randomToken('reset');
+        db.resetTokens.set(token, { userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL, used: false });
+        // There is no mailbox in the mock, so surface the link in the console
+        console.info(`[mock] Password reset link for ${user.email}: /reset-password?token=${token}`);
+      }
+      // Same answer whether or not the account exists
+      return ok(null, 'If the account exists, a reset link has been sent');
+    },
+    { public: true, body: forgotPasswordBodySchema }
+  );
+
+  router.get('/v1/auth/password-policy', () => ok(db.settings.passwordPolicy), { public: true });
+
+  router.post(
+    '/v1/auth/reset-password',
+    ({ body }) => {
+      const entry = db.resetTokens.get(body.token ?? '');
+      if (!entry) {
+        return fail(400, 'RESET_TOKEN_INVALID', 'Reset link is invalid');
+      }
+      if (entry.used) {
+        return fail(400, 'RESET_TOKEN_USED', 'Reset link has already been used');
+      }
+      if (entry.expiresAt < Date.now()) {
+        return fail(400, 'RESET_TOKEN_EXPIRED', 'Reset link has expired');
+      }
+
+      // A rejected password leaves the link usable for another try
+      const password = body.password ?? '';
+      if (!meetsPasswordPolicy(password, db.settings.passwordPolicy)) {
+        return fail(422, 'PASSWORD_POLICY_VIOLATION', 'Password does not meet the password policy', {
+          password: 'Does not meet the password policy',
+        });
+      }
+
+      const user = findUser(entry.userId)!;
+      user.password = password;
+      entry.used = true;
+      recordAudit(user, 'reset_password', 'auth');
+      return ok(null, 'Password has been reset');
+    },
+    { public: true, body: resetPasswordBodySchema }
+  );
+}
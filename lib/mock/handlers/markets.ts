@@ -0,0 +1,207 @@
+/**
+ * Mock market data endpoints (MarketService)
+ * Prices come from priceAt(), so tickers, klines, trades and order books agree
+ */
+
+import { Permission } from '@/lib/rbac';
+import type { Kline, Ticker, Trade } from '@/lib/api/types';
+import { db, priceAt } from '../db';
+import { createRandom, hashSeed, randomFloat } from '../random';
+import { MockRouter, ok, notFound } from '../router';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const INTERVALS: Record<string, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': HOUR,
+  '4h': 4 * HOUR,
+  '1d': DAY,
+  '1w': 7 * DAY,
+  '1M': 30 * DAY,
+};
+
+function clampLimit(value: string | null, fallback: number, max: number): number {
+  return Math.min(Math.max(Number(value) || fallback, 1), max);
+}
+
+function buildKline(symbol: string, openTime: number, interval: number): Kline {
+  const closeTime = openTime + interval - 1;
+  const samples = [0, 0.25, 0.5, 0.75, 1].map((step) => priceAt(symbol, openTime + step * interval));
+  const random = createRandom(hashSeed(symbol) ^ Math.floor(openTime / MINUTE));
+  const trades = Math.round((interval / MINUTE) * randomFloat(random, 5, 40, 0));
+
+  return {
+    openTime,
+    closeTime,
+    open: samples[0],
+    high: Math.max(...samples),
+    low: Math.min(...samples),
+    close: samples[samples.length - 1],
+    volume: randomFloat(random, 0.5, 3, 4) * trades,
+    trades,
+  };
+}
+
+function buildTicker(symbol: string, now: number): Ticker {
+  const price = priceAt(symbol, now);
+  const open = priceAt(symbol, now - DAY);
+  const hourly = Array.from({ length: 25 }, (_, i) => priceAt(symbol, now - i * HOUR));
+  const random = createRandom(hashSeed(symbol) ^ Math.floor(now / HOUR));
+
+  return {
+    symbol,
+    price,
+    change24h: Number((price - open).toPrecision(8)),
+    changePercent24h: Number((((price - open) / open) * 100).toFixed(2)),
+    high24h: Math.max(...hourly),
+    low24h: Math.min(...hourly),
+    volume24h: randomFloat(random, 1000, 50000, 2),
+    lastUpdate: new Date(now).toISOString(),
+  };
+}
+
+function buildTrades(symbol: string, now: number, limit: number): Trade[] {
+  const random = createRandom(hashSeed(symbol) ^ Math.floor(now / MINUTE));
+
+  return Array.from({ length: limit }, (_, i) => {
+    const timestamp = now - i * randomFloat(random, 0.5, 5, 1) * 1000;
+    return {
+      id: `trd_${symbol}_${Math.floor(timestamp)}`,
+      symbol,
+      price: priceAt(symbol, timestamp),
+      quantity: randomFloat(random, 0.001, 2, 4),
+      side: random() > 0.5 ? 'buy' : 'sell',
+      timestamp: new Date(timestamp).toISOString(),
+    };
+  });
+}
+
+function isListed(symbol: string): boolean {
+  return db.symbols.some((item) => item.symbol === symbol);
+}
+
+function trading(): string[] {
+  return db.symbols.filter((item) => item.status === 'trading').map((item) => item.symbol);
+}
+
+export function registerMarketRoutes(router: MockRouter): void {
+  const options = { permission: Permission.VIEW_MARKETS };
+
+  router.get('/market/symbols', () => ok(db.symbols), options);
+
+  router.get(
+    '/market/symbols/:symbol',
+    ({ params }) => {
+      const symbol = db.symbols.find((item) => item.symbol === params.symbol.toUpperCase());
+      return symbol ? ok(symbol) : notFound('Symbol');
+    },
+    options
+  );
+
+  router.get('/market/tickers', () => ok(trading().map((symbol) => buildTicker(symbol, Date.now()))), options);
+
+  router.get(
+    '/market/tickers/:symbol',
+    ({ params }) => {
+      const symbol = params.symbol.toUpperCase();
+      return isListed(symbol) ? ok(buildTicker(symbol, Date.now())) : notFound('Symbol');
+    },
+    options
+  );
+
+  router.get(
+    '/market/orderbook/:symbol',
+    ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase();
+      if (!isListed(symbol)) return notFound('Symbol');
+
+      const now = Date.now();
+      const price = priceAt(symbol, now);
+      const depth = clampLimit(query.get('limit'), 20, 100);
+      const random = createRandom(hashSeed(symbol) ^ Math.floor(now / 1000));
+      const level = (side: number, i: number): [number, number] => [
+        Number((price * (1 + side * (i + 1) * 0.0005)).toPrecision(8)),
+        randomFloat(random, 0.01, 5, 4),
+      ];
+
+      return ok({
+        symbol,
+        bids: Array.from({ length: depth }, (_, i) => level(-1, i)),
+        asks: Array.from({ length: depth }, (_, i) => level(1, i)),
+        lastUpdate: new Date(now).toISOString(),
+      });
+    },
+    options
+  );
+
+  router.get(
+    '/market/trades/:symbol',
+    ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase();
+      if (!isListed(symbol)) return notFound('Symbol');
+      return ok(buildTrades(symbol, Date.now(), clampLimit(query.get('limit'), 50, 500)));
+    },
+    options
+  );
+
+  router.get(
+    '/market/klines/:symbol',
+    ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase();
+      if (!isListed(symbol)) return notFound('Symbol');
+
+      const interval = INTERVALS[query.get('interval') ?? '1h'] ?? HOUR;
+      const limit = clampLimit(query.get('limit'), 100, 1000);
+      const start = Number(query.get('startTime')) || undefined;
+      const end = Number(query.get('endTime')) || Date.now();
+
+      let first = Math.floor(end / interval) * interval - (limit - 1) * interval;
+      if (start !== undefined) first = Math.max(first, Math.floor(start / interval) * interval);
+
+      const klines: Kline[] = [];
+      for (let openTime = first; openTime <= end && klines.length < limit; openTime += interval) {
+        klines.push(buildKline(symbol, openTime, interval));
+      }
+      return ok(klines);
+    },
+    options
+  );
+
+  router.get(
+    '/market/24hr-stats',
+    () => {
+      const tickers = trading().map((symbol) => buildTicker(symbol, Date.now()));
+      return ok({
+        totalVolume: tickers.reduce((sum, ticker) => sum + ticker.volume24h * ticker.price, 0),
+        totalTrades: tickers.reduce((sum, ticker) => sum + Math.round(ticker.volume24h / 2), 0),
+        priceChangeStats: tickers.map((ticker) => ({
+          symbol: ticker.symbol,
+          priceChange: ticker.change24h,
+          priceChangePercent: ticker.changePercent24h,
+        })),
+      });
+    },
+    options
+  );
+
+  router.get(
+    '/market/hot-symbols',
+    ({ query }) => {
+      const tickers = trading().map((symbol) => buildTicker(symbol, Date.now()));
+      const hot = tickers
+        .map((ticker) => ({
+          symbol: ticker.symbol,
+          volume24h: ticker.volume24h,
+          trades24h: Math.round(ticker.volume24h / 2),
+        }))
+        .sort((a, b) => b.volume24h - a.volume24h);
+      return ok(hot.slice(0, clampLimit(query.get('limit'), 10, 50)));
+    },
+    options
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Mock order management endpoints (OrderService)
+ */
+
+import { Permission } from '@/lib/rbac';
+import type { Order } from '@/lib/api/types';
+import { db, recordAudit, nextId, priceAt, MOCK_NOW } from '../db';
+import { MockRouter, ok, fail, notFound, applyQuery, paginateQuery } from '../router';
+import { exportResult, EXPORT_RATE_LIMIT } from '../export';
+import { batchCancelOrdersBodySchema, createOrderBodySchema, updateOrderBodySchema } from '../schemas';
+
+const DAY = 24 * 60 * 60 * 1000;
+const FINAL_STATUSES: Order['status'][] = ['filled', 'cancelled', 'rejected'];
+
+/**
+ * Filter and sort orders from OrderFilters & QueryParams
+ */
+export function queryOrders(query: URLSearchParams, items: Order[] = db.orders): Order[] {
+  return applyQuery(items, query, {
+    searchFields: ['id', 'symbol', 'userId'],
+    dateField: 'createdAt',
+    filters: {
+      userId: (order, value) => order.userId === value,
+      symbol: (order, value) => order.symbol === value.toUpperCase(),
+      side: (order, value) => order.side === value,
+      status: (order, value) => order.status === value,
+      type: (order, value) => order.type === value,
+    },
+    ranges: {
+      price: (order) => order.price ?? order.averagePrice,
+      quantity: (order) => order.quantity,
+    },
+  });
+}
+
+function findOrder(id: string): Order | undefined {
+  return db.orders.find((order) => order.id === id);
+}
+
+function cancel(order: Order): void {
+  order.status = 'cancelled';
+  order.updatedAt = new Date().toISOString();
+}
+
+export function registerOrderRoutes(router: MockRouter): void {
+  router.get('/orders', ({ query }) => paginateQuery(queryOrders(query), query), {
+    permission: Permission.VIEW_ORDERS,
+  });
+
+  router.get('/orders/export/stream', ({ query, user }) => exportResult('orders', queryOrders(query), query, user), {
+    permission: Permission.EXPORT_DATA,
+    rateLimit: EXPORT_RATE_LIMIT,
+  });
+
+  router.get(
+    '/orders/history',
+    ({ query }) => {
+      const history = db.orders.filter((order) => FINAL_STATUSES.includes(order.status));
+      return paginateQuery(queryOrders(query, history), query);
+    },
+    { permission: Permission.VIEW_ORDERS }
+  );
+
+  router.get(
+    '/orders/stats',
+    () => {
+      const today = db.orders.filter((order) => Date.parse(order.createdAt) > MOCK_NOW - DAY);
+      const count = (status: Order['status']) => db.orders.filter((order) => order.status === status).length;
+
+      return ok({
+        total: db.orders.length,
+        pending: count('pending'),
+        filled: count('filled'),
+        cancelled: count('cancelled'),
+        todayVolume: today.reduce((sum, order) => sum + order.filledQuantity * (order.averagePrice ?? 0), 0),
+        todayCount: today.length,
+      });
+    },
+    { permission: Permission.VIEW_ORDERS }
+  );
+
+  router.post(
+    '/orders/export',
+    ({ user }) => {
+      const exportId = nextId('exp');
+      recordAudit(user, 'export', 'order', exportId);
+      return ok({ downloadUrl: `/downloads/exports/${exportId}.csv` }, 'Export ready');
+    },
+    { permission: Permission.EXPORT_DATA }
+  );
+
+  router.post(
+    '/orders/batch-cancel',
+    ({ body, user }) => {
+      const ids = body.orderIds ?? [];
+      const cancelled = db.orders.filter((order) => ids.includes(order.id) && order.status === 'pending');
+      cancelled.forEach(cancel);
+
+      recordAudit(user, 'batch_cancel', 'order', undefined, { orderIds: ids });
+      return ok(null, `${cancelled.length} orders cancelled`);
+    },
+    { permission: Permission.CANCEL_ORDER, body: batchCancelOrdersBodySchema }
+  );
+
+  router.get(
+    '/orders/:id',
+    ({ params }) => {
+      const order = findOrder(params.id);
+      return order ? ok(order) : notFound('Order');
+    },
+    { permission: Permission.VIEW_ORDERS }
+  );
+
+  // Admins place and amend orders on behalf of users, which requires order management rights
+  router.post(
+    '/orders',
+    ({ body, user }) => {
+      const symbol = db.symbols.find((item) => item.symbol === (body.symbol ?? '').toUpperCase());
+      if (!symbol) {
+        return fail(422, 'VALIDATION_FAILED', 'Invalid order', { symbol: 'Unknown symbol' });
+      }
+      if (symbol.status !== 'trading') {
+        return fail(409, 'SYMBOL_NOT_TRADING', `${symbol.symbol} is ${symbol.status}`);
+      }
+      if (!(Number(body.quantity) > 0)) {
+        return fail(422, 'VALIDATION_FAILED', 'Invalid order', { quantity: 'Quantity must be positive' });
+      }
+
+      const now = new Date().toISOString();
+      const order: Order = {
+        id: nextId('ord'),
+        userId: user!.id,
+        symbol: symbol.symbol,
+        side: body.side ?? 'buy',
+        type: body.type ?? 'limit',
+        status: 'pending',
+        quantity: Number(body.quantity),
+        price: body.type === 'market' ? undefined : body.price ?? priceAt(symbol.symbol, Date.now()),
+        stopPrice: body.stopPrice,
+        filledQuantity: 0,
+        timeInForce: body.timeInForce ?? 'GTC',
+        createdAt: now,
+        updatedAt: now,
+      };
+      db.orders.push(order);
+
+      recordAudit(user, 'create', 'order', order.id);
+      return ok(order, 'Order created', 201);
+    },
+    { permission: Permission.CANCEL_ORDER, body: createOrderBodySchema }
+  );
+
+  router.put(
+    '/orders/:id',
+    ({ params, body, user }) => {
+      const order = findOrder(params.id);
+      if (!order) return notFound('Order');
+      if (order.status !== 'pending') {
+        return fail(409, 'ORDER_NOT_PENDING', 'Only pending orders can be updated');
+      }
+
+      if (body.quantity !== undefined) order.quantity = body.quantity;
+      if (body.price !== undefined) order.price = body.price;
+      if (body.stopPrice !== undefined) order.stopPrice = body.stopPrice;
+      order.updatedAt = new Date().toISOString();
+
+      recordAudit(user, 'update', 'order', order.id, body);
+      return ok(order, 'Order updated');
+    },
+    { permission: Permission.CANCEL_ORDER, body: updateOrderBodySchema }
+  );
+
+  router.post(
+    '/orders/:id/cancel',
+    ({ params, user }) => {
+      const order = findOrder(params.id);
+      if (!order) return notFound('Order');
+      if (order.status !== 'pending') {
+        return fail(409, 'ORDER_NOT_PENDING', 'Only pending orders can be cancelled');
+      }
+
+      cancel(order);
+      recordAudit(user, 'cancel', 'order', order.id);
+      return ok(order, 'Order cancelled');
+    },
+    { permission: Permission.CANCEL_ORDER }
+  );
+}
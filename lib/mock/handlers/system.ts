@@ -0,0 +1,170 @@
+/**
+ * Mock system management endpoints (SystemService)
+ */
+
+import { Permission } from '@/lib/rbac';
+import type { AuditLog } from '@/lib/api/types';
+import { db, recordAudit, nextId, MOCK_NOW } from '../db';
+import { MockRouter, ok, fail, notFound, applyQuery, paginateQuery } from '../router';
+import { exportResult, EXPORT_RATE_LIMIT } from '../export';
+import { cleanupAuditLogsBodySchema, maintenanceBodySchema, systemSettingsBodySchema } from '../schemas';
+
+/**
+ * Filter and sort audit logs from AuditLogFilters & QueryParams, newest
+ * first unless the caller asks for another order
+ */
+function queryAuditLogs(query: URLSearchParams): AuditLog[] {
+  return applyQuery<AuditLog>(db.auditLogs.slice().reverse(), query, {
+    searchFields: ['username', 'action', 'resource', 'resourceId'],
+    dateField: 'timestamp',
+    filters: {
+      userId: (log, value) => log.userId === value,
+      action: (log, value) => log.action === value,
+      resource: (log, value) => log.resource === value,
+    },
+  });
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function registerSystemRoutes(router: MockRouter): void {
+  router.get('/system/settings', () => ok(db.settings), { permission: Permission.VIEW_SETTINGS });
+
+  router.put(
+    '/system/settings',
+    ({ body, user }) => {
+      db.settings = {
+        ...db.settings,
+        ...body,
+        passwordPolicy: { ...db.settings.passwordPolicy, ...body.passwordPolicy },
+      };
+      recordAudit(user, 'update', 'settings', undefined, body);
+      return ok(db.settings, 'Settings updated');
+    },
+    { permission: Permission.UPDATE_SETTINGS, body: systemSettingsBodySchema }
+  );
+
+  router.get('/system/status', () => ok(db.services), { permission: Permission.VIEW_SETTINGS });
+
+  router.get(
+    '/system/stats',
+    () => {
+      const today = db.orders.filter((order) => Date.parse(order.createdAt) > MOCK_NOW - DAY);
+      const volume = (orders: typeof db.orders) =>
+        orders.reduce((sum, order) => sum + order.filledQuantity * (order.averagePrice ?? 0), 0);
+
+      return ok({
+        totalUsers: db.users.length,
+        activeUsers: db.users.filter((user) => user.isActive).length,
+        totalOrders: db.orders.length,
+        todayOrders: today.length,
+        totalVolume: volume(db.orders),
+        todayVolume: volume(today),
+      });
+    },
+    { permission: Permission.VIEW_REPORTS }
+  );
+
+  router.get(
+    '/system/audit-logs',
+    ({ query }) => paginateQuery(queryAuditLogs(query), query),
+    { permission: Permission.VIEW_LOGS }
+  );
+
+  router.get(
+    '/system/audit-logs/export/stream',
+    ({ query, user }) => exportResult('audit-logs', queryAuditLogs(query), query, user),
+    { permission: Permission.EXPORT_DATA, rateLimit: EXPORT_RATE_LIMIT }
+  );
+
+  router.post(
+    '/system/audit-logs/cleanup',
+    ({ body, user }) => {
+      const days = Number(body.olderThanDays);
+      if (!(days > 0)) {
+        return fail(422, 'VALIDATION_FAILED', 'Invalid cleanup request', { olderThanDays: 'Must be positive' });
+      }
+
+      const cutoff = new Date(Date.now() - days * DAY).toISOString();
+      const before = db.auditLogs.length;
+      db.auditLogs = db.auditLogs.filter((log) => log.timestamp >= cutoff);
+
+      const deletedCount = before - db.auditLogs.length;
+      recordAudit(user, 'cleanup', 'audit_log', undefined, { olderThanDays: days, deletedCount });
+      return ok({ deletedCount }, 'Audit logs cleaned up');
+    },
+    { permission: Permission.MANAGE_SYSTEM, body: cleanupAuditLogsBodySchema }
+  );
+
+  router.get('/system/maintenance', () => ok(db.maintenance), { permission: Permission.VIEW_SETTINGS });
+
+  router.post(
+    '/system/maintenance',
+    ({ body, user }) => {
+      db.maintenance = {
+        enabled: Boolean(body.enabled),
+        message: body.message,
+        startTime: body.startTime,
+        endTime: body.endTime,
+      };
+      db.settings.maintenanceMode = db.maintenance.enabled;
+      recordAudit(user, db.maintenance.enabled ? 'enable' : 'disable', 'maintenance', undefined, body);
+      return ok(null, 'Maintenance mode updated');
+    },
+    { permission: Permission.MANAGE_SYSTEM, body: maintenanceBodySchema }
+  );
+
+  router.post(
+    '/system/backup',
+    ({ user }) => {
+      const backupId = nextId('bkp');
+      const downloadUrl = `/downloads/backups/${backupId}.tar.gz`;
+      db.backups.unshift({
+        id: backupId,
+        createdAt: new Date().toISOString(),
+        size: 1024 * 1024 * 64,
+        downloadUrl,
+      });
+
+      recordAudit(user, 'create', 'backup', backupId);
+      return ok({ backupId, downloadUrl }, 'Backup created', 201);
+    },
+    { permission: Permission.BACKUP_SYSTEM }
+  );
+
+  router.get('/system/backups', () => ok(db.backups), { permission: Permission.BACKUP_SYSTEM });
+
+  router.post(
+    '/system/backups/:id/restore',
+    ({ params, user }) => {
+      if (!db.backups.some((backup) => backup.id === params.id)) return notFound('Backup');
+
+      recordAudit(user, 'restore', 'backup', params.id);
+      return ok(null, 'Backup restore started');
+    },
+    { permission: Permission.BACKUP_SYSTEM }
+  );
+
+  router.post(
+    '/system/cache/clear',
+    ({ user }) => {
+      recordAudit(user, 'clear', 'cache');
+      return ok(null, 'Cache cleared');
+    },
+    { permission: Permission.MANAGE_SYSTEM }
+  );
+
+  router.post(
+    '/system/services/:name/restart',
+    ({ params, user }) => {
+      const service = db.services.find((item) => item.service === params.name);
+      if (!service) return notFound('Service');
+
+      service.status = 'online';
+      service.lastCheck = new Date().toISOString();
+      recordAudit(user, 'restart', 'service', params.name);
+      return ok(null, `${params.name} restarted`);
+    },
+    { permission: Permission.MANAGE_SYSTEM }
+  );
+}
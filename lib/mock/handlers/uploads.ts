@@ -0,0 +1,127 @@
+/**
+ * Mock chunked upload sessions (ApiClient.upload) and a helper for upload
+ * endpoints that accept either multipart files or finished upload sessions
+ */
+
+import type { UploadSession } from '@/lib/api/types';
+import { db, nextId, MockUpload, MockUserRecord } from '../db';
+import { MockRouter, MockResult, ok, fail, notFound } from '../router';
+import { UploadedFilesBody, uploadSessionBodySchema } from '../schemas';
+
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+export interface UploadedFile {
+  name: string;
+  type: string;
+  size: number;
+  content: Blob;
+}
+
+function toSession(upload: MockUpload): UploadSession {
+  return {
+    uploadId: upload.id,
+    chunkSize: upload.chunkSize,
+    receivedChunks: Array.from(upload.chunks.keys()).sort((a, b) => a - b),
+  };
+}
+
+function chunkCount(upload: MockUpload): number {
+  return Math.max(1, Math.ceil(upload.size / upload.chunkSize));
+}
+
+// Raw bodies arrive as a Blob in Direct mode and as an ArrayBuffer through the BFF
+function toBlob(body: unknown): Blob | null {
+  if (body instanceof Blob) return body;
+  if (body instanceof ArrayBuffer) return new Blob([body]);
+  if (typeof body === 'string') return new Blob([body]);
+  return null;
+}
+
+function findUpload(id: string, user: MockUserRecord | null): MockUpload | undefined {
+  const upload = db.uploads.get(id);
+  return upload && upload.userId === user?.id ? upload : undefined;
+}
+
+/**
+ * Files sent to an upload endpoint: multipart "file" fields, or the
+ * assembled content of the finished sessions listed in body.uploadIds.
+ * Returns an error result when a session is unknown or incomplete.
+ */
+export function readUploadedFiles(body: UploadedFilesBody, user: MockUserRecord | null): UploadedFile[] | MockResult {
+  if (body.uploadIds) {
+    const files: UploadedFile[] = [];
+
+    for (const id of body.uploadIds) {
+      const upload = findUpload(id, user);
+      if (!upload) return notFound('Upload');
+      if (upload.chunks.size < chunkCount(upload)) {
+        return fail(409, 'UPLOAD_INCOMPLETE', `Upload ${id} is missing chunks`, toSession(upload));
+      }
+
+      const parts = Array.from(upload.chunks.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, chunk]) => chunk);
+      files.push({ name: upload.fileName, type: upload.mimeType, size: upload.size, content: new Blob(parts) });
+      db.uploads.delete(id);
+    }
+    return files;
+  }
+
+  const fields: unknown[] = body.file === undefined ? [] : Array.isArray(body.file) ? body.file : [body.file];
+  return fields
+    .filter((field): field is File => typeof File !== 'undefined' && field instanceof File)
+    .map((file) => ({ name: file.name, type: file.type, size: file.size, content: file }));
+}
+
+export function registerUploadRoutes(router: MockRouter): void {
+  router.post(
+    '/uploads',
+    ({ body, user }) => {
+      const size = Number(body.size);
+      const chunkSize = Number(body.chunkSize);
+      if (!body.fileName || !(size >= 0) || !(chunkSize > 0) || chunkSize > MAX_CHUNK_SIZE) {
+        return fail(422, 'VALIDATION_FAILED', 'Invalid upload session', {
+          fileName: !body.fileName ? 'File name is required' : undefined,
+          chunkSize: `Chunk size must be between 1 and ${MAX_CHUNK_SIZE} bytes`,
+        });
+      }
+
+      const upload: MockUpload = {
+        id: nextId('upl'),
+        userId: user!.id,
+        fileName: body.fileName,
+        mimeType: body.mimeType || 'application/octet-stream',
+        size,
+        chunkSize,
+        chunks: new Map(),
+      };
+      db.uploads.set(upload.id, upload);
+      return ok(toSession(upload), 'Upload session created', 201);
+    },
+    { body: uploadSessionBodySchema }
+  );
+
+  router.get('/uploads/:id', ({ params, user }) => {
+    const upload = findUpload(params.id, user);
+    return upload ? ok(toSession(upload)) : notFound('Upload');
+  });
+
+  router.put('/uploads/:id/chunks/:index', ({ params, body, user }) => {
+    const upload = findUpload(params.id, user);
+    if (!upload) return notFound('Upload');
+
+    const index = Number(params.index);
+    const chunk = toBlob(body);
+    if (!Number.isInteger(index) || index < 0 || index >= chunkCount(upload)) {
+      return fail(422, 'INVALID_CHUNK', `Chunk index must be between 0 and ${chunkCount(upload) - 1}`);
+    }
+
+    const expected = Math.min(upload.chunkSize, upload.size - index * upload.chunkSize);
+    if (!chunk || chunk.size !== expected) {
+      return fail(422, 'INVALID_CHUNK', `Chunk ${index} must be ${expected} bytes`);
+    }
+
+    upload.chunks.set(index, chunk);
+    return ok(null, 'Chunk received');
+  });
+}
@@ -0,0 +1,349 @@
+/**
+ * Mock user management endpoints (UserService)
+ */
+
+import { Permission, UserRole, hasPermission } from '@/lib/rbac';
+import {
+  db,
+  toUser,
+  toUserSession,
+  findUser,
+  recordAudit,
+  nextId,
+  activeSessions,
+  revokeSession,
+  MockUserRecord,
+  MOCK_NOW,
+} from '../db';
+import { MockRouter, ok, fail, notFound, applyQuery, paginate } from '../router';
+import { queryOrders } from './orders';
+import { readUploadedFiles } from './uploads';
+import { exportResult, EXPORT_RATE_LIMIT } from '../export';
+import {
+  batchDeleteUsersBodySchema,
+  createUserBodySchema,
+  kycDocumentsBodySchema,
+  resetUserPasswordBodySchema,
+  updateUserBodySchema,
+  uploadedFilesBodySchema,
+  userStatusBodySchema,
+} from '../schemas';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function splitName(name: string): { firstName: string; lastName: string } {
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName: firstName || name, lastName: rest.join(' ') };
+}
+
+function isValidRole(role: string): role is UserRole {
+  return (Object.values(UserRole) as string[]).includes(role);
+}
+
+const KYC_DOCUMENT_TYPES = ['id_card', 'passport', 'driver_license', 'proof_of_address', 'selfie'];
+
+// Minimal CSV: comma separated, optionally double-quoted cells without embedded commas
+function parseCsv(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')));
+}
+
+/**
+ * Filter and sort users from UserFilters & QueryParams
+ */
+function queryUsers(query: URLSearchParams): MockUserRecord[] {
+  return applyQuery<MockUserRecord>(db.users, query, {
+    searchFields: ['email', 'username', 'firstName', 'lastName'],
+    dateField: 'createdAt',
+    filters: {
+      role: (user, role) => user.roles.includes(role as UserRole),
+      isActive: (user, value) => String(user.isActive) === value,
+      status: (user, value) => (user.isActive ? 'active' : 'inactive') === value.toLowerCase(),
+    },
+    ranges: {
+      lastLoginAt: (user) => (user.lastLoginAt ? Date.parse(user.lastLoginAt) : undefined),
+    },
+  });
+}
+
+export function registerUserRoutes(router: MockRouter): void {
+  router.get(
+    '/users',
+    ({ query }) => {
+      const page = paginate(queryUsers(query), query);
+      return ok({ ...page, items: page.items.map(toUser) });
+    },
+    { permission: Permission.VIEW_USERS }
+  );
+
+  router.get(
+    '/users/export/stream',
+    ({ query, user }) => exportResult('users', queryUsers(query).map(toUser), query, user),
+    { permission: Permission.EXPORT_DATA, rateLimit: EXPORT_RATE_LIMIT }
+  );
+
+  router.get(
+    '/users/stats',
+    () => {
+      const active = db.users.filter((user) => user.isActive).length;
+      return ok({
+        total: db.users.length,
+        active,
+        inactive: db.users.length - active,
+        newThisMonth: db.users.filter((user) => Date.parse(user.createdAt) > MOCK_NOW - 30 * DAY).length,
+      });
+    },
+    { permission: Permission.VIEW_USERS }
+  );
+
+  // Sessions of other admins; the caller's own session is marked current
+  router.get(
+    '/users/:id/sessions',
+    ({ params, session }) => {
+      if (!findUser(params.id)) return notFound('User');
+      return ok(activeSessions(params.id).map((item) => toUserSession(item, session?.id)));
+    },
+    { permission: Permission.MANAGE_USER_ROLES }
+  );
+
+  router.delete(
+    '/users/:id/sessions/:sessionId',
+    ({ params, user, session }) => {
+      const target = activeSessions(params.id).find((item) => item.id === params.sessionId);
+      if (!target) return notFound('Session');
+      if (target.id === session?.id) {
+        return fail(400, 'CANNOT_REVOKE_CURRENT_SESSION', 'Sign out to end the current session');
+      }
+
+      revokeSession(target);
+      recordAudit(user, 'revoke_session', 'user', params.id, { sessionId: target.id });
+      return ok(null, 'Session revoked');
+    },
+    { permission: Permission.MANAGE_USER_ROLES }
+  );
+
+  // Signs the user out everywhere; the caller's own session is kept
+  router.delete(
+    '/users/:id/sessions',
+    ({ params, user, session }) => {
+      if (!findUser(params.id)) return notFound('User');
+
+      const targets = activeSessions(params.id).filter((item) => item.id !== session?.id);
+      targets.forEach(revokeSession);
+      recordAudit(user, 'revoke_sessions', 'user', params.id, { revoked: targets.length });
+      return ok({ revoked: targets.length }, `${targets.length} sessions revoked`);
+    },
+    { permission: Permission.MANAGE_USER_ROLES }
+  );
+
+  router.post(
+    '/users/batch-delete',
+    ({ body, user }) => {
+      const ids = body.userIds ?? [];
+      db.users = db.users.filter((item) => !ids.includes(item.id) || item.id === user!.id);
+      recordAudit(user, 'batch_delete', 'user', undefined, { userIds: ids });
+      return ok(null, `${ids.length} users deleted`);
+    },
+    { permission: Permission.DELETE_USER, body: batchDeleteUsersBodySchema }
+  );
+
+  // CSV columns: email, name, role (optional), password (optional)
+  router.post(
+    '/users/import',
+    async ({ body, user }) => {
+      const files = readUploadedFiles(body, user);
+      if (!Array.isArray(files)) return files;
+      if (files.length !== 1) return fail(422, 'VALIDATION_FAILED', 'Upload exactly one CSV file');
+
+      const [header, ...rows] = parseCsv(await files[0].content.text());
+      const column = (name: string) => (header || []).map((cell) => cell.toLowerCase()).indexOf(name);
+      const [emailColumn, nameColumn, roleColumn, passwordColumn] = ['email', 'name', 'role', 'password'].map(column);
+      if (emailColumn === -1 || nameColumn === -1) {
+        return fail(422, 'VALIDATION_FAILED', 'CSV needs "email" and "name" columns');
+      }
+
+      const result = { created: 0, skipped: 0, errors: [] as Array<{ row: number; message: string }> };
+      rows.forEach((cells, index) => {
+        const row = index + 2; // 1-based, after the header
+        const email = (cells[emailColumn] || '').toLowerCase();
+        const name = cells[nameColumn] || '';
+        const role = roleColumn === -1 ? '' : cells[roleColumn] || '';
+
+        if (!email.includes('@') || !name) {
+          result.errors.push({ row, message: 'Email and name are required' });
+          return;
+        }
+        if (role && !isValidRole(role)) {
+          result.errors.push({ row, message: `Unknown role "${role}"` });
+          return;
+        }
+        if (db.users.some((item) => item.email === email)) {
+          result.skipped += 1;
+          return;
+        }
+
+        db.users.push({
+          id: nextId('usr'),
+          username: email.split('@')[0],
+          email,
+          ...splitName(name),
+          password: (passwordColumn !== -1 && cells[passwordColumn]) || 'password123',
+          roles: [role ? (role as UserRole) : (db.settings.defaultUserRole as UserRole)],
+          isActive: true,
+          kycLevel: 0,
+          createdAt: new Date().toISOString(),
+        });
+        result.created += 1;
+      });
+
+      recordAudit(user, 'import', 'user', undefined, { file: files[0].name, ...result, errors: result.errors.length });
+      return ok(result, `${result.created} users imported`);
+    },
+    { permission: Permission.CREATE_USER, body: uploadedFilesBodySchema }
+  );
+
+  router.get(
+    '/users/:id',
+    ({ params }) => {
+      const record = findUser(params.id);
+      return record ? ok(toUser(record)) : notFound('User');
+    },
+    { permission: Permission.VIEW_USERS }
+  );
+
+  router.get(
+    '/users/:id/orders',
+    ({ params, query }) => {
+      if (!findUser(params.id)) return notFound('User');
+      return ok(paginate(queryOrders(query).filter((order) => order.userId === params.id), query));
+    },
+    { permission: Permission.VIEW_ORDERS }
+  );
+
+  router.post(
+    '/users',
+    ({ body, user }) => {
+      const email = (body.email ?? '').toLowerCase();
+      if (!email || !body.name || !body.password) {
+        return fail(422, 'VALIDATION_FAILED', 'Invalid user data', {
+          email: !email ? 'Email is required' : undefined,
+          name: !body.name ? 'Name is required' : undefined,
+          password: !body.password ? 'Password is required' : undefined,
+        });
+      }
+      if (db.users.some((item) => item.email === email)) {
+        return fail(409, 'USER_EXISTS', 'A user with this email already exists', { email: 'Already taken' });
+      }
+
+      const roles = (body.roles ?? []).filter(isValidRole);
+      const record: MockUserRecord = {
+        id: nextId('usr'),
+        username: email.split('@')[0],
+        email,
+        ...splitName(body.name),
+        password: body.password,
+        roles: roles.length ? roles : [db.settings.defaultUserRole as UserRole],
+        isActive: true,
+        kycLevel: 0,
+        createdAt: new Date().toISOString(),
+      };
+      db.users.push(record);
+      recordAudit(user, 'create', 'user', record.id);
+      return ok(toUser(record), 'User created', 201);
+    },
+    { permission: Permission.CREATE_USER, body: createUserBodySchema }
+  );
+
+  router.put(
+    '/users/:id',
+    ({ params, body, user }) => {
+      const record = findUser(params.id);
+      if (!record) return notFound('User');
+
+      if (body.roles && !hasPermission(toUser(user!), Permission.MANAGE_USER_ROLES)) {
+        return fail(403, 'FORBIDDEN', 'Changing roles requires the manage_user_roles permission');
+      }
+
+      if (body.name) Object.assign(record, splitName(body.name));
+      if (body.email) record.email = body.email.toLowerCase();
+      if (body.roles) record.roles = body.roles.filter(isValidRole);
+      if (body.isActive !== undefined) record.isActive = body.isActive;
+
+      recordAudit(user, 'update', 'user', record.id, body);
+      return ok(toUser(record), 'User updated');
+    },
+    { permission: Permission.UPDATE_USER, body: updateUserBodySchema }
+  );
+
+  router.delete(
+    '/users/:id',
+    ({ params, user }) => {
+      if (!findUser(params.id)) return notFound('User');
+      if (params.id === user!.id) {
+        return fail(409, 'CANNOT_DELETE_SELF', 'You cannot delete your own account');
+      }
+
+      db.users = db.users.filter((item) => item.id !== params.id);
+      recordAudit(user, 'delete', 'user', params.id);
+      return ok(null, 'User deleted');
+    },
+    { permission: Permission.DELETE_USER }
+  );
+
+  router.post(
+    '/users/:id/kyc-documents',
+    ({ params, body, user }) => {
+      if (!findUser(params.id)) return notFound('User');
+      const { documentType } = body;
+      if (!documentType || !KYC_DOCUMENT_TYPES.includes(documentType)) {
+        return fail(422, 'VALIDATION_FAILED', 'Invalid document type', { documentType: KYC_DOCUMENT_TYPES });
+      }
+
+      const files = readUploadedFiles(body, user);
+      if (!Array.isArray(files)) return files;
+      if (files.length === 0) return fail(422, 'VALIDATION_FAILED', 'No files received');
+
+      const documents = files.map((file) => ({
+        id: nextId('kyc'),
+        userId: params.id,
+        documentType,
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        uploadedAt: new Date().toISOString(),
+      }));
+      db.kycDocuments.push(...documents);
+      recordAudit(user, 'upload_kyc', 'user', params.id, { documentType, count: documents.length });
+      return ok(documents, 'Documents uploaded', 201);
+    },
+    { permission: Permission.UPDATE_USER, body: kycDocumentsBodySchema }
+  );
+
+  router.post(
+    '/users/:id/reset-password',
+    ({ params, body, user }) => {
+      const record = findUser(params.id);
+      if (!record) return notFound('User');
+
+      record.password = body.newPassword ?? '';
+      recordAudit(user, 'reset_password', 'user', record.id);
+      return ok(null, 'Password reset');
+    },
+    { permission: Permission.UPDATE_USER, body: resetUserPasswordBodySchema }
+  );
+
+  router.patch(
+    '/users/:id/status',
+    ({ params, body, user }) => {
+      const record = findUser(params.id);
+      if (!record) return notFound('User');
+
+      record.isActive = Boolean(body.isActive);
+      recordAudit(user, record.isActive ? 'enable' : 'disable', 'user', record.id);
+      return ok(toUser(record), 'User status updated');
+    },
+    { permission: Permission.UPDATE_USER, body: userStatusBodySchema }
+  );
+}
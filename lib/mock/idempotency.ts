@@ -0,0 +1,43 @@
+/**
+ * Idempotency-Key handling for the mock backend
+ * The first request with a key runs and its outcome is stored; a repeat
+ * with the same payload is answered from the store (waiting for it if the
+ * first is still running), a repeat with a different payload is rejected
+ */
+
+import { IDEMPOTENT_REPLAYED_HEADER } from '@/lib/api/idempotency';
+import { db } from './db';
+import { MockResult, fail } from './router';
+
+// Oldest keys are forgotten first; a real backend would expire them after ~24h
+const MAX_KEYS = 500;
+
+export async function runIdempotent(
+  key: string,
+  fingerprint: string,
+  run: () => Promise<MockResult>
+): Promise<MockResult> {
+  const existing = db.idempotencyKeys.get(key);
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return fail(422, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used for a different request');
+    }
+
+    const result = await existing.result;
+    return { ...result, headers: { ...result.headers, [IDEMPOTENT_REPLAYED_HEADER]: 'true' } };
+  }
+
+  const pending = run();
+  db.idempotencyKeys.set(key, { fingerprint, result: pending });
+  if (db.idempotencyKeys.size > MAX_KEYS) {
+    db.idempotencyKeys.delete(db.idempotencyKeys.keys().next().value as string);
+  }
+
+  const result = await pending;
+  // Server errors were not applied, so a retry with the same key should run again
+  if (result.status >= 500) {
+    db.idempotencyKeys.delete(key);
+  }
+  return result;
+}
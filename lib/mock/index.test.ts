@@ -0,0 +1,35 @@
+import { mockFetch } from './index';
+
+const post = (path: string, body: unknown) =>
+  mockFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('mockFetch request bodies', () => {
+  it('hands the handler the body parsed with the route schema', async () => {
+    const response = await post('/v1/auth/login', { usernameOrEmail: 'admin', password: 'admin123' });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({ username: 'admin' });
+  });
+
+  it('answers 422 with the offending fields when the body does not match', async () => {
+    const response = await post('/v1/auth/login', { usernameOrEmail: 42, password: 'admin123' });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      code: 'VALIDATION_FAILED',
+      errors: { usernameOrEmail: expect.any(String) },
+    });
+  });
+
+  it('leaves required fields to the handler', async () => {
+    const response = await post('/v1/auth/login', {});
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe('INVALID_CREDENTIALS');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * In-process mock exchange backend
+ * Enabled with NEXT_PUBLIC_MOCK_API=true; requests that would go to the exchange
+ * are answered by mockFetch() instead (by ApiClient in Direct mode, by the
+ * BFF proxy in BFF mode)
+ */
+
+import { env } from '@/lib/env';
+import { hasPermission } from '@/lib/rbac';
+import { IDEMPOTENCY_KEY_HEADER, isMutatingMethod } from '@/lib/api/idempotency';
+import { REQUEST_ID_HEADER } from '@/lib/api/inspector';
+import { randomUUID } from '@/lib/utils';
+import type { TokenPayload } from '@/lib/auth';
+import { db, findUser, openSession, toUser, MockSession, MockUserRecord } from './db';
+import { verifyToken } from './jwt';
+import { runIdempotent } from './idempotency';
+import { checkRateLimit } from './rate-limit';
+import { MockRouter, MockRequest, MockResult, fail } from './router';
+import { registerAuthRoutes } from './handlers/auth';
+import { registerUserRoutes } from './handlers/users';
+import { registerOrderRoutes } from './handlers/orders';
+import { registerMarketRoutes } from './handlers/markets';
+import { registerSystemRoutes } from './handlers/system';
+import { registerUploadRoutes } from './handlers/uploads';
+
+export { db, createDatabase } from './db';
+
+export function createMockRouter(): MockRouter {
+  const router = new MockRouter();
+  registerAuthRoutes(router);
+  registerUserRoutes(router);
+  registerOrderRoutes(router);
+  registerMarketRoutes(router);
+  registerSystemRoutes(router);
+  registerUploadRoutes(router);
+  return router;
+}
+
+export const mockRouter = createMockRouter();
+
+const LATENCY = { min: 50, max: 250 };
+
+function getBasePath(): string {
+  return new URL(env.NEXT_PUBLIC_EXCHANGE_API_BASE_URL).pathname.replace(/\/$/, '');
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Simulated network latency that still honors the request's abort signal
+ */
+function delay(signal?: AbortSignal | null): Promise<void> {
+  const ms = LATENCY.min + Math.random() * (LATENCY.max - LATENCY.min);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) return undefined;
+
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    // Repeated fields (e.g. several "file" entries) become arrays
+    const fields: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+    body.forEach((value, key) => {
+      const existing = fields[key];
+      fields[key] = existing === undefined ? value : ([] as FormDataEntryValue[]).concat(existing, value);
+    });
+    return fields;
+  }
+
+  return body;
+}
+
+interface Caller {
+  user: MockUserRecord;
+  session: MockSession | null;
+}
+
+/**
+ * Resolve the caller of a Bearer token, or the 401 to answer with. A revoked
+ * session is rejected here, so revocation applies at the session's next request.
+ */
+async function authenticate(headers: Headers): Promise<Caller | MockResult> {
+  const authorization = headers.get('Authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+  const claims = token ? await verifyToken<TokenPayload & { sid?: string }>(token) : null;
+  const user = claims ? findUser(claims.sub) : undefined;
+  if (!claims || !user || !user.isActive) {
+    return fail(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  let session = claims.sid ? db.sessions.find((item) => item.id === claims.sid) ?? null : null;
+  if (session?.revokedAt) {
+    return fail(401, 'SESSION_REVOKED', 'This session has been signed out');
+  }
+  if (claims.sid && !session) {
+    session = openSession(user.id, headers, claims.sid, claims.iat * 1000);
+  }
+  if (session) {
+    session.lastSeenAt = new Date().toISOString();
+  }
+
+  return { user, session };
+}
+
+type DispatchRequest = Pick<MockRequest, 'query' | 'headers' | 'body'>;
+
+async function dispatch(method: string, path: string, request: DispatchRequest): Promise<MockResult> {
+  const matched = mockRouter.match(method, path);
+  if (!matched) {
+    return fail(404, 'NOT_FOUND', `No mock route for ${method} ${path}`);
+  }
+
+  const { route, params } = matched;
+  let user: MockUserRecord | null = null;
+  let session: MockSession | null = null;
+
+  if (!route.options.public) {
+    const caller = await authenticate(request.headers);
+    if ('status' in caller) {
+      return caller;
+    }
+    ({ user, session } = caller);
+    if (route.options.permission && !hasPermission(toUser(user), route.options.permission)) {
+      return fail(403, 'FORBIDDEN', `Missing permission: ${route.options.permission}`);
+    }
+  }
+
+  const quota = checkRateLimit(route, user?.id ?? 'anonymous');
+  if (quota.rejected) {
+    return quota.rejected;
+  }
+
+  let body = request.body;
+  if (route.options.body) {
+    // A route with a schema treats a missing body as an empty object
+    const parsed = route.options.body.safeParse(body ?? {});
+    if (!parsed.success) {
+      const fields = parsed.error.issues.reduce<Record<string, string>>((map, issue) => {
+        map[issue.path.join('.') || 'body'] = issue.message;
+        return map;
+      }, {});
+      return fail(422, 'VALIDATION_FAILED', 'Invalid request body', fields);
+    }
+    body = parsed.data;
+  }
+
+  const run = async (): Promise<MockResult> => {
+    try {
+      return await route.handler({ method, path, params, user, session, ...request, body });
+    } catch (error) {
+      console.error(`[mock] ${method} ${path} failed:`, error);
+      return fail(500, 'INTERNAL_ERROR', 'Mock handler failed');
+    }
+  };
+
+  // Keys are scoped to the caller, like the exchange does
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  const result =
+    idempotencyKey && isMutatingMethod(method)
+      ? await runIdempotent(
+          `${user?.id ?? 'anonymous'}:${idempotencyKey}`,
+          `${method} ${path} ${JSON.stringify(request.body ?? null)}`,
+          run
+        )
+      : await run();
+
+  return { ...result, headers: { ...quota.headers, ...result.headers } };
+}
+
+/**
+ * fetch()-compatible entry point: resolves the URL against the API base
+ * path and answers from the mock router
+ */
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(input, 'http://mock.local');
+  const basePath = getBasePath();
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) || '/' : url.pathname;
+  const method = (init.method || 'GET').toUpperCase();
+  const headers = new Headers(init.headers);
+
+  const body = parseBody(init.body);
+
+  await delay(init.signal);
+  const result = await dispatch(method, path, { query: url.searchParams, headers, body });
+
+  // Streaming handlers (exports) set their own content type
+  const isStream = typeof ReadableStream !== 'undefined' && result.body instanceof ReadableStream;
+  const responseBody =
+    result.body === undefined ? null : isStream ? (result.body as ReadableStream) : JSON.stringify(result.body);
+
+  return new Response(responseBody, {
+    status: result.status,
+    headers: {
+      'Content-Type': 'application/json',
+      // Echo the caller's correlation id like the exchange does
+      [REQUEST_ID_HEADER]: headers.get(REQUEST_ID_HEADER) || randomUUID(),
+      ...result.headers,
+    },
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * HS256 JSON Web Tokens for the mock backend
+ * Tokens are real JWTs, so decodeToken() and friends in lib/auth work unchanged
+ */
+
+import type { TokenPayload } from '@/lib/auth';
+import { base64UrlDecode, base64UrlEncode } from '@/lib/utils';
+
+// Fixed on purpose: tokens stay valid across page reloads of the mock
+const MOCK_JWT_SECRET = 'mini-exchange-admin-mock-secret';
+
+const encoder = new TextEncoder();
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    signingKey = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(MOCK_JWT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return signingKey;
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(encoder.encode(JSON.stringify(value)));
+}
+
+/**
+ * Sign a token that expires after ttlSeconds
+ */
+export async function signToken(
+  claims: Omit<TokenPayload, 'iat' | 'exp'> & Record<string, unknown>,
+  ttlSeconds: number
+): Promise<string> {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = { ...claims, iat, exp: iat + ttlSeconds };
+  const unsigned = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson(payload)}`;
+
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(unsigned));
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify signature and expiry; returns the payload or null
+ */
+export async function verifyToken<T extends TokenPayload = TokenPayload>(token: string): Promise<T | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const [header, payload, signature] = parts;
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as T;
+    if (claims.exp < Math.floor(Date.now() / 1000)) return null;
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Opaque random token, e.g. for refresh or password-reset tokens
+ */
+export function randomToken(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `${prefix}_${base64UrlEncode(bytes)}`;
+}
@@ -0,0 +1,46 @@
+/**
+ * Deterministic pseudo-random helpers for the mock backend
+ * The same seed always produces the same data set
+ */
+
+export type Random = () => number;
+
+/**
+ * mulberry32: small, fast and good enough for fixtures
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a stable seed from a string, e.g. a symbol name
+ */
+export function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function randomInt(random: Random, min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+export function randomFloat(random: Random, min: number, max: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round((random() * (max - min) + min) * factor) / factor;
+}
+
+export function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
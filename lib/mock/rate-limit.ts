@@ -0,0 +1,55 @@
+/**
+ * Rate limiting for the mock backend
+ * Fixed one-minute windows per caller and route, reported with the same
+ * X-RateLimit-* and Retry-After headers as the exchange
+ */
+
+import { RATE_LIMIT_HEADERS } from '@/lib/api/rate-limit';
+import { isMutatingMethod } from '@/lib/api/idempotency';
+import { db } from './db';
+import { MockResult, MockRoute, fail } from './router';
+
+const WINDOW = 60 * 1000;
+
+// Requests per caller per minute when the route sets no limit of its own
+const DEFAULT_LIMITS = { read: 300, write: 60 };
+
+/**
+ * Count the request against its window. Returns the quota headers for the
+ * response and, once the window is used up, the 429 to answer with instead.
+ */
+export function checkRateLimit(
+  route: MockRoute,
+  caller: string,
+  now: number = Date.now()
+): { headers: Record<string, string>; rejected?: MockResult } {
+  const limit = route.options.rateLimit ?? (isMutatingMethod(route.method) ? DEFAULT_LIMITS.write : DEFAULT_LIMITS.read);
+  const key = `${caller}:${route.method} ${route.pattern}`;
+
+  let window = db.rateLimits.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + WINDOW };
+    db.rateLimits.set(key, window);
+  }
+  window.count += 1;
+
+  const resetIn = Math.ceil((window.resetAt - now) / 1000);
+  const headers: Record<string, string> = {
+    [RATE_LIMIT_HEADERS.limit]: String(limit),
+    [RATE_LIMIT_HEADERS.remaining]: String(Math.max(0, limit - window.count)),
+    [RATE_LIMIT_HEADERS.reset]: String(resetIn),
+  };
+
+  if (window.count <= limit) {
+    return { headers };
+  }
+
+  const rejected = fail(429, 'RATE_LIMITED', `Rate limit of ${limit} requests per minute exceeded`, {
+    limit,
+    retryAfter: resetIn,
+  });
+  return {
+    headers,
+    rejected: { ...rejected, headers: { ...headers, [RATE_LIMIT_HEADERS.retryAfter]: String(resetIn) } },
+  };
+}
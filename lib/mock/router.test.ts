@@ -0,0 +1,54 @@
+import type { CursorPage } from '@/lib/api/types';
+import { paginateByCursor } from './router';
+
+const rows = Array.from({ length: 5 }, (_, index) => ({ id: `row-${index + 1}` }));
+
+const query = (params: Record<string, string>) => new URLSearchParams(params);
+
+// Every page's row ids, following nextCursor until it runs out
+function walk(limit: number): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const params: Record<string, string> = cursor ? { limit: String(limit), cursor } : { limit: String(limit) };
+    const page: CursorPage<{ id: string }> | null = paginateByCursor(rows, query(params));
+    pages.push(page!.items.map((row) => row.id));
+    cursor = page!.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('paginateByCursor', () => {
+  it('returns the first page and a cursor while there are more rows', () => {
+    const page = paginateByCursor(rows, query({ limit: '2' }));
+
+    expect(page?.items.map((row) => row.id)).toEqual(['row-1', 'row-2']);
+    expect(page?.limit).toBe(2);
+    expect(page?.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('walks every row once, ending with a null cursor', () => {
+    expect(walk(2)).toEqual([['row-1', 'row-2'], ['row-3', 'row-4'], ['row-5']]);
+    expect(walk(5)).toEqual([rows.map((row) => row.id)]);
+  });
+
+  it('continues after the cursor row even when rows were added in front', () => {
+    const first = paginateByCursor(rows, query({ limit: '2' }));
+    const grown = [{ id: 'row-0' }, ...rows];
+
+    const next = paginateByCursor(grown, query({ limit: '2', cursor: first!.nextCursor! }));
+
+    expect(next?.items.map((row) => row.id)).toEqual(['row-3', 'row-4']);
+  });
+
+  it('clamps the limit between 1 and 100 and defaults to 20', () => {
+    expect(paginateByCursor(rows, query({ limit: '0' }))?.limit).toBe(20);
+    expect(paginateByCursor(rows, query({ limit: '-3' }))?.limit).toBe(1);
+    expect(paginateByCursor(rows, query({ limit: '500' }))?.limit).toBe(100);
+  });
+
+  it('rejects unreadable cursors and cursors whose row is gone', () => {
+    expect(paginateByCursor(rows, query({ cursor: 'not-base64-json' }))).toBeNull();
+    expect(paginateByCursor(rows, query({ cursor: btoa(JSON.stringify({ after: 'row-9' })) }))).toBeNull();
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Minimal router and response helpers for the mock backend
+ * Responses follow the real backend format: { success, message, data, timestamp }
+ */
+
+import { Permission } from '@/lib/rbac';
+import type { PaginatedData, CursorPage } from '@/lib/api/types';
+import type { Schema } from '@/lib/api/schemas';
+import type { MockSession, MockUserRecord } from './db';
+
+export interface MockRequest<B = unknown> {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  body: B; // parsed with the route's body schema, unknown without one
+  user: MockUserRecord | null; // authenticated caller, null for public routes
+  session: MockSession | null; // the caller's session, null for public routes
+}
+
+export interface MockResult {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler<B = unknown> = (request: MockRequest<B>) => MockResult | Promise<MockResult>;
+
+export interface RouteOptions<B = unknown> {
+  public?: boolean; // skip bearer token verification
+  permission?: Permission; // required permission for the caller
+  rateLimit?: number; // requests per caller per minute, overrides the default for the method
+  body?: Schema<B>; // parses the request body; a mismatch is answered with 422
+}
+
+export interface MockRoute {
+  method: string;
+  pattern: string;
+  handler: MockHandler;
+  options: RouteOptions;
+  matcher: RegExp;
+  keys: string[];
+}
+
+export class MockRouter {
+  private routes: MockRoute[] = [];
+
+  add<B>(method: string, pattern: string, handler: MockHandler<B>, options: RouteOptions<B> = {}): void {
+    const keys: string[] = [];
+    const source = pattern.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+
+    this.routes.push({
+      method,
+      pattern,
+      // The router hands the handler a body parsed with options.body
+      handler: handler as MockHandler,
+      options,
+      matcher: new RegExp(`^${source}$`),
+      keys,
+    });
+  }
+
+  get<B = unknown>(pattern: string, handler: MockHandler<B>, options?: RouteOptions<B>): void {
+    this.add('GET', pattern, handler, options);
+  }
+
+  post<B = unknown>(pattern: string, handler: MockHandler<B>, options?: RouteOptions<B>): void {
+    this.add('POST', pattern, handler, options);
+  }
+
+  put<B = unknown>(pattern: string, handler: MockHandler<B>, options?: RouteOptions<B>): void {
+    this.add('PUT', pattern, handler, options);
+  }
+
+  patch<B = unknown>(pattern: string, handler: MockHandler<B>, options?: RouteOptions<B>): void {
+    this.add('PATCH', pattern, handler, options);
+  }
+
+  delete<B = unknown>(pattern: string, handler: MockHandler<B>, options?: RouteOptions<B>): void {
+    this.add('DELETE', pattern, handler, options);
+  }
+
+  /**
+   * Find the first route registered for method + path; static segments
+   * must therefore be registered before parameterized ones
+   */
+  match(method: string, path: string): { route: MockRoute; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+
+      const match = route.matcher.exec(path);
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+      return { route, params };
+    }
+
+    return null;
+  }
+
+  /**
+   * All registered routes, e.g. for contract checks
+   */
+  list(): Array<{ method: string; pattern: string }> {
+    return this.routes.map(({ method, pattern }) => ({ method, pattern }));
+  }
+}
+
+// ===== Response helpers =====
+
+export function ok<T>(data: T, message: string = 'OK', status: number = 200): MockResult {
+  return {
+    status,
+    body: { success: true, message, data, timestamp: new Date().toISOString() },
+  };
+}
+
+export function fail(status: number, code: string, message: string, errors?: unknown): MockResult {
+  return {
+    status,
+    body: { success: false, code, message, errors, timestamp: new Date().toISOString() },
+  };
+}
+
+export function notFound(resource: string): MockResult {
+  return fail(404, 'NOT_FOUND', `${resource} not found`);
+}
+
+// ===== Query helpers =====
+
+export interface CollectionQuery<T> {
+  searchFields?: Array<keyof T>;
+  dateField?: keyof T;
+  filters?: Record<string, (item: T, value: string) => boolean>;
+  // Read as key[min] / key[max]; dates are compared as timestamps
+  ranges?: Record<string, (item: T) => number | undefined>;
+}
+
+/**
+ * Every value of a filter, sent as repeated keys or comma-separated
+ */
+function queryValues(query: URLSearchParams, key: string): string[] {
+  return query
+    .getAll(key)
+    .reduce<string[]>((values, value) => values.concat(value.split(',')), [])
+    .filter((value) => value !== '');
+}
+
+function parseBound(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const bound = isNaN(Number(value)) ? Date.parse(value) : Number(value);
+  return isNaN(bound) ? undefined : bound;
+}
+
+/**
+ * Apply search, filters, ranges, date range and sorting from QueryParams
+ */
+export function applyQuery<T>(items: T[], query: URLSearchParams, config: CollectionQuery<T> = {}): T[] {
+  let result = items.slice();
+
+  const search = query.get('search')?.toLowerCase();
+  if (search && config.searchFields) {
+    result = result.filter((item) =>
+      config.searchFields!.some((field) => String(item[field] ?? '').toLowerCase().includes(search))
+    );
+  }
+
+  Object.entries(config.filters || {}).forEach(([key, predicate]) => {
+    const values = queryValues(query, key);
+    if (values.length > 0) {
+      result = result.filter((item) => values.some((value) => predicate(item, value)));
+    }
+  });
+
+  Object.entries(config.ranges || {}).forEach(([key, read]) => {
+    const min = parseBound(query.get(`${key}[min]`));
+    const max = parseBound(query.get(`${key}[max]`));
+    if (min === undefined && max === undefined) return;
+    result = result.filter((item) => {
+      const value = read(item);
+      return (
+        value !== undefined && (min === undefined || value >= min) && (max === undefined || value <= max)
+      );
+    });
+  });
+
+  if (config.dateField) {
+    const field = config.dateField;
+    const from = query.get('dateFrom');
+    const to = query.get('dateTo');
+    if (from) result = result.filter((item) => String(item[field]) >= new Date(from).toISOString());
+    if (to) result = result.filter((item) => String(item[field]) <= new Date(to).toISOString());
+  }
+
+  const sortBy = query.get('sortBy') as keyof T | null;
+  if (sortBy) {
+    const direction = query.get('sortOrder') === 'desc' ? -1 : 1;
+    result.sort((a, b) => {
+      const left = a[sortBy];
+      const right = b[sortBy];
+      if (left === right) return 0;
+      if (left === undefined || left === null) return 1;
+      if (right === undefined || right === null) return -1;
+      return left > right ? direction : -direction;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Slice a collection into the PaginatedData envelope (page is 1-based)
+ */
+export function paginate<T>(items: T[], query: URLSearchParams): PaginatedData<T> {
+  const limit = Math.min(Math.max(Number(query.get('limit')) || 10, 1), 100);
+  const totalPages = Math.max(1, Math.ceil(items.length / limit));
+  const page = Math.min(Math.max(Number(query.get('page')) || 1, 1), totalPages);
+
+  return {
+    items: items.slice((page - 1) * limit, page * limit),
+    total: items.length,
+    page,
+    limit,
+    totalPages,
+  };
+}
+
+/**
+ * Slice a collection into the CursorPage envelope. The cursor names the last
+ * row of the previous page, so rows inserted meanwhile don't shift the next
+ * page. Returns null when the cursor's row no longer exists.
+ */
+export function paginateByCursor<T extends { id: string }>(
+  items: T[],
+  query: URLSearchParams
+): CursorPage<T> | null {
+  const limit = Math.min(Math.max(Number(query.get('limit')) || 20, 1), 100);
+  const cursor = query.get('cursor');
+
+  let start = 0;
+  if (cursor) {
+    let after: string | undefined;
+    try {
+      after = JSON.parse(atob(cursor)).after;
+    } catch {
+      return null;
+    }
+
+    const index = items.findIndex((item) => item.id === after);
+    if (index === -1) return null;
+    start = index + 1;
+  }
+
+  const page = items.slice(start, start + limit);
+  const hasMore = start + limit < items.length;
+
+  return {
+    items: page,
+    nextCursor: hasMore ? btoa(JSON.stringify({ after: page[page.length - 1].id })) : null,
+    limit,
+  };
+}
+
+/**
+ * Offset or cursor pagination, as selected by ?pagination=cursor
+ */
+export function paginateQuery<T extends { id: string }>(items: T[], query: URLSearchParams): MockResult {
+  if (query.get('pagination') !== 'cursor') {
+    return ok(paginate(items, query));
+  }
+
+  const page = paginateByCursor(items, query);
+  return page ? ok(page) : fail(400, 'INVALID_CURSOR', 'Cursor is invalid or its row no longer exists');
+}
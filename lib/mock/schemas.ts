@@ -0,0 +1,219 @@
+/**
+ * Request body schemas for the mock backend
+ * A route names its schema in RouteOptions.body and the router parses the
+ * body with it before the handler runs. The schemas check types only: which
+ * fields are required, and the message for a missing one, stay with the
+ * handler so that the answers match the exchange's own validation.
+ */
+
+import { z } from 'zod';
+import type { Schema } from '@/lib/api/schemas';
+import type {
+  LoginRequest,
+  RefreshTokenRequest,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  MfaVerifyRequest,
+  MfaCodeRequest,
+  DisableMfaRequest,
+  PasskeyRegistrationRequest,
+  PasskeyLoginOptionsRequest,
+  PasskeyLoginRequest,
+  CreateUserRequest,
+  UpdateUserRequest,
+  CreateOrderRequest,
+  UpdateOrderRequest,
+  UpdateSystemSettingsRequest,
+  PasswordPolicy,
+  MaintenanceRequest,
+  CreateUploadSessionRequest,
+} from '@/lib/api/types';
+
+const passkeyTransport = z.enum(['usb', 'nfc', 'ble', 'hybrid', 'internal']);
+
+// ===== Auth =====
+
+export const loginBodySchema: Schema<Partial<LoginRequest>> = z.object({
+  usernameOrEmail: z.string().optional(),
+  password: z.string().optional(),
+  remember: z.boolean().optional(),
+});
+
+export const refreshBodySchema: Schema<Partial<RefreshTokenRequest>> = z.object({
+  refreshToken: z.string().optional(),
+});
+
+export const changePasswordBodySchema: Schema<Partial<ChangePasswordRequest>> = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().optional(),
+});
+
+export const forgotPasswordBodySchema: Schema<Partial<ForgotPasswordRequest>> = z.object({
+  email: z.string().optional(),
+});
+
+export const resetPasswordBodySchema: Schema<Partial<ResetPasswordRequest>> = z.object({
+  token: z.string().optional(),
+  password: z.string().optional(),
+});
+
+export const mfaVerifyBodySchema: Schema<Partial<MfaVerifyRequest>> = z.object({
+  mfaToken: z.string().optional(),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+  remember: z.boolean().optional(),
+});
+
+export const mfaCodeBodySchema: Schema<Partial<MfaCodeRequest>> = z.object({
+  code: z.string().optional(),
+});
+
+export const disableMfaBodySchema: Schema<Partial<DisableMfaRequest>> = z.object({
+  password: z.string().optional(),
+  code: z.string().optional(),
+});
+
+export const passkeyRegistrationBodySchema: Schema<Partial<PasskeyRegistrationRequest>> = z.object({
+  name: z.string().optional(),
+  credential: z
+    .object({
+      id: z.string(),
+      rawId: z.string(),
+      type: z.literal('public-key'),
+      response: z.object({
+        clientDataJSON: z.string(),
+        attestationObject: z.string(),
+        authenticatorData: z.string(),
+        publicKey: z.string(),
+        publicKeyAlgorithm: z.number(),
+        transports: z.array(passkeyTransport),
+      }),
+    })
+    .optional(),
+});
+
+export const passkeyLoginOptionsBodySchema: Schema<PasskeyLoginOptionsRequest> = z.object({
+  usernameOrEmail: z.string().optional(),
+});
+
+export const passkeyLoginBodySchema: Schema<Partial<PasskeyLoginRequest>> = z.object({
+  credential: z
+    .object({
+      id: z.string(),
+      rawId: z.string(),
+      type: z.literal('public-key'),
+      response: z.object({
+        clientDataJSON: z.string(),
+        authenticatorData: z.string(),
+        signature: z.string(),
+        userHandle: z.string().optional(),
+      }),
+    })
+    .optional(),
+  remember: z.boolean().optional(),
+});
+
+// ===== Users =====
+
+export const createUserBodySchema: Schema<Partial<CreateUserRequest>> = z.object({
+  email: z.string().optional(),
+  name: z.string().optional(),
+  password: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+});
+
+export const updateUserBodySchema: Schema<UpdateUserRequest> = z.object({
+  name: z.string().optional(),
+  email: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const resetUserPasswordBodySchema = z.object({
+  newPassword: z.string().optional(),
+});
+
+export const userStatusBodySchema = z.object({
+  isActive: z.boolean().optional(),
+});
+
+export const batchDeleteUsersBodySchema = z.object({
+  userIds: z.array(z.string()).optional(),
+});
+
+// ===== Orders =====
+
+export const createOrderBodySchema: Schema<Partial<CreateOrderRequest>> = z.object({
+  symbol: z.string().optional(),
+  side: z.enum(['buy', 'sell']).optional(),
+  type: z.enum(['market', 'limit', 'stop', 'stop_limit']).optional(),
+  quantity: z.number().optional(),
+  price: z.number().optional(),
+  stopPrice: z.number().optional(),
+  timeInForce: z.enum(['GTC', 'IOC', 'FOK']).optional(),
+});
+
+export const updateOrderBodySchema: Schema<UpdateOrderRequest> = z.object({
+  quantity: z.number().optional(),
+  price: z.number().optional(),
+  stopPrice: z.number().optional(),
+});
+
+export const batchCancelOrdersBodySchema = z.object({
+  orderIds: z.array(z.string()).optional(),
+});
+
+// ===== System =====
+
+// Policy fields left out keep their current value
+export const systemSettingsBodySchema: Schema<
+  Omit<UpdateSystemSettingsRequest, 'passwordPolicy'> & { passwordPolicy?: Partial<PasswordPolicy> }
+> = z.object({
+  maintenanceMode: z.boolean().optional(),
+  allowRegistration: z.boolean().optional(),
+  defaultUserRole: z.string().optional(),
+  sessionTimeout: z.number().optional(),
+  maxLoginAttempts: z.number().optional(),
+  passwordPolicy: z
+    .object({
+      minLength: z.number().optional(),
+      requireUppercase: z.boolean().optional(),
+      requireLowercase: z.boolean().optional(),
+      requireNumbers: z.boolean().optional(),
+      requireSpecialChars: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+export const cleanupAuditLogsBodySchema = z.object({
+  olderThanDays: z.number().optional(),
+});
+
+export const maintenanceBodySchema: Schema<Partial<MaintenanceRequest>> = z.object({
+  enabled: z.boolean().optional(),
+  message: z.string().optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+});
+
+// ===== Uploads =====
+
+export const uploadSessionBodySchema: Schema<Partial<CreateUploadSessionRequest>> = z.object({
+  fileName: z.string().optional(),
+  size: z.number().optional(),
+  mimeType: z.string().optional(),
+  chunkSize: z.number().optional(),
+});
+
+// Multipart "file" fields, or { uploadIds } of finished upload sessions
+export const uploadedFilesBodySchema = z.object({
+  uploadIds: z.array(z.string()).optional(),
+  file: z.unknown().optional(),
+});
+
+export type UploadedFilesBody = z.infer<typeof uploadedFilesBodySchema>;
+
+export const kycDocumentsBodySchema = uploadedFilesBodySchema.extend({
+  documentType: z.string().optional(),
+});
@@ -0,0 +1,105 @@
+/**
+ * RFC 6238 time-based one-time passwords for the mock backend
+ * Codes match what authenticator apps generate, so enrollment can be tried
+ * with a real app (SHA-1, 6 digits, 30 second steps)
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+// Steps accepted on either side of the current one, for clock drift
+const DRIFT_STEPS = 1;
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach((byte) => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(secret: string): Uint8Array<ArrayBuffer> {
+  const clean = secret.toUpperCase().replace(/[\s=]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 5) / 8));
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (let i = 0; i < clean.length; i++) {
+    const digit = BASE32_ALPHABET.indexOf(clean[i]);
+    if (digit === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | digit;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 255;
+      bits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * New random secret, base32 encoded (160 bits, as RFC 4226 recommends)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * otpauth:// URL understood by authenticator apps, usually shown as a QR code
+ */
+export function totpUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+}
+
+export function currentStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * The code for one time step
+ */
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, [
+    'sign',
+  ]);
+
+  // 8-byte big-endian counter; steps fit in the low 32 bits for centuries
+  const counter = new Uint8Array(8);
+  new DataView(counter.buffer).setUint32(4, step);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  const code = String(binary % Math.pow(10, DIGITS));
+  return '000000'.slice(code.length) + code;
+}
+
+/**
+ * Check a code against the steps around now. Returns the matching step, so
+ * the caller can refuse a code that was already used, or null.
+ */
+export async function verifyTotp(secret: string, code: string, after: number = -1): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (step > after && (await totpCode(secret, step)) === normalized) {
+      return step;
+    }
+  }
+  return null;
+}
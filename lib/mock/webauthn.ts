@@ -0,0 +1,186 @@
+/**
+ * WebAuthn relying-party checks for the mock backend
+ * Verifies registration and sign-in responses the way the exchange would:
+ * challenge, RP id hash, user presence and verification flags, the assertion
+ * signature and the signature counter. Attestation is "none" and not checked.
+ */
+
+import type { PasskeyAuthenticationCredential, PasskeyRegistrationCredential } from '@/lib/api/types';
+import { base64UrlDecode, base64UrlEncode } from '@/lib/utils';
+
+// COSE algorithm identifiers
+export const COSE_ES256 = -7;
+export const COSE_RS256 = -257;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+
+export interface ClientData {
+  type: 'webauthn.create' | 'webauthn.get';
+  challenge: string;
+  origin: string;
+}
+
+export interface VerifiedPasskey {
+  publicKey: string; // SubjectPublicKeyInfo, base64url
+  algorithm: number;
+  signCount: number;
+}
+
+export async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+/**
+ * Random challenge, base64url encoded
+ */
+export function createChallenge(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * WebAuthn carries ECDSA signatures as DER; WebCrypto wants raw r|s
+ */
+export function derToRaw(der: Uint8Array, size: number = 32): Uint8Array<ArrayBuffer> {
+  // SEQUENCE { INTEGER r, INTEGER s }
+  let offset = 2;
+  const readInteger = (): Uint8Array => {
+    if (der[offset] !== 0x02) throw new Error('Malformed signature');
+    const length = der[offset + 1];
+    let value = der.subarray(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    // Drop the sign byte, left-pad short values
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    const padded = new Uint8Array(size);
+    padded.set(value, size - value.length);
+    return padded;
+  };
+  return concatBytes(readInteger(), readInteger());
+}
+
+export function rawToDer(raw: Uint8Array): Uint8Array<ArrayBuffer> {
+  const integer = (bytes: Uint8Array): Uint8Array => {
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) start++;
+    const value = bytes.subarray(start);
+    const body = value[0] & 0x80 ? concatBytes(new Uint8Array([0]), value) : value;
+    return concatBytes(new Uint8Array([0x02, body.length]), body);
+  };
+  const half = raw.length / 2;
+  const content = concatBytes(integer(raw.subarray(0, half)), integer(raw.subarray(half)));
+  return concatBytes(new Uint8Array([0x30, content.length]), content);
+}
+
+export function parseClientData(encoded: string): ClientData {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded))) as ClientData;
+  } catch {
+    throw new Error('clientDataJSON is not valid JSON');
+  }
+}
+
+/**
+ * Check the parts shared by registration and sign-in; returns the signature counter
+ */
+async function checkResponse(
+  clientData: ClientData,
+  type: ClientData['type'],
+  challenge: string,
+  authenticatorData: Uint8Array
+): Promise<number> {
+  if (clientData.type !== type) throw new Error(`Expected a ${type} response`);
+  if (clientData.challenge !== challenge) throw new Error('Challenge does not match');
+
+  let rpId: string;
+  try {
+    rpId = new URL(clientData.origin).hostname;
+  } catch {
+    throw new Error('Origin is invalid');
+  }
+
+  if (authenticatorData.length < 37) throw new Error('Authenticator data is too short');
+  const expectedHash = await sha256(new TextEncoder().encode(rpId));
+  if (expectedHash.some((byte, i) => byte !== authenticatorData[i])) {
+    throw new Error('Passkey belongs to another site');
+  }
+
+  const flags = authenticatorData[32];
+  if (!(flags & FLAG_USER_PRESENT) || !(flags & FLAG_USER_VERIFIED)) {
+    throw new Error('The authenticator did not verify the user');
+  }
+
+  return new DataView(authenticatorData.buffer, authenticatorData.byteOffset).getUint32(33);
+}
+
+function importPublicKey(publicKey: string, algorithm: number): Promise<CryptoKey> {
+  const spki = base64UrlDecode(publicKey);
+  if (algorithm === COSE_ES256) {
+    return crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+  }
+  if (algorithm === COSE_RS256) {
+    return crypto.subtle.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  }
+  throw new Error(`Unsupported algorithm ${algorithm}`);
+}
+
+/**
+ * Check a new credential against the registration challenge
+ */
+export async function verifyRegistration(
+  credential: PasskeyRegistrationCredential,
+  challenge: string
+): Promise<VerifiedPasskey> {
+  const { response } = credential;
+  const signCount = await checkResponse(
+    parseClientData(response.clientDataJSON),
+    'webauthn.create',
+    challenge,
+    base64UrlDecode(response.authenticatorData)
+  );
+
+  // Fails for malformed keys and algorithms we cannot verify later
+  await importPublicKey(response.publicKey, response.publicKeyAlgorithm);
+
+  return { publicKey: response.publicKey, algorithm: response.publicKeyAlgorithm, signCount };
+}
+
+/**
+ * Check a sign-in assertion against the challenge and the stored key;
+ * returns the new signature counter
+ */
+export async function verifyAssertion(
+  credential: PasskeyAuthenticationCredential,
+  challenge: string,
+  stored: VerifiedPasskey
+): Promise<number> {
+  const { response } = credential;
+  const clientDataJSON = base64UrlDecode(response.clientDataJSON);
+  const authenticatorData = base64UrlDecode(response.authenticatorData);
+  const signCount = await checkResponse(parseClientData(response.clientDataJSON), 'webauthn.get', challenge, authenticatorData);
+
+  const key = await importPublicKey(stored.publicKey, stored.algorithm);
+  const signed = concatBytes(authenticatorData, await sha256(clientDataJSON));
+  const signature = base64UrlDecode(response.signature);
+  const valid =
+    stored.algorithm === COSE_ES256
+      ? await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRaw(signature), signed)
+      : await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signed);
+  if (!valid) throw new Error('Signature is invalid');
+
+  // A counter that does not grow points to a cloned authenticator
+  if ((signCount !== 0 || stored.signCount !== 0) && signCount <= stored.signCount) {
+    throw new Error('Signature counter went backwards');
+  }
+
+  return signCount;
+}
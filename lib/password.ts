@@ -0,0 +1,62 @@
+/**
+ * Password policy checks
+ * The rules of SystemSettings.passwordPolicy and a rough strength score;
+ * the reset form checks as you type, the backend enforces the same rules
+ */
+
+import type { PasswordPolicy } from './api/types';
+
+export type PasswordRule = 'minLength' | 'uppercase' | 'lowercase' | 'numbers' | 'specialChars';
+
+export interface PasswordRuleCheck {
+  rule: PasswordRule;
+  met: boolean;
+}
+
+// 0 (very weak) to 4 (strong)
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+const CHARACTER_CLASSES: Record<Exclude<PasswordRule, 'minLength'>, RegExp> = {
+  uppercase: /[A-Z]/,
+  lowercase: /[a-z]/,
+  numbers: /[0-9]/,
+  specialChars: /[^A-Za-z0-9]/,
+};
+
+/**
+ * Every rule the policy asks for, in display order, and whether the password meets it
+ */
+export function checkPassword(password: string, policy: PasswordPolicy): PasswordRuleCheck[] {
+  const required: Record<Exclude<PasswordRule, 'minLength'>, boolean> = {
+    uppercase: policy.requireUppercase,
+    lowercase: policy.requireLowercase,
+    numbers: policy.requireNumbers,
+    specialChars: policy.requireSpecialChars,
+  };
+
+  const checks: PasswordRuleCheck[] = [{ rule: 'minLength', met: password.length >= policy.minLength }];
+  (Object.keys(required) as (keyof typeof required)[]).forEach((rule) => {
+    if (required[rule]) {
+      checks.push({ rule, met: CHARACTER_CLASSES[rule].test(password) });
+    }
+  });
+  return checks;
+}
+
+export function meetsPasswordPolicy(password: string, policy: PasswordPolicy): boolean {
+  return checkPassword(password, policy).every((check) => check.met);
+}
+
+/**
+ * Length and character variety, with repeated characters counting once;
+ * a guide for the meter, not a guarantee
+ */
+export function passwordStrength(password: string): PasswordStrength {
+  if (!password) return 0;
+
+  const distinct = new Set(password).size;
+  const variety = Object.values(CHARACTER_CLASSES).filter((pattern) => pattern.test(password)).length;
+  const lengthScore = distinct >= 16 ? 3 : distinct >= 12 ? 2 : distinct >= 8 ? 1 : 0;
+
+  return Math.min(4, Math.floor((lengthScore * 2 + variety) / 2)) as PasswordStrength;
+}
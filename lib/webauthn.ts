@@ -0,0 +1,149 @@
+/**
+ * WebAuthn in the browser
+ * Runs navigator.credentials.create()/get() with the JSON options sent by the
+ * exchange and returns the credential as JSON. With the mock backend a
+ * software authenticator (lib/mock/authenticator) stands in for the device.
+ */
+
+import { isMockApi } from './env';
+import { base64UrlDecode, base64UrlEncode } from './utils';
+import { ApiError } from './api/client';
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyCreationOptions,
+  PasskeyDescriptor,
+  PasskeyRegistrationCredential,
+  PasskeyRequestOptions,
+  PasskeyTransport,
+} from './api/types';
+
+/**
+ * Whether this browser can create and use passkeys
+ */
+export function isPasskeySupported(): boolean {
+  if (typeof window === 'undefined') return false;
+  return isMockApi || typeof window.PublicKeyCredential === 'function';
+}
+
+function toDescriptor(descriptor: PasskeyDescriptor): PublicKeyCredentialDescriptor {
+  return {
+    type: descriptor.type,
+    id: base64UrlDecode(descriptor.id),
+    transports: descriptor.transports,
+  };
+}
+
+/**
+ * Map what the WebAuthn API throws to catalog codes; a dismissed browser
+ * prompt and a timeout both surface as NotAllowedError
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : 'Passkey operation failed';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'AbortError':
+      return new ApiError(0, 'PASSKEY_CANCELLED', message);
+    case 'InvalidStateError':
+      return new ApiError(0, 'PASSKEY_EXISTS', message);
+    case 'NotSupportedError':
+    case 'SecurityError':
+      return new ApiError(0, 'PASSKEY_UNSUPPORTED', message);
+    default:
+      return new ApiError(0, 'PASSKEY_FAILED', message);
+  }
+}
+
+/**
+ * Create a passkey on the user's authenticator
+ */
+export async function createPasskeyCredential(options: PasskeyCreationOptions): Promise<PasskeyRegistrationCredential> {
+  if (!isPasskeySupported()) {
+    throw new ApiError(0, 'PASSKEY_UNSUPPORTED', 'This browser does not support passkeys');
+  }
+
+  try {
+    if (isMockApi) {
+      const { softwareAuthenticator } = await import('@/lib/mock/authenticator');
+      return await softwareAuthenticator.create(options, window.location.origin);
+    }
+
+    const credential = (await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: base64UrlDecode(options.challenge),
+        user: { ...options.user, id: base64UrlDecode(options.user.id) },
+        excludeCredentials: options.excludeCredentials?.map(toDescriptor),
+      },
+    })) as PublicKeyCredential | null;
+    if (!credential) {
+      throw new ApiError(0, 'PASSKEY_CANCELLED', 'No passkey was created');
+    }
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    const publicKey = response.getPublicKey();
+    if (!publicKey) {
+      throw new ApiError(0, 'PASSKEY_UNSUPPORTED', 'The authenticator uses an unsupported key type');
+    }
+
+    return {
+      id: credential.id,
+      rawId: base64UrlEncode(credential.rawId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64UrlEncode(response.clientDataJSON),
+        attestationObject: base64UrlEncode(response.attestationObject),
+        authenticatorData: base64UrlEncode(response.getAuthenticatorData()),
+        publicKey: base64UrlEncode(publicKey),
+        publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+        transports: response.getTransports() as PasskeyTransport[],
+      },
+    };
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Sign the server's challenge with one of the user's passkeys
+ */
+export async function getPasskeyCredential(options: PasskeyRequestOptions): Promise<PasskeyAuthenticationCredential> {
+  if (!isPasskeySupported()) {
+    throw new ApiError(0, 'PASSKEY_UNSUPPORTED', 'This browser does not support passkeys');
+  }
+
+  try {
+    if (isMockApi) {
+      const { softwareAuthenticator } = await import('@/lib/mock/authenticator');
+      return await softwareAuthenticator.get(options, window.location.origin);
+    }
+
+    const credential = (await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: base64UrlDecode(options.challenge),
+        allowCredentials: options.allowCredentials?.map(toDescriptor),
+      },
+    })) as PublicKeyCredential | null;
+    if (!credential) {
+      throw new ApiError(0, 'PASSKEY_CANCELLED', 'No passkey was selected');
+    }
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+      id: credential.id,
+      rawId: base64UrlEncode(credential.rawId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64UrlEncode(response.clientDataJSON),
+        authenticatorData: base64UrlEncode(response.authenticatorData),
+        signature: base64UrlEncode(response.signature),
+        userHandle: response.userHandle ? base64UrlEncode(response.userHandle) : undefined,
+      },
+    };
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
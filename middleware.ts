@@ -6,6 +6,8 @@
 import createMiddleware from 'next-intl/middleware';
 import { NextRequest, NextResponse } from 'next/server';
 import { locales, defaultLocale } from './i18n';
+import { BACKEND_COOKIE, getBackend, scopedName } from './lib/backends';
+import { clearServerAuthCookie } from './lib/auth-server';
 
 // Create the internationalization middleware
 const intlMiddleware = createMiddleware({
@@ -27,6 +29,8 @@ const PROTECTED_ROUTES = [
   '/audit',
   '/markets',
   '/risk',
+  '/security',
+  '/sessions',
 ];
 
 // Public routes that don't require authentication
@@ -65,7 +69,9 @@ function isAuthenticated(request: NextRequest): boolean {
   }
   
   // BFF mode: Check for tokens in cookies
-  const cookieToken = request.cookies.get('access_token')?.value;
+  // Session cookies are kept per backend; check the one selected in this browser
+  const backendId = getBackend(request.cookies.get(BACKEND_COOKIE)?.value).id;
+  const cookieToken = request.cookies.get(scopedName('access_token', backendId))?.value;
   const sessionToken = request.cookies.get('session_token')?.value;
   
   // Validate JWT token here (in production, verify signature and expiration)
@@ -78,6 +84,72 @@ function isAuthenticated(request: NextRequest): boolean {
   return false;
 }
 
+// A session check that takes longer than this lets the page load
+const SESSION_CHECK_TIMEOUT = 3000;
+
+// A session found valid is not asked about again for this long; API calls
+// in between still see SESSION_REVOKED and sign the user out
+const SESSION_CHECK_TTL = 30000;
+const SESSION_CHECK_CACHE_SIZE = 500;
+
+// Access token -> time until which it is known not to be revoked
+const validSessions = new Map<string, number>();
+
+/**
+ * Prefetches from <Link> and the router aren't page loads; checking them
+ * would multiply the calls for every link on screen
+ */
+function isPrefetch(request: NextRequest): boolean {
+  return (
+    request.headers.has('next-router-prefetch') ||
+    request.headers.get('purpose') === 'prefetch' ||
+    request.headers.has('x-middleware-prefetch')
+  );
+}
+
+function sessionCacheKey(request: NextRequest): string | null {
+  const backendId = getBackend(request.cookies.get(BACKEND_COOKIE)?.value).id;
+  return request.cookies.get(scopedName('access_token', backendId))?.value || null;
+}
+
+/**
+ * Ask the exchange, through the BFF proxy, whether the session was revoked
+ * from another device. Only an explicit SESSION_REVOKED counts: an expired
+ * access token is renewed by the client, and an unreachable exchange is
+ * reported by the page itself.
+ */
+async function isSessionRevoked(request: NextRequest): Promise<boolean> {
+  if (isPrefetch(request)) return false;
+
+  const key = sessionCacheKey(request);
+  if (key && (validSessions.get(key) ?? 0) > Date.now()) return false;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SESSION_CHECK_TIMEOUT);
+
+  try {
+    const response = await fetch(new URL('/api/v1/auth/verify', request.url), {
+      headers: { cookie: request.headers.get('cookie') || '' },
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+    if (response.status !== 401) {
+      if (key && response.ok) {
+        if (validSessions.size >= SESSION_CHECK_CACHE_SIZE) validSessions.clear();
+        validSessions.set(key, Date.now() + SESSION_CHECK_TTL);
+      }
+      return false;
+    }
+
+    const body = await response.json().catch(() => null);
+    return body?.error?.code === 'SESSION_REVOKED';
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 /**
  * Check if a pathname is a protected route
  */
@@ -129,7 +201,7 @@ function getLocaleFromPathname(pathname: string): string {
   return defaultLocale;
 }
 
-export default function middleware(request: NextRequest) {
+export default async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   
   // Skip middleware for API routes, static files, etc.
@@ -155,6 +227,15 @@ export default function middleware(request: NextRequest) {
     loginUrl.searchParams.set('redirect', pathname);
     return NextResponse.redirect(loginUrl);
   }
+
+  // Revocation takes effect at the next page load, not only at the next API call
+  if (isProtectedRoute(pathname) && (await isSessionRevoked(request))) {
+    const loginUrl = new URL(`/${locale}/login`, request.url);
+    loginUrl.searchParams.set('redirect', pathname);
+    const response = NextResponse.redirect(loginUrl);
+    clearServerAuthCookie(response, getBackend(request.cookies.get(BACKEND_COOKIE)?.value).id);
+    return response;
+  }
   
   if (isPublicRoute(pathname) && authenticated) {
     // Redirect to dashboard if accessing public route while authenticated
@@ -0,0 +1,781 @@
+#!/usr/bin/env node
+/**
+ * OpenAPI 3.1 document for the exchange API as the admin panel calls it
+ * Derived with the TypeScript compiler API from the service classes in
+ * lib/api/services, the types they use and the upload session calls in
+ * ApiClient, so it cannot drift from the code.
+ *
+ *   node scripts/openapi.mjs                      print the document
+ *   node scripts/openapi.mjs --out openapi.json   write it to a file
+ *   node scripts/openapi.mjs --check-mock         fail if the mock backend lacks an operation
+ *   node scripts/openapi.mjs --against spec.json  fail if an upstream spec disagrees
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SERVICES_DIR = path.join(ROOT, 'lib/api/services');
+const CLIENT_FILE = path.join(ROOT, 'lib/api/client.ts');
+const MOCK_HANDLERS_DIR = path.join(ROOT, 'lib/mock/handlers');
+
+const VERBS = ['get', 'post', 'put', 'patch', 'delete'];
+const MUTATING_VERBS = ['post', 'put', 'patch', 'delete'];
+
+// ===== Command line =====
+
+function parseArgs(argv) {
+  const args = { out: null, checkMock: false, against: null };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') args.out = argv[++i];
+    else if (arg === '--check-mock') args.checkMock = true;
+    else if (arg === '--against') args.against = argv[++i];
+    else if (arg === '--help' || arg === '-h') args.help = true;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return args;
+}
+
+// ===== Program =====
+
+function listTsFiles(dir) {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.ts'))
+    .map((file) => path.join(dir, file));
+}
+
+function createProgram(files) {
+  const config = ts.getParsedCommandLineOfConfigFile(path.join(ROOT, 'tsconfig.json'), {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+      throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    },
+  });
+  return ts.createProgram(files, { ...config.options, noEmit: true, incremental: false });
+}
+
+function isProjectDeclaration(symbol) {
+  const declaration = symbol?.declarations?.[0];
+  if (!declaration) return false;
+
+  const fileName = path.resolve(declaration.getSourceFile().fileName);
+  return fileName.startsWith(ROOT) && !fileName.includes(`${path.sep}node_modules${path.sep}`);
+}
+
+// Text of a `// ...` or `/** ... */` comment, without the markers
+function commentText(source, range) {
+  const raw = source.slice(range.pos, range.end);
+  return raw.startsWith('//')
+    ? raw.slice(2).trim()
+    : raw
+        .replace(/^\/\*\*?|\*\/$/g, '')
+        .split('\n')
+        .map((line) => line.replace(/^\s*\* ?/, '').trim())
+        .filter(Boolean)
+        .join(' ');
+}
+
+function leadingComment(node) {
+  const source = node.getSourceFile().getFullText();
+  const ranges = ts.getLeadingCommentRanges(source, node.getFullStart()) || [];
+  const last = ranges[ranges.length - 1];
+  return last ? commentText(source, last) : undefined;
+}
+
+// Trailing `// ...` on a property declaration, the style lib/api/types.ts uses
+function trailingComment(node) {
+  const source = node.getSourceFile().getFullText();
+  const [first] = ts.getTrailingCommentRanges(source, node.getEnd()) || [];
+  return first ? commentText(source, first) : undefined;
+}
+
+// ===== Types to JSON Schema =====
+
+class SchemaBuilder {
+  constructor(checker) {
+    this.checker = checker;
+    this.schemas = {};
+  }
+
+  /**
+   * Schema for a type; interfaces, aliases and enums declared in the
+   * project become components referenced with $ref
+   */
+  toSchema(type) {
+    const name = this.componentName(type);
+    if (!name) return this.inline(type);
+
+    if (!this.schemas[name]) {
+      this.schemas[name] = {}; // placeholder, for recursive types
+      this.schemas[name] = this.inline(type);
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  componentName(type) {
+    const { checker } = this;
+
+    if (type.aliasSymbol && isProjectDeclaration(type.aliasSymbol)) {
+      const args = (type.aliasTypeArguments || []).map((arg) => this.typeName(arg));
+      return [type.aliasSymbol.name, ...args].join('_');
+    }
+
+    const symbol = type.symbol;
+    if (symbol && symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.Enum) && isProjectDeclaration(symbol)) {
+      const args = type.objectFlags & ts.ObjectFlags.Reference ? checker.getTypeArguments(type) : [];
+      return [symbol.name, ...args.map((arg) => this.typeName(arg))].join('_');
+    }
+
+    return null;
+  }
+
+  typeName(type) {
+    return this.componentName(type) || this.checker.typeToString(type).replace(/[^A-Za-z0-9]+/g, '');
+  }
+
+  inline(type) {
+    const { checker } = this;
+    const flags = type.flags;
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+    if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+    if (flags & ts.TypeFlags.Union) return this.union(type);
+    if (flags & ts.TypeFlags.StringLiteral) return { type: 'string', const: type.value };
+    if (flags & ts.TypeFlags.NumberLiteral) return { type: 'number', const: type.value };
+    if (flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean', const: checker.typeToString(type) === 'true' };
+    if (flags & ts.TypeFlags.String) return { type: 'string' };
+    if (flags & ts.TypeFlags.Number) return { type: 'number' };
+    if (flags & ts.TypeFlags.Null) return { type: 'null' };
+    if (flags & (ts.TypeFlags.Void | ts.TypeFlags.Undefined)) return { type: 'null' };
+
+    const symbolName = type.symbol?.name;
+    if (symbolName === 'Date') return { type: 'string', format: 'date-time' };
+    if (symbolName === 'Blob' || symbolName === 'File') return { type: 'string', format: 'binary' };
+
+    // OrderFilters & QueryParams narrows status to string[] & OrderStatus[];
+    // the narrowest member describes what is accepted
+    if (flags & ts.TypeFlags.Intersection) {
+      const narrowest = type.types.find((member) =>
+        type.types.every((other) => checker.isTypeAssignableTo(member, other))
+      );
+      if (narrowest) return this.toSchema(narrowest);
+    }
+
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const items = checker.getTypeArguments(type);
+      return {
+        type: 'array',
+        items: items.length === 1 ? this.toSchema(items[0]) : { anyOf: items.map((item) => this.toSchema(item)) },
+      };
+    }
+
+    return this.object(type);
+  }
+
+  union(type) {
+    // Intersecting two unions leaves members like string & OrderStatus[] no JSON value can have
+    const impossible = (member) =>
+      member.flags & ts.TypeFlags.Intersection &&
+      member.types.some((part) => part.flags & ts.TypeFlags.Primitive) &&
+      member.types.some((part) => part.flags & ts.TypeFlags.Object);
+    const members = type.types.filter((member) => !(member.flags & ts.TypeFlags.Undefined) && !impossible(member));
+    const nullable = members.some((member) => member.flags & ts.TypeFlags.Null);
+    const values = members.filter((member) => !(member.flags & ts.TypeFlags.Null));
+    const withNull = (schema) => (nullable ? { anyOf: [schema, { type: 'null' }] } : schema);
+
+    if (values.length === 0) return { type: 'null' };
+    if (values.every((member) => member.flags & ts.TypeFlags.BooleanLiteral)) return withNull({ type: 'boolean' });
+    if (values.every((member) => member.flags & ts.TypeFlags.StringLiteral)) {
+      return withNull({ type: 'string', enum: values.map((member) => member.value) });
+    }
+    if (values.every((member) => member.flags & ts.TypeFlags.NumberLiteral)) {
+      return withNull({ type: 'number', enum: values.map((member) => member.value) });
+    }
+    if (values.length === 1) return withNull(this.toSchema(values[0]));
+
+    // boolean shows up as true | false inside larger unions
+    const booleans = values.filter((member) => member.flags & ts.TypeFlags.BooleanLiteral);
+    const others = values.filter((member) => !(member.flags & ts.TypeFlags.BooleanLiteral));
+    const literals = others.filter((member) => member.flags & ts.TypeFlags.StringLiteral);
+    const anyOf = others.filter((member) => !literals.includes(member)).map((member) => this.toSchema(member));
+    if (literals.length > 0) anyOf.unshift({ type: 'string', enum: literals.map((member) => member.value) });
+    if (booleans.length === 2) anyOf.push({ type: 'boolean' });
+    else booleans.forEach((member) => anyOf.push(this.toSchema(member)));
+    if (nullable) anyOf.push({ type: 'null' });
+    return { anyOf };
+  }
+
+  object(type) {
+    const { checker } = this;
+    const properties = {};
+    const required = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const propertyType = checker.getTypeOfSymbol(property);
+      if (checker.getSignaturesOfType(propertyType, ts.SignatureKind.Call).length > 0) continue;
+
+      const schema = this.toSchema(propertyType);
+      const declaration = property.declarations?.[0];
+      const description = declaration && (trailingComment(declaration) || leadingComment(declaration));
+      properties[property.name] = description ? { ...schema, description } : schema;
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+    }
+
+    const schema = { type: 'object', properties };
+    if (required.length > 0) schema.required = required;
+
+    const [index] = checker.getIndexInfosOfType(type);
+    if (index) schema.additionalProperties = this.toSchema(index.type);
+    return schema;
+  }
+}
+
+// ===== Operations =====
+
+/**
+ * "/users/{id}" from `/users/${id}`; path parameters keep the variable name
+ */
+function readEndpoint(node, checker) {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return { path: node.text, params: [] };
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    let result = node.head.text;
+    const params = [];
+    for (const span of node.templateSpans) {
+      const expression = span.expression;
+      const name = ts.isIdentifier(expression)
+        ? expression.text
+        : ts.isPropertyAccessExpression(expression)
+          ? expression.name.text
+          : `param${params.length + 1}`;
+      params.push({ name, type: checker.getTypeAtLocation(expression) });
+      result += `{${name}}${span.literal.text}`;
+    }
+    return { path: result, params };
+  }
+
+  // getSessionEndpoint('login'): the exchange's own endpoint, /v1/auth/login
+  if (ts.isCallExpression(node) && node.expression.getText() === 'getSessionEndpoint') {
+    const [action] = node.arguments;
+    if (action && ts.isStringLiteral(action)) return { path: `/v1/auth/${action.text}`, params: [] };
+  }
+
+  return null;
+}
+
+function isUndefinedArgument(node) {
+  return !node || (ts.isIdentifier(node) && node.text === 'undefined');
+}
+
+function hasSkipAuth(node) {
+  return Boolean(
+    node &&
+      ts.isObjectLiteralExpression(node) &&
+      node.properties.some(
+        (property) =>
+          ts.isPropertyAssignment(property) &&
+          property.name.getText() === 'skipAuth' &&
+          property.initializer.kind === ts.SyntaxKind.TrueKeyword
+      )
+  );
+}
+
+function isObjectSchema(schema) {
+  return schema.type === 'object' || Boolean(schema.$ref);
+}
+
+function queryParameters(node, checker, builder) {
+  if (isUndefinedArgument(node)) return [];
+
+  let type = checker.getNonNullableType(checker.getTypeAtLocation(node));
+  const extra = [];
+
+  // toExportParams(request) flattens ExportRequest<F>: the filters, format and columns
+  if (ts.isCallExpression(node) && node.expression.getText() === 'toExportParams') {
+    const request = checker.getNonNullableType(checker.getTypeAtLocation(node.arguments[0]));
+    const filters = request.getProperty('filters');
+    const format = request.getProperty('format');
+    type = filters ? checker.getNonNullableType(checker.getTypeOfSymbol(filters)) : type;
+    extra.push(
+      { name: 'format', in: 'query', required: true, schema: builder.toSchema(checker.getTypeOfSymbol(format)) },
+      {
+        name: 'columns',
+        in: 'query',
+        required: false,
+        description: 'Comma-separated column names; every column by default',
+        schema: { type: 'string' },
+      }
+    );
+  }
+
+  const parameters = checker.getPropertiesOfType(type).map((property) => {
+    const declaration = property.declarations?.[0];
+    const description = declaration && (trailingComment(declaration) || leadingComment(declaration));
+    const schema = builder.inline(checker.getNonNullableType(checker.getTypeOfSymbol(property)));
+    return {
+      name: property.name,
+      in: 'query',
+      required: !(property.flags & ts.SymbolFlags.Optional),
+      ...(description ? { description } : {}),
+      // serializeQuery repeats the key for arrays (the form default) and
+      // sends nested objects such as ranges as price[min]=1
+      ...(isObjectSchema(schema) ? { style: 'deepObject', explode: true } : {}),
+      schema,
+    };
+  });
+
+  return [...parameters, ...extra];
+}
+
+function jsonBody(node, checker, builder) {
+  if (isUndefinedArgument(node)) return undefined;
+
+  const type = checker.getNonNullableType(checker.getTypeAtLocation(node));
+  const schema = builder.toSchema(type);
+  if (schema.format === 'binary') {
+    return { required: true, content: { 'application/octet-stream': { schema } } };
+  }
+  return { required: true, content: { 'application/json': { schema } } };
+}
+
+function multipartBody(node, checker, builder) {
+  const properties = {
+    file: { type: 'array', items: { type: 'string', format: 'binary' }, description: 'One "file" field per file' },
+  };
+  const required = ['file'];
+
+  if (!isUndefinedArgument(node)) {
+    const type = checker.getNonNullableType(checker.getTypeAtLocation(node));
+    for (const property of checker.getPropertiesOfType(type)) {
+      properties[property.name] = builder.inline(checker.getNonNullableType(checker.getTypeOfSymbol(property)));
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+    }
+  }
+
+  return {
+    required: true,
+    description:
+      'Files above the chunk threshold go up through /uploads sessions instead; the endpoint then receives ' +
+      '{ uploadIds, ...fields } as JSON',
+    content: { 'multipart/form-data': { schema: { type: 'object', properties, required } } },
+  };
+}
+
+function envelope(schema) {
+  return {
+    allOf: [{ $ref: '#/components/schemas/SuccessEnvelope' }, { type: 'object', properties: { data: schema } }],
+  };
+}
+
+/**
+ * One operation per ApiClient call in a method body
+ */
+function readCall(call, context) {
+  const { checker, builder } = context;
+  const verb = call.expression.name.text;
+  const args = call.arguments;
+
+  const endpoint = readEndpoint(args[0], checker);
+  if (!endpoint) {
+    context.warn(`cannot resolve the endpoint of ${call.getText().split('\n')[0]}`);
+    return null;
+  }
+
+  const method = verb === 'stream' ? 'get' : verb === 'upload' ? 'post' : verb;
+  const operation = { parameters: [] };
+
+  endpoint.params.forEach(({ name, type }) => {
+    operation.parameters.push({ name, in: 'path', required: true, schema: builder.inline(type) });
+  });
+
+  let options;
+  if (verb === 'get' || verb === 'stream') {
+    operation.parameters.push(...queryParameters(args[1], checker, builder));
+    options = args[2];
+  } else if (verb === 'delete') {
+    options = args[1];
+  } else if (verb === 'upload') {
+    operation.requestBody = multipartBody(args[2], checker, builder);
+    options = args[3];
+  } else {
+    operation.requestBody = jsonBody(args[1], checker, builder);
+    options = args[2];
+  }
+  if (!operation.requestBody) delete operation.requestBody;
+
+  if (MUTATING_VERBS.includes(method)) {
+    operation.parameters.push({ $ref: '#/components/parameters/IdempotencyKey' });
+  }
+  operation.parameters.push({ $ref: '#/components/parameters/RequestId' });
+
+  if (hasSkipAuth(options)) {
+    operation.security = [];
+  }
+
+  if (verb === 'stream') {
+    operation.responses = {
+      200: {
+        description: 'Streamed export, opened by a preamble naming the generating admin and the filters',
+        headers: {
+          'X-Total-Count': { schema: { type: 'integer' }, description: 'Rows the export will contain' },
+          'X-Export-Preamble-Lines': { schema: { type: 'integer' }, description: 'Lines before the first row' },
+        },
+        content: { 'text/csv': { schema: { type: 'string' } }, 'application/x-ndjson': { schema: { type: 'string' } } },
+      },
+    };
+  } else {
+    const [typeArgument] = call.typeArguments || [];
+    const schema = typeArgument ? builder.toSchema(checker.getTypeFromTypeNode(typeArgument)) : { type: 'null' };
+    operation.responses = {
+      200: { description: 'Success', content: { 'application/json': { schema: envelope(schema) } } },
+    };
+  }
+  operation.responses.default = { $ref: '#/components/responses/Error' };
+
+  return { method, path: endpoint.path, operation };
+}
+
+function findCalls(node, receiver, found = []) {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.expression.getText() === receiver &&
+    [...VERBS, 'stream', 'upload'].includes(node.expression.name.text)
+  ) {
+    found.push(node);
+  }
+  ts.forEachChild(node, (child) => {
+    findCalls(child, receiver, found); // a truthy return would stop forEachChild
+  });
+  return found;
+}
+
+/**
+ * Calls on `client` in the static methods of the service classes, and the
+ * upload session calls ApiClient makes itself on `this`
+ */
+function collectOperations(program, context) {
+  const operations = [];
+
+  const addMethod = (member, tag, receiver, staticEndpointsOnly) => {
+    if (!member.body || !member.name) return;
+
+    for (const call of findCalls(member.body, receiver)) {
+      if (staticEndpointsOnly && !readEndpoint(call.arguments[0], context.checker)) continue;
+
+      const read = readCall(call, context);
+      if (!read) continue;
+      read.operation.tags = [tag];
+      read.operation.operationId = `${tag}.${member.name.getText()}`;
+      const summary = leadingComment(member);
+      if (summary) read.operation.summary = summary;
+      operations.push(read);
+    }
+  };
+
+  for (const file of listTsFiles(SERVICES_DIR)) {
+    const source = program.getSourceFile(file);
+    source.statements.filter(ts.isClassDeclaration).forEach((declaration) => {
+      const tag = declaration.name.text.replace(/Service$/, '').toLowerCase();
+      declaration.members.filter(ts.isMethodDeclaration).forEach((member) => addMethod(member, tag, 'client', false));
+    });
+  }
+
+  // ApiClient's own requests use endpoint variables except the upload sessions
+  program
+    .getSourceFile(CLIENT_FILE)
+    .statements.filter((statement) => ts.isClassDeclaration(statement) && statement.name?.text === 'ApiClient')
+    .forEach((declaration) => {
+      declaration.members.filter(ts.isMethodDeclaration).forEach((member) => addMethod(member, 'uploads', 'this', true));
+    });
+
+  return operations;
+}
+
+function mergeOperation(existing, next) {
+  // e.g. getOrders and getOrdersPage: one endpoint, offset or cursor pagination
+  const names = new Set(existing.parameters.map((parameter) => parameter.name || parameter.$ref));
+  next.parameters.forEach((parameter) => {
+    if (!names.has(parameter.name || parameter.$ref)) {
+      existing.parameters.push({ ...parameter, required: parameter.in === 'path' ? true : false });
+    }
+  });
+  existing.parameters.forEach((parameter) => {
+    const other = next.parameters.find((item) => item.name === parameter.name);
+    if (parameter.in === 'query' && parameter.required && !(other && other.required)) parameter.required = false;
+  });
+
+  const current = existing.responses[200].content?.['application/json']?.schema?.allOf?.[1].properties.data;
+  const added = next.responses[200].content?.['application/json']?.schema?.allOf?.[1].properties.data;
+  if (current && added && JSON.stringify(current) !== JSON.stringify(added)) {
+    const variants = current.anyOf && !current.$ref ? current.anyOf : [current];
+    existing.responses[200].content['application/json'].schema = envelope({ anyOf: [...variants, added] });
+  }
+
+  existing.summary = [existing.summary, next.summary].filter(Boolean).join('; ');
+  existing.operationId = `${existing.operationId}+${next.operationId.split('.').pop()}`;
+}
+
+function buildDocument() {
+  const files = [...listTsFiles(SERVICES_DIR), CLIENT_FILE];
+  const program = createProgram(files);
+  const checker = program.getTypeChecker();
+  const builder = new SchemaBuilder(checker);
+  const warnings = [];
+  const context = { checker, builder, warn: (message) => warnings.push(message) };
+
+  const paths = {};
+  for (const { method, path: route, operation } of collectOperations(program, context)) {
+    paths[route] = paths[route] || {};
+    if (paths[route][method]) mergeOperation(paths[route][method], operation);
+    else paths[route][method] = operation;
+  }
+
+  const sortedPaths = Object.fromEntries(Object.keys(paths).sort().map((key) => [key, paths[key]]));
+  const sortedSchemas = Object.fromEntries(
+    Object.keys(builder.schemas)
+      .sort()
+      .map((key) => [key, builder.schemas[key]])
+  );
+  const pkg = JSON.parse(fs.readFileSync(path.join(ROOT, 'package.json'), 'utf8'));
+
+  const document = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Exchange API (admin panel usage)',
+      version: pkg.version,
+      description:
+        'Generated by scripts/openapi.mjs from lib/api/services and lib/api/types.ts. Every JSON answer uses ' +
+        'the { success, message, data, timestamp } envelope, which ApiClient turns into an ApiResponse.',
+    },
+    servers: [
+      {
+        url: '{baseUrl}',
+        variables: { baseUrl: { default: 'http://localhost:9977/api', description: 'NEXT_PUBLIC_EXCHANGE_API_BASE_URL' } },
+      },
+    ],
+    security: [{ bearerAuth: [] }],
+    paths: sortedPaths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } },
+      parameters: {
+        IdempotencyKey: {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: false,
+          description: 'Sent with every mutation; repeats are answered from cache with Idempotent-Replayed: true',
+          schema: { type: 'string' },
+        },
+        RequestId: {
+          name: 'X-Request-Id',
+          in: 'header',
+          required: false,
+          description: 'Correlation id, echoed in the response',
+          schema: { type: 'string', format: 'uuid' },
+        },
+      },
+      responses: {
+        Error: {
+          description: 'Error',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorEnvelope' } } },
+        },
+      },
+      schemas: {
+        SuccessEnvelope: {
+          type: 'object',
+          properties: {
+            success: { const: true },
+            message: { type: 'string' },
+            data: {},
+            timestamp: { type: 'string', format: 'date-time' },
+          },
+          required: ['success', 'data'],
+        },
+        ErrorEnvelope: {
+          type: 'object',
+          properties: {
+            success: { const: false },
+            code: { type: 'string' },
+            message: { type: 'string' },
+            errors: { description: 'Field errors or other details' },
+            timestamp: { type: 'string', format: 'date-time' },
+          },
+          required: ['success', 'code', 'message'],
+        },
+        ...sortedSchemas,
+      },
+    },
+  };
+
+  return { document, warnings };
+}
+
+// ===== Checks =====
+
+// "/users/{id}" and "/users/:userId" compare equal
+function normalizePath(route) {
+  return route.replace(/\{[^}]+\}|:[A-Za-z]+/g, '{}');
+}
+
+function operationKeys(document) {
+  const keys = new Map();
+  Object.entries(document.paths || {}).forEach(([route, item]) => {
+    VERBS.forEach((method) => {
+      if (item[method]) keys.set(`${method.toUpperCase()} ${normalizePath(route)}`, { route, method, operation: item[method] });
+    });
+  });
+  return keys;
+}
+
+function mockRoutes() {
+  const routes = new Set();
+
+  for (const file of listTsFiles(MOCK_HANDLERS_DIR)) {
+    const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+    const visit = (node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.expression.getText() === 'router' &&
+        VERBS.includes(node.expression.name.text) &&
+        node.arguments[0] &&
+        ts.isStringLiteral(node.arguments[0])
+      ) {
+        routes.add(`${node.expression.name.text.toUpperCase()} ${normalizePath(node.arguments[0].text)}`);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+  }
+
+  return routes;
+}
+
+function checkMock(document) {
+  const routes = mockRoutes();
+  const problems = [];
+
+  operationKeys(document).forEach(({ route, method }, key) => {
+    if (!routes.has(key)) problems.push(`mock backend has no route for ${method.toUpperCase()} ${route}`);
+  });
+
+  return problems;
+}
+
+function resolveRef(document, schema) {
+  let current = schema;
+  for (let depth = 0; current?.$ref && depth < 10; depth++) {
+    current = current.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node, key) => node?.[key], document);
+  }
+  return current;
+}
+
+function bodyProperties(document, operation) {
+  const content = resolveRef(document, operation.requestBody)?.content || {};
+  const schema = resolveRef(document, Object.values(content)[0]?.schema);
+  if (!schema) return null;
+
+  const parts = schema.allOf ? schema.allOf.map((part) => resolveRef(document, part)) : [schema];
+  return {
+    properties: new Set(parts.flatMap((part) => Object.keys(part?.properties || {}))),
+    required: parts.flatMap((part) => part?.required || []),
+  };
+}
+
+function queryNames(document, operation) {
+  return new Set(
+    (operation.parameters || [])
+      .map((parameter) => resolveRef(document, parameter))
+      .filter((parameter) => parameter?.in === 'query')
+      .map((parameter) => parameter.name)
+  );
+}
+
+/**
+ * Compare with an upstream spec: every operation the admin calls must
+ * exist there with the query parameters and body fields the admin sends
+ */
+function checkAgainst(document, upstream) {
+  const theirs = operationKeys(upstream);
+  const problems = [];
+
+  operationKeys(document).forEach(({ route, method, operation }, key) => {
+    const label = `${method.toUpperCase()} ${route}`;
+    const match = theirs.get(key);
+    if (!match) {
+      problems.push(`${label} is missing upstream`);
+      return;
+    }
+
+    const upstreamQuery = queryNames(upstream, match.operation);
+    queryNames(document, operation).forEach((name) => {
+      if (!upstreamQuery.has(name)) problems.push(`${label}: query parameter "${name}" is unknown upstream`);
+    });
+
+    const ours = bodyProperties(document, operation);
+    const upstreamBody = bodyProperties(upstream, match.operation);
+    if (ours && !match.operation.requestBody) {
+      problems.push(`${label}: upstream takes no request body`);
+    } else if (ours && upstreamBody && upstreamBody.properties.size > 0) {
+      ours.properties.forEach((name) => {
+        if (!upstreamBody.properties.has(name)) problems.push(`${label}: body field "${name}" is unknown upstream`);
+      });
+      upstreamBody.required.forEach((name) => {
+        if (!ours.properties.has(name)) problems.push(`${label}: upstream requires body field "${name}"`);
+      });
+    }
+  });
+
+  return problems;
+}
+
+// ===== Main =====
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(fs.readFileSync(fileURLToPath(import.meta.url), 'utf8').split('*/')[0]);
+    return;
+  }
+
+  const { document, warnings } = buildDocument();
+  warnings.forEach((warning) => console.warn(`⚠️  ${warning}`));
+
+  const json = `${JSON.stringify(document, null, 2)}\n`;
+  if (args.out) {
+    fs.writeFileSync(path.resolve(args.out), json);
+    console.error(`✅ Wrote ${Object.keys(document.paths).length} paths to ${args.out}`);
+  } else if (!args.checkMock && !args.against) {
+    process.stdout.write(json);
+  }
+
+  const problems = [];
+  if (args.checkMock) {
+    problems.push(...checkMock(document));
+  }
+  if (args.against) {
+    problems.push(...checkAgainst(document, JSON.parse(fs.readFileSync(path.resolve(args.against), 'utf8'))));
+  }
+
+  if (args.checkMock || args.against) {
+    if (problems.length > 0) {
+      problems.forEach((problem) => console.error(`❌ ${problem}`));
+      process.exitCode = 1;
+    } else {
+      console.error('✅ Spec and backend agree');
+    }
+  }
+}
+
+main();